@@ -0,0 +1,25 @@
+/** @type {import('ts-jest').JestConfigWithTsJest} */
+export default {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/tests'],
+  // The end-to-end suite needs Chrome and runs separately with npm run test:e2e
+  testPathIgnorePatterns: ['/node_modules/', '<rootDir>/tests/e2e/'],
+  transform: {
+    // Type-checking is left to tsc; the tests only need the sources transpiled
+    '^.+\\.ts$': ['ts-jest', {
+      tsconfig: {
+        isolatedModules: true,
+        module: 'CommonJS',
+        moduleResolution: 'Node',
+        target: 'ES2022',
+        strict: true,
+        esModuleInterop: true,
+        skipLibCheck: true,
+      },
+    }],
+  },
+  // Sources import with .js extensions for Node16 ESM resolution
+  moduleNameMapper: {
+    '^(\\.{1,2}/.*)\\.js$': '$1',
+  },
+};
@@ -0,0 +1,30 @@
+import baseConfig from './jest.config.js';
+
+/**
+ * ESM-only packages loaded by the tools, transpiled to CommonJS like the sources
+ */
+const ESM_PACKAGES = ['node-fetch', 'data-uri-to-buffer', 'fetch-blob', 'formdata-polyfill', 'node-domexception'];
+
+/**
+ * End-to-end tests: every tool against local fixture pages in headless Chrome,
+ * with the mock AI provider and no network access
+ */
+/** @type {import('ts-jest').JestConfigWithTsJest} */
+export default {
+  ...baseConfig,
+  roots: ['<rootDir>/tests/e2e'],
+  testPathIgnorePatterns: ['/node_modules/'],
+  setupFiles: ['<rootDir>/tests/e2e/setup.ts'],
+  transform: {
+    ...baseConfig.transform,
+    '^.+\\.js$': ['ts-jest', {
+      tsconfig: {
+        ...baseConfig.transform['^.+\\.ts$'][1].tsconfig,
+        allowJs: true,
+      },
+    }],
+  },
+  transformIgnorePatterns: [`/node_modules/(?!(${ESM_PACKAGES.join('|')})/)`],
+  // Launching Chrome and loading pages is slower than the unit tests
+  testTimeout: 60000,
+};
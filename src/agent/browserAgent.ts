@@ -0,0 +1,389 @@
+import { BrowserManager } from '../browser/browserManager.js';
+import { collectInteractiveElements, InteractiveElement } from '../browser/interactiveElements.js';
+import { describeDialog } from '../browser/dialogs.js';
+import { AIService } from '../ai/aiService.js';
+import { browseWebpage } from '../tools/browseWebpage.js';
+import { clickElement } from '../tools/clickElement.js';
+import { fillForm } from '../tools/fillForm.js';
+import { extractContent } from '../tools/extractContent.js';
+import { setupLogger, createContextLogger } from '../utils/logger.js';
+
+// Logger
+const logger = createContextLogger(setupLogger(), 'BrowserAgent');
+
+/**
+ * Type for an action chosen by the model
+ */
+export interface AgentAction {
+  action: 'navigate' | 'click' | 'fill' | 'extract' | 'done' | 'fail';
+  thought?: string;
+  url?: string;
+  elementIndex?: number;
+  fields?: { elementIndex: number; value: string }[];
+  submit?: boolean;
+  selectors?: Record<string, string>;
+  result?: string;
+  reason?: string;
+}
+
+/**
+ * Type for a single step in the action trace
+ */
+export interface AgentStep {
+  step: number;
+  thought: string;
+  action: AgentAction | null;
+  success: boolean;
+  observation: string;
+  url: string;
+}
+
+/**
+ * Options for running a browser task
+ */
+export interface AgentRunOptions {
+  maxSteps?: number;
+  useScreenshots?: boolean;
+  startUrl?: string;
+  sessionId?: string;
+}
+
+/**
+ * Result of a browser task
+ */
+export interface AgentRunResult {
+  goal: string;
+  status: 'completed' | 'failed' | 'max_steps_reached';
+  result: string;
+  steps: AgentStep[];
+  sessionId: string;
+}
+
+/**
+ * Maximum number of interactive elements listed in a page observation
+ */
+const MAX_OBSERVED_ELEMENTS = 150;
+
+/**
+ * Maximum length of the page text included in a page observation
+ */
+const MAX_OBSERVED_TEXT = 4000;
+
+/**
+ * Agent that pursues a natural-language goal by repeatedly observing the page,
+ * asking the configured AI provider for the next action and executing it
+ */
+export class BrowserAgent {
+  private browserManager: BrowserManager;
+  private aiService: AIService;
+  
+  /**
+   * Constructor
+   * @param browserManager The browser manager instance
+   * @param aiService The AI service used to choose actions
+   */
+  constructor(browserManager: BrowserManager, aiService: AIService = new AIService()) {
+    this.browserManager = browserManager;
+    this.aiService = aiService;
+  }
+  
+  /**
+   * Run the observe-act loop until the goal is done or the step budget runs out
+   * @param goal The natural-language goal
+   * @param options Run options
+   * @returns The outcome and the full action trace
+   */
+  async run(goal: string, options: AgentRunOptions = {}): Promise<AgentRunResult> {
+    const maxSteps = options.maxSteps || 15;
+    const steps: AgentStep[] = [];
+    const { sessionId } = await this.browserManager.getPage(options.sessionId);
+    
+    logger.info(`Running browser task in session ${sessionId}: ${goal}`);
+    
+    if (options.startUrl) {
+      await browseWebpage(this.browserManager, { url: options.startUrl, sessionId });
+    }
+    
+    for (let step = 1; step <= maxSteps; step++) {
+      let url = '';
+      let action: AgentAction | null = null;
+      
+      try {
+        // Observe the active tab, which may have changed since the last step
+        const { page } = await this.browserManager.getPage(sessionId);
+        url = page.url();
+        
+        // Scripts cannot run while a dialog is open, so observing the page would hang
+        const [dialog] = this.browserManager.getOpenDialogs(sessionId);
+        if (dialog) {
+          const result = `A ${describeDialog(dialog.type, dialog.message)} is blocking the page; answer it with handle_dialog`;
+          logger.warn(`Step ${step}: ${result}`);
+          steps.push({ step, thought: '', action: null, success: false, observation: result, url });
+          return { goal, status: 'failed', result, steps, sessionId };
+        }
+        
+        let prompt: string;
+        try {
+          const elements = await collectInteractiveElements(page, { maxElements: MAX_OBSERVED_ELEMENTS });
+          const pageText = await page.evaluate(() => document.body ? document.body.innerText || '' : '');
+          prompt = this.buildPrompt(goal, steps, {
+            url: page.url(),
+            title: await page.title(),
+            elements,
+            text: pageText.substring(0, MAX_OBSERVED_TEXT),
+          });
+        } catch (error) {
+          // A navigation can destroy the page's execution context while it is observed
+          const message = error instanceof Error ? error.message : String(error);
+          logger.warn(`Step ${step}: could not observe the page: ${message}`);
+          steps.push({
+            step,
+            thought: '',
+            action: null,
+            success: false,
+            observation: `Could not observe the page: ${message}`,
+            url: page.url(),
+          });
+          continue;
+        }
+        
+        // Ask the model for the next action
+        let responseText: string;
+        if (options.useScreenshots) {
+          const screenshot = await page.screenshot({ type: 'jpeg', quality: 60, fullPage: false });
+          const response = await this.aiService.generateTextWithImage(
+            prompt,
+            screenshot.toString('base64'),
+            'image/jpeg',
+            { temperature: 0.2 }
+          );
+          responseText = response.text;
+        } else {
+          const response = await this.aiService.generateText(prompt, { temperature: 0.2 });
+          responseText = response.text;
+        }
+        
+        action = this.parseAction(responseText);
+        if (!action) {
+          logger.warn(`Step ${step}: could not parse an action from the model response`);
+          steps.push({
+            step,
+            thought: '',
+            action: null,
+            success: false,
+            observation: 'The response was not a valid JSON action. Reply with a single JSON object.',
+            url: page.url(),
+          });
+          continue;
+        }
+        
+        logger.info(`Step ${step}: ${action.action}`);
+        
+        if (action.action === 'done' || action.action === 'fail') {
+          const result = action.action === 'done' ? action.result || '' : action.reason || '';
+          steps.push({
+            step,
+            thought: action.thought || '',
+            action,
+            success: action.action === 'done',
+            observation: result,
+            url: page.url(),
+          });
+          
+          return {
+            goal,
+            status: action.action === 'done' ? 'completed' : 'failed',
+            result,
+            steps,
+            sessionId,
+          };
+        }
+        
+        // Execute the action
+        const { success, observation } = await this.executeAction(action, sessionId);
+        steps.push({
+          step,
+          thought: action.thought || '',
+          action,
+          success,
+          observation,
+          url: (await this.browserManager.getPage(sessionId)).page.url(),
+        });
+      } catch (error) {
+        // Keep the trace when a screenshot or the AI provider fails, such as on a rate limit
+        const message = error instanceof Error ? error.message : String(error);
+        logger.error(`Step ${step} failed: ${message}`);
+        steps.push({
+          step,
+          thought: action?.thought || '',
+          action,
+          success: false,
+          observation: `Step failed: ${message}`,
+          url,
+        });
+        
+        return {
+          goal,
+          status: 'failed',
+          result: `Step ${step} failed: ${message}`,
+          steps,
+          sessionId,
+        };
+      }
+    }
+    
+    logger.warn(`Browser task stopped after ${maxSteps} steps`);
+    
+    return {
+      goal,
+      status: 'max_steps_reached',
+      result: `Step budget of ${maxSteps} steps ran out before the goal was reached`,
+      steps,
+      sessionId,
+    };
+  }
+  
+  /**
+   * Execute an action with the existing browse, click, fill and extract logic
+   * @param action The action to execute
+   * @param sessionId The session to act in
+   * @returns Whether the action succeeded and what was observed
+   */
+  private async executeAction(
+    action: AgentAction,
+    sessionId: string
+  ): Promise<{ success: boolean; observation: string }> {
+    try {
+      switch (action.action) {
+        case 'navigate': {
+          if (!action.url) {
+            throw new Error('navigate requires a url');
+          }
+          const result = await browseWebpage(this.browserManager, { url: action.url, sessionId });
+          return { success: true, observation: `Loaded "${result.title}" (${result.url})` };
+        }
+        case 'click': {
+          if (action.elementIndex === undefined) {
+            throw new Error('click requires an elementIndex');
+          }
+          const result = await clickElement(this.browserManager, {
+            elementIndex: action.elementIndex,
+            waitForNavigation: true,
+            timeout: 10000,
+            sessionId,
+          });
+          return { success: result.success, observation: result.message };
+        }
+        case 'fill': {
+          if (!action.fields || action.fields.length === 0) {
+            throw new Error('fill requires at least one field');
+          }
+          const result = await fillForm(this.browserManager, {
+            fields: {},
+            indexedFields: action.fields,
+            submit: action.submit === true,
+            waitForNavigation: true,
+            timeout: 10000,
+            sessionId,
+          });
+          return {
+            success: result.success,
+            observation: `${result.message}${result.submitted ? ', form submitted' : ''}`,
+          };
+        }
+        case 'extract': {
+          const result = await extractContent(this.browserManager, {
+            selectors: action.selectors,
+            extractText: !action.selectors,
+            sessionId,
+          });
+          const extracted = action.selectors ? JSON.stringify(result.elements) : result.text || '';
+          return { success: true, observation: extracted.substring(0, MAX_OBSERVED_TEXT) };
+        }
+        default:
+          throw new Error(`Unknown action: ${action.action}`);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warn(`Action ${action.action} failed: ${message}`);
+      return { success: false, observation: `Action failed: ${message}` };
+    }
+  }
+  
+  /**
+   * Build the prompt asking the model for the next action
+   * @param goal The natural-language goal
+   * @param steps The steps taken so far
+   * @param page The current page observation
+   * @returns The prompt text
+   */
+  private buildPrompt(
+    goal: string,
+    steps: AgentStep[],
+    page: { url: string; title: string; elements: InteractiveElement[]; text: string }
+  ): string {
+    const history = steps.length > 0
+      ? steps
+        .map(s => `${s.step}. ${s.action ? JSON.stringify(s.action) : '(invalid response)'} -> ${s.success ? 'OK' : 'FAILED'}: ${s.observation.substring(0, 300)}`)
+        .join('\n')
+      : '(none yet)';
+    
+    const elementList = page.elements
+      .map(el => `[${el.index}] ${el.role}${el.type ? `(${el.type})` : ''} "${el.name}"${el.disabled ? ' disabled' : ''}`)
+      .join('\n');
+    
+    return `
+You are controlling a web browser to accomplish a goal. Choose the single next action.
+
+Goal: ${goal}
+
+Previous steps:
+${history}
+
+Current page:
+URL: ${page.url}
+Title: ${page.title}
+
+Interactive elements (index, role, name):
+${elementList || '(none)'}
+
+Page text:
+---
+${page.text}
+---
+
+Reply with ONLY one JSON object, using one of these actions:
+{"thought": "...", "action": "navigate", "url": "https://..."}
+{"thought": "...", "action": "click", "elementIndex": 3}
+{"thought": "...", "action": "fill", "fields": [{"elementIndex": 5, "value": "text"}], "submit": false}
+{"thought": "...", "action": "extract", "selectors": {"name": "css selector"}}
+{"thought": "...", "action": "done", "result": "the answer or a summary of what was achieved"}
+{"thought": "...", "action": "fail", "reason": "why the goal cannot be achieved"}
+`.trim();
+  }
+  
+  /**
+   * Parse the action JSON from a model response
+   * @param text The model response
+   * @returns The parsed action or null if none was found
+   */
+  private parseAction(text: string): AgentAction | null {
+    // Extract only the JSON part by finding the first { and last }
+    const jsonStart = text.indexOf('{');
+    const jsonEnd = text.lastIndexOf('}') + 1;
+    
+    if (jsonStart < 0 || jsonEnd <= jsonStart) {
+      return null;
+    }
+    
+    try {
+      const parsed = JSON.parse(text.substring(jsonStart, jsonEnd));
+      return parsed && typeof parsed.action === 'string' ? parsed as AgentAction : null;
+    } catch {
+      logger.debug(`AI response: ${text}`);
+      return null;
+    }
+  }
+}
+
+export default BrowserAgent;
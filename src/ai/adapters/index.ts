@@ -3,6 +3,7 @@ import { setupLogger, createContextLogger } from '../../utils/logger.js';
 import GeminiAdapter from './geminiAdapter.js';
 import AnthropicAdapter from './anthropicAdapter.js';
 import OpenAIAdapter from './openaiAdapter.js';
+import MockAdapter from './mockAdapter.js';
 
 // Logger
 const logger = createContextLogger(setupLogger(), 'AIAdapterFactory');
@@ -37,6 +38,8 @@ export class AIAdapterFactory {
         return new AnthropicAdapter();
       case 'OPENAI':
         return new OpenAIAdapter();
+      case 'MOCK':
+        return new MockAdapter();
       default:
         logger.error(`Unsupported AI provider: ${provider}`);
         throw new Error(`Unsupported AI provider: ${provider}`);
@@ -0,0 +1,147 @@
+import { readFileSync } from 'fs';
+import { Config } from '../../config/index.js';
+import { setupLogger, createContextLogger } from '../../utils/logger.js';
+
+// Logger
+const logger = createContextLogger(setupLogger(), 'MockAdapter');
+
+/**
+ * A scripted response, returned for the first call whose prompt matches
+ */
+export interface MockResponse {
+  /** Text or pattern the prompt must contain; omitted matches any prompt */
+  match?: string | RegExp;
+  /** The response text */
+  response: string;
+  /** Keep the response for later calls instead of using it once */
+  repeat?: boolean;
+}
+
+/**
+ * A call made to the mock adapter
+ */
+export interface MockCall {
+  method: 'generateText' | 'generateTextWithImage' | 'generateChatResponse';
+  prompt: string;
+  hasImage: boolean;
+}
+
+/**
+ * Adapter that answers with scripted or recorded responses instead of calling a model,
+ * for running the tools without API keys
+ */
+export class MockAdapter {
+  // Shared by all instances because the tools create their own AI service per call
+  private static script: MockResponse[] = [];
+  private static calls: MockCall[] = [];
+  private recorded: MockResponse[] = [];
+  
+  /**
+   * Constructor
+   */
+  constructor() {
+    const responsesFile = Config.ai.mock.responsesFile;
+    
+    if (responsesFile) {
+      const recorded = JSON.parse(readFileSync(responsesFile, 'utf8'));
+      if (!Array.isArray(recorded)) {
+        throw new Error(`Mock AI responses file ${responsesFile} must contain a JSON array`);
+      }
+      
+      // Recorded responses can be used any number of times
+      this.recorded = recorded.map((entry: { match?: string; response: string }) => ({
+        match: entry.match,
+        response: entry.response,
+        repeat: true,
+      }));
+    }
+    
+    logger.info(`Initialized mock AI adapter with ${this.recorded.length} recorded responses`);
+  }
+  
+  /**
+   * Script responses for the next calls, matched in the order they were added
+   * @param responses Response texts, used once each for any prompt, or response rules
+   */
+  static enqueue(...responses: Array<string | MockResponse>): void {
+    MockAdapter.script.push(...responses.map(response =>
+      typeof response === 'string' ? { response } : response
+    ));
+  }
+  
+  /**
+   * Get the calls made since the last reset
+   * @returns The calls, oldest first
+   */
+  static getCalls(): MockCall[] {
+    return [...MockAdapter.calls];
+  }
+  
+  /**
+   * Remove all scripted responses and recorded calls
+   */
+  static reset(): void {
+    MockAdapter.script = [];
+    MockAdapter.calls = [];
+  }
+  
+  /**
+   * Generate text by returning the matching scripted response
+   * @param prompt Text prompt for generation
+   * @returns The scripted response
+   */
+  async generateText(prompt: string): Promise<string> {
+    return this.respond({ method: 'generateText', prompt, hasImage: false });
+  }
+  
+  /**
+   * Generate text for a prompt with an image by returning the matching scripted response
+   * @param prompt Text prompt
+   * @returns The scripted response
+   */
+  async generateTextWithImage(prompt: string): Promise<string> {
+    return this.respond({ method: 'generateTextWithImage', prompt, hasImage: true });
+  }
+  
+  /**
+   * Generate a chat response by returning the response matching the conversation
+   * @param messages Array of message objects with role and content
+   * @returns The scripted response
+   */
+  async generateChatResponse(messages: { role: string; content: string }[]): Promise<string> {
+    const prompt = messages.map(message => `${message.role}: ${message.content}`).join('\n');
+    return this.respond({ method: 'generateChatResponse', prompt, hasImage: false });
+  }
+  
+  /**
+   * Record a call and find its response, trying scripted responses before recorded ones
+   * @param call The call
+   * @returns The response text
+   */
+  private respond(call: MockCall): string {
+    MockAdapter.calls.push(call);
+    
+    const matches = (entry: MockResponse) =>
+      entry.match === undefined ||
+      (typeof entry.match === 'string' ? call.prompt.includes(entry.match) : entry.match.test(call.prompt));
+    
+    const scriptIndex = MockAdapter.script.findIndex(matches);
+    if (scriptIndex !== -1) {
+      const entry = MockAdapter.script[scriptIndex];
+      if (!entry.repeat) {
+        MockAdapter.script.splice(scriptIndex, 1);
+      }
+      return entry.response;
+    }
+    
+    const recorded = this.recorded.find(matches);
+    if (recorded) {
+      return recorded.response;
+    }
+    
+    logger.error(`No mock AI response matches the ${call.method} prompt`);
+    throw new Error(`No mock AI response matches the prompt: ${call.prompt.substring(0, 200)}`);
+  }
+}
+
+export default MockAdapter;
@@ -170,6 +170,8 @@ export class AIService {
         return Config.ai.anthropic.modelName;
       case 'OPENAI':
         return Config.ai.openai.modelName;
+      case 'MOCK':
+        return 'mock';
       default:
         return 'unknown';
     }
@@ -193,6 +195,8 @@ export class AIService {
         return Config.ai.openai.modelName.includes('vision')
           ? Config.ai.openai.modelName
           : 'gpt-4o';
+      case 'MOCK':
+        return 'mock';
       default:
         return 'unknown';
     }
@@ -4,6 +4,7 @@ import { AIAdapter, AIAdapterFactory } from './adapters/index.js';
 import GeminiAdapter from './adapters/geminiAdapter.js';
 import AnthropicAdapter from './adapters/anthropicAdapter.js';
 import OpenAIAdapter from './adapters/openaiAdapter.js';
+import MockAdapter from './adapters/mockAdapter.js';
 
 // Export all AI-related components
 export {
@@ -17,6 +18,7 @@ export {
   GeminiAdapter,
   AnthropicAdapter,
   OpenAIAdapter,
+  MockAdapter,
 };
 
 // Default export
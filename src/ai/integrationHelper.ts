@@ -4,6 +4,20 @@ import { setupLogger, createContextLogger } from '../utils/logger.js';
 // Logger
 const logger = createContextLogger(setupLogger(), 'AIIntegrationHelper');
 
+/**
+ * Options for structured data extraction
+ */
+export interface StructuredDataOptions {
+  /** Additional instructions for the model */
+  instructions?: string;
+  /** Ask for the data wrapped with a confidence and source snippet per field */
+  includeFieldSources?: boolean;
+  /** The result of a previous attempt that failed validation */
+  previousResult?: unknown;
+  /** The validation errors of the previous attempt */
+  validationErrors?: string[];
+}
+
 /**
  * Helper class for AI integration in MCP tools
  */
@@ -56,21 +70,54 @@ export class AIIntegrationHelper {
    * Extract structured data from text
    * @param text The text to extract data from
    * @param schema The schema of the data to extract
+   * @param options Extraction options, including the errors of a previous attempt to correct
    * @returns The extracted data
    */
-  static async extractStructuredData(text: string, schema: object): Promise<object> {
+  static async extractStructuredData(
+    text: string,
+    schema: object,
+    options: StructuredDataOptions = {}
+  ): Promise<object> {
     try {
       logger.info('Extracting structured data with AI');
       
       const aiService = AIIntegrationHelper.getAIService();
       
+      // Describe the expected output, optionally wrapped with per-field evidence
+      const outputInstructions = options.includeFieldSources
+        ? `Return ONLY a JSON object of this shape without any additional text:
+{
+  "data": <the filled JSON object>,
+  "fields": {
+    "<path of each extracted value, such as name, price or contacts[0].email>": {
+      "confidence": <number from 0 to 1>,
+      "source": "<short verbatim snippet of the text the value was taken from>"
+    }
+  }
+}
+Do not invent values that are not present in the text.`
+        : 'Return ONLY the filled JSON object without any additional text.';
+      
+      // Feed back the problems of the previous attempt so the model can correct them
+      const correction = options.validationErrors && options.validationErrors.length > 0
+        ? `
+Your previous answer did not match the schema:
+${JSON.stringify(options.previousResult ?? null, null, 2)}
+
+Validation errors:
+${options.validationErrors.map(error => `- ${error}`).join('\n')}
+
+Fix these errors in your new answer.
+`
+        : '';
+      
       // Construct a prompt for data extraction
       const extractionPrompt = `
 Extract the structured data from the following text according to this schema:
 ${JSON.stringify(schema, null, 2)}
-
-Return ONLY the filled JSON object without any additional text.
-
+${options.instructions ? `\nInstructions: ${options.instructions}\n` : ''}
+${outputInstructions}
+${correction}
 Text:
 ${text}
       `;
@@ -142,11 +189,13 @@ Request: ${request}
    * Generate a form filling strategy based on form fields and user requirements
    * @param formFields The available form fields
    * @param userRequirements The user's requirements
+   * @param fieldDetails Optional description of each field, such as its type, label and options
    * @returns The form filling strategy
    */
   static async generateFormFillingStrategy(
     formFields: string[],
-    userRequirements: string
+    userRequirements: string,
+    fieldDetails: Record<string, string> = {}
   ): Promise<Record<string, string>> {
     try {
       logger.info('Generating form filling strategy with AI');
@@ -156,12 +205,14 @@ Request: ${request}
       // Construct a prompt for form filling strategy
       const strategyPrompt = `
 I need to fill out a form with the following fields:
-${formFields.map(field => `- ${field}`).join('\n')}
+${formFields.map(field => `- ${field}${fieldDetails[field] ? ` (${fieldDetails[field]})` : ''}`).join('\n')}
 
 Based on these requirements:
 ${userRequirements}
 
 Create a JSON object where the keys are the form field names and the values are what to fill in.
+Use one of the listed option values for fields with options, and "true" or "false" for checkboxes.
+Leave out fields the requirements do not provide a value for instead of inventing one.
 Return ONLY the JSON object without any additional text or explanation.
       `;
       
@@ -0,0 +1,269 @@
+import puppeteer from 'puppeteer';
+import { DialogPolicy, describeDialog } from './dialogs.js';
+
+/**
+ * Window property holding the mutation counter installed by countMutations
+ */
+const MUTATION_COUNTER_KEY = '__mcpMutationCounter';
+
+/**
+ * Request types counted as the page fetching data
+ */
+const DATA_REQUEST_TYPES = ['xhr', 'fetch'];
+
+/**
+ * Options for settling after an action
+ */
+export interface SettleOptions {
+  /** How long a navigation the action started may take to load */
+  timeout?: number;
+  /** How long the DOM and network must be quiet for the page to count as stable */
+  quietTime?: number;
+  /** How long to wait for quiet when the action did not navigate */
+  maxQuietWait?: number;
+  /** Whether to wait for a navigation the action started to load; if false, waiting ends after maxQuietWait */
+  waitForNavigation?: boolean;
+  /** How the session answers dialogs; with queue, or if not given, a dialog ends the wait */
+  dialogPolicy?: DialogPolicy;
+}
+
+/**
+ * Type for what an action changed on the page
+ */
+export interface ActionChanges {
+  /** A new document was loaded */
+  navigated: boolean;
+  /** The URL changed, by a navigation or a single-page app route change */
+  urlChanged: boolean;
+  /** URL before the action, when it changed */
+  previousUrl?: string;
+  /** Number of DOM mutations observed */
+  domMutations: number;
+  /** Number of fetch and XHR requests started */
+  requests: number;
+  /** Fetch and XHR requests still in flight when waiting stopped */
+  pendingRequests: number;
+  /** A JavaScript dialog opened */
+  dialogOpened: boolean;
+  /** The first dialog that opened, and whether the dialog policy answered it or it blocks the page */
+  dialog?: {
+    type: string;
+    message: string;
+    action: 'accepted' | 'dismissed' | 'pending';
+  };
+  /** False if the page was still busy when waiting gave up */
+  settled: boolean;
+  elapsedMs: number;
+}
+
+/**
+ * Count the DOM mutations of the current document, installing the counter on
+ * first use. Runs in the page.
+ * @param key Window property holding the counter
+ * @returns The number of mutations since the counter was installed
+ */
+export function countMutations(key: string): number {
+  const host = window as unknown as Record<string, { count: number } | undefined>;
+  let counter = host[key];
+  
+  if (!counter) {
+    const state = { count: 0 };
+    new MutationObserver(records => {
+      state.count += records.length;
+    }).observe(document, { subtree: true, childList: true, attributes: true, characterData: true });
+    host[key] = state;
+    counter = state;
+  }
+  
+  return counter.count;
+}
+
+/**
+ * Run an action and wait until the page is stable: a navigation the action
+ * started has loaded, no fetch or XHR request is in flight, and the DOM has not
+ * changed for the quiet time. Returns as soon as that is the case, so actions
+ * that change nothing cost only the quiet time.
+ * @param page The page the action runs on
+ * @param action The action, such as clicking an element
+ * @param options How long to wait
+ * @returns What the action changed
+ */
+export async function settleAfterAction(
+  page: puppeteer.Page,
+  action: () => Promise<unknown>,
+  options: SettleOptions = {}
+): Promise<ActionChanges> {
+  const timeout = options.timeout ?? 30000;
+  const quietTime = options.quietTime ?? 300;
+  const maxQuietWait = Math.min(options.maxQuietWait ?? 5000, timeout);
+  const waitForNavigation = options.waitForNavigation ?? true;
+  const startedAt = Date.now();
+  const previousUrl = page.url();
+  const mainFrame = page.mainFrame();
+  
+  let navigationRequest: puppeteer.HTTPRequest | null = null;
+  let loaded = false;
+  let requests = 0;
+  const inFlight = new Set<puppeteer.HTTPRequest>();
+  let lastActivity = startedAt;
+  
+  // Scripts cannot run while a dialog is open, so stop waiting on the page when one is left for the client
+  const dialogAction = options.dialogPolicy === 'accept' ? 'accepted'
+    : options.dialogPolicy === 'dismiss' ? 'dismissed'
+      : 'pending';
+  let dialog: ActionChanges['dialog'];
+  let blocked = false;
+  let onDialog: (opened: puppeteer.Dialog) => void = () => {};
+  const blockedPromise = new Promise<null>(resolve => {
+    onDialog = (opened: puppeteer.Dialog) => {
+      dialog = dialog ?? { type: opened.type(), message: opened.message(), action: dialogAction };
+      lastActivity = Date.now();
+      if (dialogAction === 'pending') {
+        blocked = true;
+        resolve(null);
+      }
+    };
+  });
+  
+  const onRequest = (request: puppeteer.HTTPRequest) => {
+    if (request.isNavigationRequest() && request.frame() === mainFrame) {
+      navigationRequest = request;
+      loaded = false;
+    } else if (DATA_REQUEST_TYPES.includes(request.resourceType())) {
+      requests++;
+      inFlight.add(request);
+    }
+    lastActivity = Date.now();
+  };
+  const onRequestFinished = (request: puppeteer.HTTPRequest) => {
+    if (inFlight.delete(request)) {
+      lastActivity = Date.now();
+    }
+  };
+  const onRequestFailed = (request: puppeteer.HTTPRequest) => {
+    // A navigation that fails, or turns into a download, loads no document
+    if (request === navigationRequest) {
+      navigationRequest = null;
+    }
+    onRequestFinished(request);
+  };
+  const onLoad = () => {
+    loaded = true;
+    lastActivity = Date.now();
+  };
+  const onFrameNavigated = (frame: puppeteer.Frame) => {
+    if (frame === mainFrame) {
+      lastActivity = Date.now();
+    }
+  };
+  
+  // An action or page script that never returns must not hold the caller past the timeout
+  let timedOut = false;
+  let deadlineTimer: NodeJS.Timeout | undefined;
+  const deadlinePromise = new Promise<null>(resolve => {
+    deadlineTimer = setTimeout(() => {
+      timedOut = true;
+      resolve(null);
+    }, timeout);
+  });
+  
+  const readMutations = (): Promise<number | null> => Promise.race([
+    page.evaluate(countMutations, MUTATION_COUNTER_KEY).catch(() => null),
+    blockedPromise,
+    deadlinePromise,
+  ]);
+  
+  page.on('request', onRequest);
+  page.on('requestfinished', onRequestFinished);
+  page.on('requestfailed', onRequestFailed);
+  page.on('load', onLoad);
+  page.on('framenavigated', onFrameNavigated);
+  page.on('dialog', onDialog);
+  
+  let settled = false;
+  let domMutations = 0;
+  
+  try {
+    let lastCount = (await readMutations()) ?? 0;
+    
+    const actionPromise = action();
+    actionPromise.catch(() => {});
+    await Promise.race([actionPromise, blockedPromise, deadlinePromise]);
+    lastActivity = Math.max(lastActivity, Date.now());
+    
+    while (!blocked && !timedOut) {
+      await new Promise(resolve => setTimeout(resolve, 50));
+      
+      // A new document restarts the count
+      const count = await readMutations();
+      if (count !== null) {
+        const delta = count >= lastCount ? count - lastCount : count;
+        if (delta > 0) {
+          domMutations += delta;
+          lastActivity = Date.now();
+        }
+        lastCount = count;
+      }
+      
+      const now = Date.now();
+      const navigating = navigationRequest !== null && !loaded;
+      if (!navigating && inFlight.size === 0 && now - lastActivity >= quietTime) {
+        settled = true;
+        break;
+      }
+      
+      const deadline = startedAt + (navigationRequest !== null && waitForNavigation ? timeout : maxQuietWait);
+      if (now >= deadline) {
+        break;
+      }
+    }
+  } finally {
+    clearTimeout(deadlineTimer);
+    page.off('request', onRequest);
+    page.off('requestfinished', onRequestFinished);
+    page.off('requestfailed', onRequestFailed);
+    page.off('load', onLoad);
+    page.off('framenavigated', onFrameNavigated);
+    page.off('dialog', onDialog);
+  }
+  
+  const urlChanged = page.url() !== previousUrl;
+  
+  return {
+    navigated: navigationRequest !== null && loaded,
+    urlChanged,
+    previousUrl: urlChanged ? previousUrl : undefined,
+    domMutations,
+    requests,
+    pendingRequests: inFlight.size,
+    dialogOpened: dialog !== undefined,
+    dialog,
+    settled,
+    elapsedMs: Date.now() - startedAt,
+  };
+}
+
+/**
+ * Describe what an action changed for result messages
+ * @param changes The changes
+ * @returns The description, such as "navigated to a new page"
+ */
+export function describeChanges(changes: ActionChanges): string {
+  const parts: string[] = [];
+  if (changes.dialog) {
+    const answered = changes.dialog.action === 'pending' ? 'waiting for handle_dialog' : changes.dialog.action;
+    parts.push(`opened a ${describeDialog(changes.dialog.type, changes.dialog.message)} (${answered})`);
+  }
+  if (changes.navigated) parts.push('navigated to a new page');
+  else if (changes.urlChanged) parts.push('changed the URL');
+  if (changes.requests > 0) parts.push(`made ${changes.requests} requests`);
+  if (changes.domMutations > 0) parts.push('updated the page');
+  if (!changes.settled && changes.dialog?.action !== 'pending') parts.push('the page was still busy');
+  return parts.length > 0 ? parts.join(', ') : 'nothing changed';
+}
+
+export default {
+  countMutations,
+  settleAfterAction,
+  describeChanges,
+};
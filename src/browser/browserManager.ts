@@ -2,7 +2,16 @@ import puppeteer from 'puppeteer';
 import puppeteerExtra from 'puppeteer-extra';
 import StealthPlugin from 'puppeteer-extra-plugin-stealth';
 import { v4 as uuidv4 } from 'uuid';
+import { rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
 import { setupLogger, createContextLogger } from '../utils/logger.js';
+import { SessionManager, SessionData } from '../utils/sessionManager.js';
+import { NetworkRules, BlockableResourceType, hasActiveRules, shouldBlockRequest } from './networkFilter.js';
+import { NetworkRecorder, NetworkCaptureOptions, NetworkEntry } from './networkRecorder.js';
+import { ConsoleBuffer, ConsoleEntry, ConsoleEntryFilter, consoleLevelOf } from './consoleLog.js';
+import { DialogPolicy, describeDialog } from './dialogs.js';
+import { DownloadTracker, DownloadEntry } from './downloads.js';
 
 // Add stealth plugin to puppeteer
 puppeteerExtra.use(StealthPlugin());
@@ -13,11 +22,65 @@ export interface BrowserConfig {
   userDataDir: string;
   debuggingPort: number;
   debuggingHost: string;
+  connectExisting: boolean;
+  wsEndpoint: string;
   persistentSession: boolean;
   headless: boolean;
   disableSecurity: boolean;
   windowWidth: number;
   windowHeight: number;
+  isolateSessions: boolean;
+  sessionTimeoutMinutes: number;
+  blockResourceTypes: BlockableResourceType[];
+  blockAds: boolean;
+  dialogPolicy: DialogPolicy;
+  /** Directory holding a subdirectory of downloaded files for each session */
+  downloadDir: string;
+}
+
+/**
+ * Options for creating a session page
+ */
+export interface PageOptions {
+  isolated?: boolean;
+}
+
+/**
+ * Summary of an open browser session
+ */
+export interface SessionInfo {
+  sessionId: string;
+  url: string;
+  title: string;
+  tabCount: number;
+  isolated: boolean;
+  adopted: boolean;
+  createdAt: string;
+  lastActivity: string;
+}
+
+/**
+ * Summary of a tab within a session
+ */
+export interface TabInfo {
+  tabId: string;
+  index: number;
+  url: string;
+  title: string;
+  active: boolean;
+}
+
+/**
+ * A JavaScript dialog (alert, confirm, prompt or beforeunload) waiting to be answered.
+ * The page is blocked until the dialog is accepted or dismissed.
+ */
+export interface OpenDialog {
+  tabId: string;
+  type: string;
+  message: string;
+  defaultValue?: string;
+  url: string;
+  openedAt: string;
 }
 
 /**
@@ -26,13 +89,40 @@ export interface BrowserConfig {
 export class BrowserManager {
   private browser: puppeteer.Browser | null = null;
   private pages: Map<string, puppeteer.Page> = new Map();
+  private tabs: Map<string, puppeteer.Page[]> = new Map();
+  private tabIds: WeakMap<puppeteer.Page, string> = new WeakMap();
+  private tabWaiters: Map<string, Array<(tabId: string) => void>> = new Map();
+  private adoptedSessions: Set<string> = new Set();
+  private contexts: Map<string, puppeteer.BrowserContext> = new Map();
+  private networkRules: Map<string, NetworkRules> = new Map();
+  private blockedRequests: Map<string, number> = new Map();
+  private recorders: Map<string, NetworkRecorder> = new Map();
+  private consoleLogs: Map<string, ConsoleBuffer> = new Map();
+  private dialogs: Map<string, Array<{ info: OpenDialog; dialog: puppeteer.Dialog }>> = new Map();
+  private dialogPolicies: Map<string, DialogPolicy> = new Map();
+  private downloads: Map<string, DownloadTracker> = new Map();
+  private downloadContexts: Set<puppeteer.BrowserContext> = new Set();
+  private downloadClient: puppeteer.CDPSession | null = null;
+  private uploadDirectories: Map<string, string> = new Map();
+  private connected = false;
   private config: BrowserConfig;
+  private sessionManager = SessionManager.getInstance();
   private logger = createContextLogger(setupLogger(), 'BrowserManager');
-
+  
   constructor(config: BrowserConfig) {
     this.config = config;
+    
+    // 0 means sessions never expire
+    if (config.sessionTimeoutMinutes >= 0) {
+      this.sessionManager.setExpirationTime(config.sessionTimeoutMinutes * 60 * 1000);
+    }
+    
+    // Close idle pages when their session expires
+    this.sessionManager.onSessionExpired(session => {
+      this.handleExpiredSession(session.id).catch(() => {});
+    });
   }
-
+  
   /**
    * Initialize the browser instance
    */
@@ -41,7 +131,12 @@ export class BrowserManager {
       this.logger.warn('Browser already initialized');
       return;
     }
-
+    
+    if (this.config.connectExisting) {
+      await this.connect();
+      return;
+    }
+    
     try {
       this.logger.info('Launching browser...');
       
@@ -90,7 +185,10 @@ export class BrowserManager {
       this.browser.on('disconnected', () => {
         this.logger.warn('Browser disconnected');
         this.browser = null;
+        this.downloadClient = null;
+        this.downloadContexts.clear();
       });
+      this.trackNewTargets();
       
     } catch (error) {
       this.logger.error(`Failed to launch browser: ${error instanceof Error ? error.message : String(error)}`);
@@ -98,12 +196,970 @@ export class BrowserManager {
     }
   }
   
+  /**
+   * Attach to an already-running browser over its DevTools endpoint.
+   * Open tabs are adopted as sessions and the browser is left running on close().
+   */
+  private async connect(): Promise<void> {
+    const endpoint = this.config.wsEndpoint
+      || `http://${this.config.debuggingHost}:${this.config.debuggingPort}`;
+    
+    try {
+      this.logger.info(`Connecting to existing browser at ${endpoint}...`);
+      
+      // Keep the browser's own window size instead of emulating a viewport
+      const browser: puppeteer.Browser = await puppeteerExtra.connect({
+        ...(this.config.wsEndpoint
+          ? { browserWSEndpoint: this.config.wsEndpoint }
+          : { browserURL: endpoint }),
+        defaultViewport: null,
+      });
+      this.browser = browser;
+      this.connected = true;
+      this.logger.info('Connected to existing browser');
+      
+      // Setup listeners
+      browser.on('disconnected', () => {
+        this.logger.warn('Browser disconnected');
+        this.browser = null;
+        this.connected = false;
+        this.releaseSessions();
+        this.contexts.clear();
+        // The browser drops download settings made by a session that is gone
+        this.downloadClient = null;
+        this.downloadContexts.clear();
+      });
+      this.trackNewTargets();
+      
+      // Adopt the open tabs of every browser context as sessions
+      for (const context of browser.browserContexts()) {
+        for (const page of await context.pages()) {
+          const id = uuidv4();
+          this.registerPage(id, page);
+          this.adoptedSessions.add(id);
+          await this.applyNetworkRules(id, page);
+          await this.trackDownloads(id, page);
+          this.logger.info(`Attached to existing tab ${page.url()} as session ${id}`);
+        }
+      }
+    } catch (error) {
+      this.logger.error(`Failed to connect to browser: ${error instanceof Error ? error.message : String(error)}`);
+      throw new Error(`Failed to connect to browser at ${endpoint}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  
+  /**
+   * Track a page under a session ID
+   * @param id The session ID
+   * @param page The page backing the session
+   */
+  private registerPage(id: string, page: puppeteer.Page): void {
+    // Store page in session map
+    this.pages.set(id, page);
+    this.touchSession(id);
+    this.addTab(id, page);
+  }
+  
+  /**
+   * Add a page to the tabs of a session
+   * @param id The session ID
+   * @param page The page to add
+   * @returns The tab ID
+   */
+  private addTab(id: string, page: puppeteer.Page): string {
+    const tabId = uuidv4();
+    this.tabIds.set(page, tabId);
+    this.tabs.set(id, [...(this.tabs.get(id) || []), page]);
+    
+    // Setup listeners
+    page.on('close', () => this.handleTabClosed(id, page));
+    page.on('request', request => this.handleRequest(id, request));
+    this.recorders.get(id)?.attach(page, tabId);
+    this.captureConsole(id, tabId, page);
+    this.trackDialogs(id, tabId, page);
+    
+    return tabId;
+  }
+  
+  /**
+   * Answer the dialogs a tab opens according to the session's dialog policy,
+   * keeping track of the queued ones until they are answered
+   * @param id The session ID
+   * @param tabId The tab ID
+   * @param page The tab
+   */
+  private trackDialogs(id: string, tabId: string, page: puppeteer.Page): void {
+    page.on('dialog', dialog => {
+      const info: OpenDialog = {
+        tabId,
+        type: dialog.type(),
+        message: dialog.message(),
+        defaultValue: dialog.type() === 'prompt' ? dialog.defaultValue() : undefined,
+        url: page.url(),
+        openedAt: new Date().toISOString(),
+      };
+      const policy = this.getDialogPolicy(id);
+      
+      if (policy === 'queue') {
+        this.dialogs.set(id, [...(this.dialogs.get(id) || []), { info, dialog }]);
+        this.logger.debug(`Tab ${tabId} in session ${id} opened a ${describeDialog(info.type, info.message)}`);
+        return;
+      }
+      
+      const accept = policy === 'accept';
+      this.answerDialog(dialog, accept)
+        .then(() => this.logger.debug(
+          `${accept ? 'Accepted' : 'Dismissed'} ${describeDialog(info.type, info.message)} in tab ${tabId} of session ${id}`
+        ))
+        .catch(error => this.logger.warn(`Failed to answer dialog in session ${id}: ${error instanceof Error ? error.message : String(error)}`));
+    });
+    
+    // A navigation of the tab closes its dialogs
+    page.on('framenavigated', frame => {
+      if (frame === page.mainFrame()) {
+        this.forgetDialogs(id, tabId);
+      }
+    });
+  }
+  
+  /**
+   * Accept or dismiss a dialog. Accepted prompts get the given text, or their default value.
+   * @param dialog The dialog
+   * @param accept True to accept, false to dismiss
+   * @param promptText The text to enter into a prompt
+   */
+  private async answerDialog(dialog: puppeteer.Dialog, accept: boolean, promptText?: string): Promise<void> {
+    if (accept) {
+      await dialog.accept(dialog.type() === 'prompt' ? promptText ?? dialog.defaultValue() : undefined);
+    } else {
+      await dialog.dismiss();
+    }
+  }
+  
+  /**
+   * Stop tracking the dialogs of a tab
+   * @param id The session ID
+   * @param tabId The tab ID
+   */
+  private forgetDialogs(id: string, tabId: string): void {
+    const remaining = (this.dialogs.get(id) || []).filter(entry => entry.info.tabId !== tabId);
+    if (remaining.length > 0) {
+      this.dialogs.set(id, remaining);
+    } else {
+      this.dialogs.delete(id);
+    }
+  }
+  
+  /**
+   * Capture console messages, uncaught page errors and failed requests of a tab
+   * @param id The session ID
+   * @param tabId The tab ID
+   * @param page The tab
+   */
+  private captureConsole(id: string, tabId: string, page: puppeteer.Page): void {
+    const record = (entry: Omit<ConsoleEntry, 'id' | 'timestamp'>) => {
+      let buffer = this.consoleLogs.get(id);
+      if (!buffer) {
+        buffer = new ConsoleBuffer();
+        this.consoleLogs.set(id, buffer);
+      }
+      buffer.add(entry);
+    };
+    
+    page.on('console', message => {
+      const location = message.location();
+      record({
+        tabId,
+        source: 'console',
+        level: consoleLevelOf(message.type()),
+        type: message.type(),
+        text: message.text(),
+        url: location.url,
+        lineNumber: location.lineNumber,
+        columnNumber: location.columnNumber,
+      });
+    });
+    
+    page.on('pageerror', error => {
+      record({
+        tabId,
+        source: 'pageerror',
+        level: 'error',
+        type: error.name || 'Error',
+        text: error.message,
+        url: page.url(),
+        stack: error.stack,
+      });
+    });
+    
+    page.on('requestfailed', request => {
+      const errorText = request.failure()?.errorText || 'failed';
+      
+      // Requests blocked by our network rules or cancelled by navigation are expected
+      const expected = errorText === 'net::ERR_BLOCKED_BY_CLIENT' || errorText === 'net::ERR_ABORTED';
+      record({
+        tabId,
+        source: 'network',
+        level: expected ? 'debug' : 'error',
+        type: request.resourceType(),
+        text: `${request.method()} ${request.url()} failed: ${errorText}`,
+        url: request.url(),
+      });
+    });
+  }
+  
+  /**
+   * Block or continue an intercepted request according to the session's network rules
+   * @param id The session ID
+   * @param request The intercepted request
+   */
+  private handleRequest(id: string, request: puppeteer.HTTPRequest): void {
+    const rules = this.networkRules.get(id);
+    if (!rules || !hasActiveRules(rules) || request.isInterceptResolutionHandled()) {
+      return;
+    }
+    
+    if (shouldBlockRequest(rules, request.url(), request.resourceType())) {
+      this.blockedRequests.set(id, (this.blockedRequests.get(id) || 0) + 1);
+      request.abort('blockedbyclient', 0).catch(() => {});
+    } else {
+      request.continue(request.continueRequestOverrides(), 0).catch(() => {});
+    }
+  }
+  
+  /**
+   * Turn request interception on or off for a tab to match its session's network rules
+   * @param id The session ID
+   * @param page The tab
+   */
+  private async applyNetworkRules(id: string, page: puppeteer.Page): Promise<void> {
+    if (!this.networkRules.has(id)) {
+      this.networkRules.set(id, {
+        blockResourceTypes: [...this.config.blockResourceTypes],
+        blockUrlPatterns: [],
+        blockAdsAndTrackers: this.config.blockAds,
+      });
+    }
+    
+    await page.setRequestInterception(hasActiveRules(this.networkRules.get(id) as NetworkRules));
+  }
+  
+  /**
+   * Save the downloads of a tab into its session's download directory. The tab's
+   * browser context is switched to saving downloads in the staging directory first.
+   * Only contexts this manager owns are switched: those of a browser it launched and
+   * the isolated contexts it created. The tabs of an attached browser keep its own
+   * download settings and are not tracked.
+   * @param id The session ID
+   * @param page The tab
+   */
+  private async trackDownloads(id: string, page: puppeteer.Page): Promise<void> {
+    const context = page.browserContext();
+    const ownsContext = !this.connected || Array.from(this.contexts.values()).includes(context);
+    if (!this.browser || !ownsContext || this.adoptedSessions.has(id)) {
+      return;
+    }
+    
+    const stagingDirectory = join(this.config.downloadDir, '.incoming');
+    
+    try {
+      if (!this.downloadContexts.has(context)) {
+        // The setting lasts only as long as the session that made it, so keep it open
+        if (!this.downloadClient) {
+          this.downloadClient = await this.browser.target().createCDPSession();
+        }
+        await this.downloadClient.send('Browser.setDownloadBehavior', {
+          behavior: 'allowAndName',
+          browserContextId: context.id,
+          downloadPath: stagingDirectory,
+          eventsEnabled: true,
+        });
+        this.downloadContexts.add(context);
+      }
+      
+      let tracker = this.downloads.get(id);
+      if (!tracker) {
+        tracker = new DownloadTracker(join(this.config.downloadDir, id), stagingDirectory);
+        this.downloads.set(id, tracker);
+      }
+      await tracker.attach(page, this.tabIds.get(page));
+    } catch (error) {
+      this.logger.warn(`Downloads of session ${id} will not be captured: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  
+  /**
+   * Restore the browser's own download behavior in the contexts switched by trackDownloads
+   */
+  private async resetDownloadBehavior(): Promise<void> {
+    const client = this.downloadClient;
+    const contexts = Array.from(this.downloadContexts);
+    this.downloadClient = null;
+    this.downloadContexts.clear();
+    if (!client) {
+      return;
+    }
+    
+    for (const context of contexts) {
+      await client.send('Browser.setDownloadBehavior', { behavior: 'default', browserContextId: context.id }).catch(() => {});
+    }
+    await client.detach().catch(() => {});
+  }
+  
+  /**
+   * Remove a closed tab, ending the session when its last tab is gone
+   * @param id The session ID
+   * @param page The closed page
+   */
+  private handleTabClosed(id: string, page: puppeteer.Page): void {
+    const remaining = (this.tabs.get(id) || []).filter(tab => tab !== page);
+    this.forgetDialogs(id, this.tabIds.get(page) || '');
+    
+    if (remaining.length > 0) {
+      this.tabs.set(id, remaining);
+      
+      // Fall back to the most recently opened tab
+      if (this.pages.get(id) === page) {
+        this.pages.set(id, remaining[remaining.length - 1]);
+      }
+      this.logger.debug(`Tab closed in session ${id}`);
+      return;
+    }
+    
+    this.tabs.delete(id);
+    this.tabWaiters.delete(id);
+    this.pages.delete(id);
+    this.adoptedSessions.delete(id);
+    this.networkRules.delete(id);
+    this.blockedRequests.delete(id);
+    this.recorders.get(id)?.stop().catch(() => {});
+    this.recorders.delete(id);
+    this.consoleLogs.delete(id);
+    this.dialogs.delete(id);
+    this.dialogPolicies.delete(id);
+    this.downloads.get(id)?.removeFiles().catch(() => {});
+    this.downloads.delete(id);
+    this.removeUploads(id);
+    if (this.sessionManager.hasSession(id)) {
+      this.sessionManager.deleteSession(id);
+    }
+    this.logger.debug(`Page session ${id} closed`);
+    
+    // Tear down the session's own context once its page is gone
+    const context = this.contexts.get(id);
+    if (context) {
+      this.contexts.delete(id);
+      this.downloadContexts.delete(context);
+      context.close().catch(() => {});
+    }
+  }
+  
+  /**
+   * Listen for tabs and popups opened by session pages
+   */
+  private trackNewTargets(): void {
+    this.browser?.on('targetcreated', (target: puppeteer.Target) => {
+      if (target.type() !== 'page') {
+        return;
+      }
+      
+      this.adoptOpenedTarget(target).catch(error => {
+        this.logger.debug(`Failed to track new tab: ${error instanceof Error ? error.message : String(error)}`);
+      });
+    });
+  }
+  
+  /**
+   * Add a tab opened by a session page (target=_blank link, window.open) to that session
+   * @param target The new page target
+   */
+  private async adoptOpenedTarget(target: puppeteer.Target): Promise<void> {
+    const opener = target.opener();
+    if (!opener) {
+      return;
+    }
+    
+    const openerPage = await opener.page();
+    const sessionId = Array.from(this.tabs.entries())
+      .find(([, tabs]) => openerPage !== null && tabs.includes(openerPage))?.[0];
+    if (!sessionId) {
+      return;
+    }
+    
+    const page = await target.page();
+    if (!page || this.tabIds.has(page)) {
+      return;
+    }
+    
+    await page.setDefaultNavigationTimeout(30000);
+    await page.setDefaultTimeout(30000);
+    
+    const tabId = this.addTab(sessionId, page);
+    await this.applyNetworkRules(sessionId, page);
+    await this.trackDownloads(sessionId, page);
+    this.touchSession(sessionId);
+    this.logger.info(`Session ${sessionId} opened new tab ${tabId}`);
+    
+    // Notify anyone waiting for a tab from this session
+    const waiters = this.tabWaiters.get(sessionId) || [];
+    this.tabWaiters.delete(sessionId);
+    waiters.forEach(waiter => waiter(tabId));
+  }
+  
+  /**
+   * Record activity on a session, creating its session record if needed
+   * @param id The session ID
+   * @returns The session data
+   */
+  private touchSession(id: string): SessionData {
+    if (!this.sessionManager.hasSession(id)) {
+      this.sessionManager.createSession({}, id);
+    }
+    
+    return this.sessionManager.getSession(id) as SessionData;
+  }
+  
+  /**
+   * Drop the tracking of every session without touching its page
+   */
+  private releaseSessions(): void {
+    for (const id of this.pages.keys()) {
+      if (this.sessionManager.hasSession(id)) {
+        this.sessionManager.deleteSession(id);
+      }
+    }
+    this.pages.clear();
+    this.tabs.clear();
+    this.tabWaiters.clear();
+    this.adoptedSessions.clear();
+    this.networkRules.clear();
+    this.blockedRequests.clear();
+    this.recorders.forEach(recorder => recorder.stop().catch(() => {}));
+    this.recorders.clear();
+    this.consoleLogs.clear();
+    this.dialogs.clear();
+    this.dialogPolicies.clear();
+    this.downloads.forEach(tracker => tracker.removeFiles().catch(() => {}));
+    this.downloads.clear();
+    Array.from(this.uploadDirectories.keys()).forEach(id => this.removeUploads(id));
+  }
+  
+  /**
+   * Delete the files a session uploaded from content
+   * @param id The session ID
+   */
+  private removeUploads(id: string): void {
+    const directory = this.uploadDirectories.get(id);
+    if (directory) {
+      rm(directory, { recursive: true, force: true }).catch(() => {});
+      this.uploadDirectories.delete(id);
+    }
+  }
+  
+  /**
+   * Close the page of a session removed by SessionManager cleanup
+   * @param id The expired session ID
+   */
+  private async handleExpiredSession(id: string): Promise<void> {
+    if (!this.pages.has(id)) {
+      return;
+    }
+    
+    // Never close tabs that belong to an attached browser
+    if (this.adoptedSessions.has(id)) {
+      this.logger.debug(`Session ${id} expired, keeping adopted tab open`);
+      return;
+    }
+    
+    this.logger.info(`Closing idle page session ${id}`);
+    await this.closePage(id);
+  }
+  
+  /**
+   * Get the per-session data record
+   * @param sessionId The session ID
+   * @returns The session data or undefined if the session is not open
+   */
+  getSessionData(sessionId: string): SessionData | undefined {
+    if (!this.pages.has(sessionId)) {
+      return undefined;
+    }
+    
+    return this.touchSession(sessionId);
+  }
+  
+  /**
+   * Merge values into the per-session data record
+   * @param sessionId The session ID
+   * @param data Values to merge into the session data
+   */
+  updateSessionData(sessionId: string, data: Record<string, any>): void {
+    if (!this.pages.has(sessionId)) {
+      return;
+    }
+    
+    this.touchSession(sessionId);
+    this.sessionManager.updateSession(sessionId, data);
+  }
+  
+  /**
+   * List all open sessions
+   * @returns Summaries of the open sessions
+   */
+  async listSessions(): Promise<SessionInfo[]> {
+    const sessions: SessionInfo[] = [];
+    
+    for (const [id, page] of this.pages.entries()) {
+      const session = this.sessionManager.hasSession(id)
+        ? this.sessionManager.getAllSessions().find(s => s.id === id)
+        : undefined;
+      
+      sessions.push({
+        sessionId: id,
+        url: page.url(),
+        title: await page.title().catch(() => ''),
+        tabCount: this.tabs.get(id)?.length || 1,
+        isolated: this.contexts.has(id),
+        adopted: this.adoptedSessions.has(id),
+        createdAt: (session?.createdAt || new Date()).toISOString(),
+        lastActivity: (session?.lastActivity || new Date()).toISOString(),
+      });
+    }
+    
+    return sessions;
+  }
+  
+  /**
+   * List the tabs of a session
+   * @param sessionId The session ID
+   * @returns The session's tabs in the order they were opened
+   */
+  async listTabs(sessionId: string): Promise<TabInfo[]> {
+    const tabs = this.tabs.get(sessionId);
+    if (!tabs) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+    
+    const active = this.pages.get(sessionId);
+    const result: TabInfo[] = [];
+    
+    for (const [index, page] of tabs.entries()) {
+      result.push({
+        tabId: this.tabIds.get(page) || '',
+        index,
+        url: page.url(),
+        title: await page.title().catch(() => ''),
+        active: page === active,
+      });
+    }
+    
+    return result;
+  }
+  
+  /**
+   * Make a tab the active page of its session
+   * @param sessionId The session ID
+   * @param tabId The tab ID
+   * @returns The tab that is now active
+   */
+  async switchTab(sessionId: string, tabId: string): Promise<TabInfo> {
+    const page = this.findTab(sessionId, tabId);
+    
+    this.pages.set(sessionId, page);
+    this.touchSession(sessionId);
+    await page.bringToFront();
+    
+    const tab = (await this.listTabs(sessionId)).find(t => t.tabId === tabId);
+    return tab as TabInfo;
+  }
+  
+  /**
+   * Close a single tab. Closing the last tab ends the session.
+   * @param sessionId The session ID
+   * @param tabId The tab ID
+   */
+  async closeTab(sessionId: string, tabId: string): Promise<void> {
+    const page = this.findTab(sessionId, tabId);
+    
+    await page.close();
+    this.logger.debug(`Closed tab ${tabId} in session ${sessionId}`);
+  }
+  
+  /**
+   * Get the network rules of a session
+   * @param sessionId The session ID
+   * @returns The session's network rules and the number of requests blocked so far
+   */
+  getNetworkRules(sessionId: string): { rules: NetworkRules; blockedRequests: number } {
+    const rules = this.networkRules.get(sessionId);
+    if (!rules) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+    
+    return { rules: { ...rules }, blockedRequests: this.blockedRequests.get(sessionId) || 0 };
+  }
+  
+  /**
+   * Change the network rules of a session and apply them to all of its tabs
+   * @param sessionId The session ID
+   * @param rules The rules to change; omitted rules keep their current value
+   * @returns The session's network rules after the change
+   */
+  async setNetworkRules(sessionId: string, rules: Partial<NetworkRules>): Promise<NetworkRules> {
+    const current = this.networkRules.get(sessionId);
+    const tabs = this.tabs.get(sessionId);
+    if (!current || !tabs) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+    
+    const updated: NetworkRules = {
+      blockResourceTypes: rules.blockResourceTypes ?? current.blockResourceTypes,
+      blockUrlPatterns: rules.blockUrlPatterns ?? current.blockUrlPatterns,
+      blockAdsAndTrackers: rules.blockAdsAndTrackers ?? current.blockAdsAndTrackers,
+    };
+    this.networkRules.set(sessionId, updated);
+    this.touchSession(sessionId);
+    
+    for (const page of tabs) {
+      await this.applyNetworkRules(sessionId, page);
+    }
+    
+    this.logger.debug(`Updated network rules for session ${sessionId}`);
+    return { ...updated };
+  }
+  
+  /**
+   * Start recording the requests and responses of every tab in a session,
+   * replacing any recording already running
+   * @param sessionId The session ID
+   * @param options Capture options
+   */
+  async startNetworkCapture(sessionId: string, options: NetworkCaptureOptions = {}): Promise<void> {
+    const tabs = this.tabs.get(sessionId);
+    if (!tabs) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+    
+    await this.recorders.get(sessionId)?.stop();
+    
+    const recorder = new NetworkRecorder(options);
+    for (const page of tabs) {
+      recorder.attach(page, this.tabIds.get(page));
+    }
+    this.recorders.set(sessionId, recorder);
+    this.touchSession(sessionId);
+    
+    this.logger.debug(`Started network capture for session ${sessionId}`);
+  }
+  
+  /**
+   * Stop recording the network traffic of a session. The recording is kept, and
+   * can be stopped again, until it is discarded with discardNetworkCapture.
+   * @param sessionId The session ID
+   * @returns The recorded entries and the number of entries dropped over the entry limit
+   */
+  async stopNetworkCapture(sessionId: string): Promise<{ entries: NetworkEntry[]; droppedEntries: number }> {
+    const recorder = this.recorders.get(sessionId);
+    if (!recorder) {
+      throw new Error(`No network capture is running for session ${sessionId}`);
+    }
+    
+    const entries = await recorder.stop();
+    
+    this.logger.debug(`Stopped network capture for session ${sessionId} with ${entries.length} entries`);
+    return { entries, droppedEntries: recorder.getDroppedEntryCount() };
+  }
+  
+  /**
+   * Discard the network recording of a session
+   * @param sessionId The session ID
+   */
+  discardNetworkCapture(sessionId: string): void {
+    this.recorders.get(sessionId)?.stop().catch(() => {});
+    this.recorders.delete(sessionId);
+  }
+  
+  /**
+   * Get the console messages, page errors and failed requests captured in a session
+   * @param sessionId The session ID
+   * @param filter Filter for the entries
+   * @returns The matching entries and the number of entries dropped because the buffer was full
+   */
+  getConsoleLogs(
+    sessionId: string,
+    filter: ConsoleEntryFilter = {}
+  ): { entries: ConsoleEntry[]; droppedEntries: number } {
+    if (!this.tabs.has(sessionId)) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+    
+    const buffer = this.consoleLogs.get(sessionId);
+    return {
+      entries: buffer ? buffer.query(filter) : [],
+      droppedEntries: buffer ? buffer.getDroppedEntryCount() : 0,
+    };
+  }
+  
+  /**
+   * Get the ID of the last captured console entry of a session, to read only newer entries later
+   * @param sessionId The session ID
+   * @returns The last entry ID, or 0 if nothing was captured yet
+   */
+  getConsoleCursor(sessionId: string): number {
+    return this.consoleLogs.get(sessionId)?.getLastId() || 0;
+  }
+  
+  /**
+   * Remove the captured console entries of a session
+   * @param sessionId The session ID
+   */
+  clearConsoleLogs(sessionId: string): void {
+    this.consoleLogs.get(sessionId)?.clear();
+  }
+  
+  /**
+   * Get the dialogs waiting to be answered in a session
+   * @param sessionId The session ID
+   * @param tabId Only return the dialogs of this tab
+   * @returns The open dialogs, oldest first
+   */
+  getOpenDialogs(sessionId: string, tabId?: string): OpenDialog[] {
+    if (!this.tabs.has(sessionId)) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+    
+    return (this.dialogs.get(sessionId) || [])
+      .map(entry => entry.info)
+      .filter(info => tabId === undefined || info.tabId === tabId);
+  }
+  
+  /**
+   * Get how a session answers JavaScript dialogs
+   * @param sessionId The session ID
+   * @returns The session's dialog policy, or the configured default for unknown sessions
+   */
+  getDialogPolicy(sessionId: string): DialogPolicy {
+    return this.dialogPolicies.get(sessionId) ?? this.config.dialogPolicy;
+  }
+  
+  /**
+   * Change how a session answers JavaScript dialogs. Switching to accept or
+   * dismiss also answers the dialogs already waiting.
+   * @param sessionId The session ID
+   * @param policy The new policy
+   * @returns The dialogs that were answered because of the change
+   */
+  async setDialogPolicy(sessionId: string, policy: DialogPolicy): Promise<OpenDialog[]> {
+    if (!this.tabs.has(sessionId)) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+    
+    this.dialogPolicies.set(sessionId, policy);
+    this.touchSession(sessionId);
+    this.logger.debug(`Set dialog policy of session ${sessionId} to ${policy}`);
+    
+    if (policy === 'queue') {
+      return [];
+    }
+    
+    const queued = this.dialogs.get(sessionId) || [];
+    this.dialogs.delete(sessionId);
+    for (const { dialog } of queued) {
+      await this.answerDialog(dialog, policy === 'accept');
+    }
+    return queued.map(entry => entry.info);
+  }
+  
+  /**
+   * Answer the oldest dialog waiting in a session
+   * @param sessionId The session ID
+   * @param options Whether to accept it, the text to enter into a prompt, and the tab to answer a dialog of
+   * @returns The dialog that was answered
+   * @throws If no dialog is waiting
+   */
+  async handleDialog(
+    sessionId: string,
+    options: { accept: boolean; promptText?: string; tabId?: string }
+  ): Promise<OpenDialog> {
+    if (!this.tabs.has(sessionId)) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+    
+    const queued = this.dialogs.get(sessionId) || [];
+    const entry = queued.find(candidate => options.tabId === undefined || candidate.info.tabId === options.tabId);
+    if (!entry) {
+      throw new Error(options.tabId ? `No dialog is open in tab ${options.tabId}` : 'No dialog is open');
+    }
+    
+    // Forget the dialog first; accepting a beforeunload dialog navigates the tab
+    const remaining = queued.filter(candidate => candidate !== entry);
+    if (remaining.length > 0) {
+      this.dialogs.set(sessionId, remaining);
+    } else {
+      this.dialogs.delete(sessionId);
+    }
+    this.touchSession(sessionId);
+    
+    await this.answerDialog(entry.dialog, options.accept, options.promptText);
+    this.logger.debug(`${options.accept ? 'Accepted' : 'Dismissed'} ${describeDialog(entry.info.type, entry.info.message)} in session ${sessionId}`);
+    return entry.info;
+  }
+  
+  /**
+   * Get the downloads of a session
+   * @param sessionId The session ID
+   * @returns The downloads, oldest first, and the directory finished files are saved to
+   */
+  listDownloads(sessionId: string): { downloads: DownloadEntry[]; directory: string } {
+    if (!this.tabs.has(sessionId)) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+    
+    const tracker = this.downloads.get(sessionId);
+    return {
+      downloads: tracker ? tracker.list() : [],
+      directory: tracker ? tracker.getDirectory() : join(this.config.downloadDir, sessionId),
+    };
+  }
+  
+  /**
+   * Get the directory the files a session uploads from content are written to.
+   * The browser reads them when the form is submitted, so they are kept until
+   * the session closes.
+   * @param sessionId The session ID
+   * @returns The directory path, created on first upload
+   */
+  getUploadDirectory(sessionId: string): string {
+    if (!this.tabs.has(sessionId)) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+    
+    let directory = this.uploadDirectories.get(sessionId);
+    if (!directory) {
+      directory = join(tmpdir(), 'browser-mcp-uploads', sessionId);
+      this.uploadDirectories.set(sessionId, directory);
+    }
+    return directory;
+  }
+  
+  /**
+   * Wait for a download of a session to finish
+   * @param sessionId The session ID
+   * @param downloadId The download ID, or undefined for the most recent download
+   * @param timeout How long to wait in milliseconds
+   * @returns The download once it has completed or was canceled
+   */
+  async waitForDownload(sessionId: string, downloadId?: string, timeout = 30000): Promise<DownloadEntry> {
+    if (!this.tabs.has(sessionId)) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+    
+    const tracker = this.downloads.get(sessionId);
+    if (!tracker) {
+      throw new Error(`Downloads are not captured in session ${sessionId}`);
+    }
+    
+    this.touchSession(sessionId);
+    return tracker.waitForDownload(downloadId, timeout);
+  }
+  
+  /**
+   * Get the ID of a session's active tab
+   * @param sessionId The session ID
+   * @returns The tab ID
+   */
+  getActiveTabId(sessionId: string): string {
+    const page = this.pages.get(sessionId);
+    if (!page) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+    
+    return this.tabIds.get(page) || '';
+  }
+  
+  /**
+   * Start watching for a page in the session to open a new tab, such as a popup
+   * opened by a click. Stop watching once the action that may open it has settled.
+   * @param sessionId The session ID
+   * @returns A function that stops watching and returns the new tab ID, or null if no tab opened
+   */
+  watchForNewTab(sessionId: string): () => string | null {
+    const existingTabs = new Set(this.tabs.get(sessionId) || []);
+    let openedTabId: string | null = null;
+    const waiter = (tabId: string) => {
+      openedTabId = openedTabId ?? tabId;
+    };
+    this.tabWaiters.set(sessionId, [...(this.tabWaiters.get(sessionId) || []), waiter]);
+    
+    return () => {
+      const waiters = this.tabWaiters.get(sessionId) || [];
+      this.tabWaiters.set(sessionId, waiters.filter(w => w !== waiter));
+      if (openedTabId) {
+        return openedTabId;
+      }
+      
+      // The tab may be added but still being set up
+      const added = (this.tabs.get(sessionId) || []).find(tab => !existingTabs.has(tab));
+      return added ? this.tabIds.get(added) || null : null;
+    };
+  }
+  
+  /**
+   * Find a tab of a session by its ID
+   * @param sessionId The session ID
+   * @param tabId The tab ID
+   * @returns The tab's page
+   */
+  private findTab(sessionId: string, tabId: string): puppeteer.Page {
+    const tabs = this.tabs.get(sessionId);
+    if (!tabs) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+    
+    const page = tabs.find(tab => this.tabIds.get(tab) === tabId);
+    if (!page) {
+      throw new Error(`Tab ${tabId} not found in session ${sessionId}`);
+    }
+    
+    return page;
+  }
+  
+  /**
+   * Check whether a session ID has an open page
+   * @param sessionId The session ID
+   * @returns True if the session is open
+   */
+  hasSession(sessionId: string): boolean {
+    return this.pages.has(sessionId);
+  }
+  
+  /**
+   * Check whether the manager is attached to a browser it did not launch
+   * @returns True in connect mode
+   */
+  isConnectedToExisting(): boolean {
+    return this.connected;
+  }
+  
+  /**
+   * Check whether a session is backed by its own incognito browser context
+   * @param sessionId The session ID
+   * @returns True if the session has an isolated context
+   */
+  isIsolated(sessionId: string): boolean {
+    return this.contexts.has(sessionId);
+  }
+  
   /**
    * Creates a new page or returns an existing one
    * @param sessionId Optional session ID to reuse an existing page
+   * @param options Options applied when a new page is created
    * @returns The page and session ID
    */
-  async getPage(sessionId?: string): Promise<{ page: puppeteer.Page; sessionId: string }> {
+  async getPage(
+    sessionId?: string,
+    options: PageOptions = {}
+  ): Promise<{ page: puppeteer.Page; sessionId: string }> {
     if (!this.browser) {
       await this.initialize();
     }
@@ -119,55 +1175,77 @@ export class BrowserManager {
     if (sessionId && this.pages.has(sessionId)) {
       const page = this.pages.get(sessionId);
       if (page) {
+        this.touchSession(id);
         return { page, sessionId: id };
       }
     }
     
-    // Create a new page
+    // Create a new page, in its own incognito context if the session is isolated
+    const isolated = options.isolated ?? this.config.isolateSessions;
+    let context: puppeteer.BrowserContext | null = null;
+    
     try {
-      const page = await this.browser.newPage();
+      if (isolated) {
+        context = await this.browser.createIncognitoBrowserContext();
+        this.contexts.set(id, context);
+      }
       
-      // Set viewport size
-      await page.setViewport({
-        width: this.config.windowWidth,
-        height: this.config.windowHeight,
-      });
+      const page = context ? await context.newPage() : await this.browser.newPage();
+      
+      // Leave an attached browser's own viewport and user agent alone
+      if (!this.connected) {
+        // Set viewport size
+        await page.setViewport({
+          width: this.config.windowWidth,
+          height: this.config.windowHeight,
+        });
+        
+        // Set user agent to a recent Chrome version
+        await page.setUserAgent(
+          'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/123.0.0.0 Safari/537.36'
+        );
+      }
       
       // Set up page settings
       await page.setDefaultNavigationTimeout(30000);
       await page.setDefaultTimeout(30000);
       
-      // Set user agent to a recent Chrome version
-      await page.setUserAgent(
-        'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/123.0.0.0 Safari/537.36'
-      );
-      
-      // Store page in session map
-      this.pages.set(id, page);
-      
-      // Setup listeners
-      page.on('close', () => {
-        this.pages.delete(id);
-        this.logger.debug(`Page session ${id} closed`);
-      });
+      this.registerPage(id, page);
+      await this.applyNetworkRules(id, page);
+      await this.trackDownloads(id, page);
       
-      this.logger.debug(`Created new page for session ${id}`);
+      this.logger.debug(`Created new ${isolated ? 'isolated ' : ''}page for session ${id}`);
       return { page, sessionId: id };
     } catch (error) {
+      if (context) {
+        this.contexts.delete(id);
+        this.downloadContexts.delete(context);
+        await context.close().catch(() => {});
+      }
       this.logger.error(`Failed to create page: ${error instanceof Error ? error.message : String(error)}`);
       throw new Error(`Failed to create page: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
   
   /**
-   * Close a specific page session
+   * Close a specific page session and all of its tabs.
+   * Isolated sessions tear down their whole browser context.
    * @param sessionId The session ID to close
    */
   async closePage(sessionId: string): Promise<void> {
     const page = this.pages.get(sessionId);
-    if (page) {
+    const context = this.contexts.get(sessionId);
+    if (page || context) {
       try {
-        await page.close();
+        if (context) {
+          this.contexts.delete(sessionId);
+          this.downloadContexts.delete(context);
+          await context.close();
+        } else {
+          for (const tab of this.tabs.get(sessionId) || []) {
+            await tab.close();
+          }
+        }
         this.pages.delete(sessionId);
         this.logger.debug(`Closed page session ${sessionId}`);
       } catch (error) {
@@ -177,16 +1255,49 @@ export class BrowserManager {
   }
   
   /**
-   * Close the browser and all pages
+   * Close the browser and all pages.
+   * In connect mode only the tabs opened by this manager are closed and the
+   * browser is disconnected, not killed.
    */
   async close(): Promise<void> {
-    if (this.browser) {
+    if (this.browser && this.connected) {
+      try {
+        // Close the pages we opened, leaving adopted tabs in place
+        for (const [id, tabs] of this.tabs.entries()) {
+          if (!this.adoptedSessions.has(id)) {
+            for (const page of tabs) {
+              await page.close().catch(() => {});
+            }
+          }
+        }
+        this.releaseSessions();
+        await this.resetDownloadBehavior();
+        
+        // Close the isolated contexts we created
+        for (const context of this.contexts.values()) {
+          await context.close().catch(() => {});
+        }
+        this.contexts.clear();
+        
+        // Disconnect without closing the browser
+        this.browser.disconnect();
+        this.browser = null;
+        this.connected = false;
+        this.logger.info('Disconnected from browser');
+      } catch (error) {
+        this.logger.error(`Failed to disconnect from browser: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    } else if (this.browser) {
       try {
         // Close all pages
-        for (const page of this.pages.values()) {
-          await page.close().catch(() => {});
+        for (const tabs of this.tabs.values()) {
+          for (const page of tabs) {
+            await page.close().catch(() => {});
+          }
         }
-        this.pages.clear();
+        this.releaseSessions();
+        await this.resetDownloadBehavior();
+        this.contexts.clear();
         
         // Close browser
         await this.browser.close();
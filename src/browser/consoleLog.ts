@@ -0,0 +1,142 @@
+/**
+ * Severity levels of captured console entries, from least to most severe
+ */
+export const CONSOLE_LEVELS = ['debug', 'info', 'warning', 'error'] as const;
+
+/**
+ * Severity level of a captured console entry
+ */
+export type ConsoleLevel = typeof CONSOLE_LEVELS[number];
+
+/**
+ * A console message, uncaught page error or failed request captured from a tab
+ */
+export interface ConsoleEntry {
+  id: number;
+  tabId?: string;
+  source: 'console' | 'pageerror' | 'network';
+  level: ConsoleLevel;
+  type: string;
+  text: string;
+  url?: string;
+  lineNumber?: number;
+  columnNumber?: number;
+  stack?: string;
+  timestamp: string;
+}
+
+/**
+ * Filter for captured console entries
+ */
+export interface ConsoleEntryFilter {
+  /** Only return entries at this level or more severe */
+  minLevel?: ConsoleLevel;
+  /** Only return entries at these levels */
+  levels?: ConsoleLevel[];
+  /** Only return entries from these sources */
+  sources?: ConsoleEntry['source'][];
+  /** Only return entries captured after the entry with this ID */
+  sinceId?: number;
+  /** Return at most this many of the most recent matching entries */
+  limit?: number;
+}
+
+/**
+ * Map a console message type to a severity level
+ * @param type The console message type, such as log, warning or assert
+ * @returns The severity level
+ */
+export function consoleLevelOf(type: string): ConsoleLevel {
+  switch (type) {
+    case 'error':
+    case 'assert':
+      return 'error';
+    case 'warning':
+    case 'warn':
+      return 'warning';
+    case 'debug':
+    case 'verbose':
+    case 'trace':
+      return 'debug';
+    default:
+      return 'info';
+  }
+}
+
+/**
+ * Bounded buffer of console entries; the oldest entries are dropped first
+ */
+export class ConsoleBuffer {
+  private entries: ConsoleEntry[] = [];
+  private nextId = 1;
+  private droppedEntries = 0;
+  private maxEntries: number;
+  
+  /**
+   * Constructor
+   * @param maxEntries Maximum number of entries to keep
+   */
+  constructor(maxEntries = 500) {
+    this.maxEntries = maxEntries;
+  }
+  
+  /**
+   * Add an entry, assigning its ID and timestamp
+   * @param entry The entry without ID and timestamp
+   * @returns The stored entry
+   */
+  add(entry: Omit<ConsoleEntry, 'id' | 'timestamp'>): ConsoleEntry {
+    const stored: ConsoleEntry = { id: this.nextId++, ...entry, timestamp: new Date().toISOString() };
+    
+    this.entries.push(stored);
+    if (this.entries.length > this.maxEntries) {
+      this.entries.shift();
+      this.droppedEntries++;
+    }
+    
+    return stored;
+  }
+  
+  /**
+   * Get the ID of the most recent entry, to read only newer entries later
+   * @returns The last entry ID, or 0 if nothing was captured yet
+   */
+  getLastId(): number {
+    return this.nextId - 1;
+  }
+  
+  /**
+   * Get the number of entries dropped because the buffer was full
+   * @returns The number of dropped entries
+   */
+  getDroppedEntryCount(): number {
+    return this.droppedEntries;
+  }
+  
+  /**
+   * Get the entries matching a filter, oldest first
+   * @param filter The filter; omitted criteria match everything
+   * @returns The matching entries
+   */
+  query(filter: ConsoleEntryFilter = {}): ConsoleEntry[] {
+    const minRank = filter.minLevel ? CONSOLE_LEVELS.indexOf(filter.minLevel) : 0;
+    
+    const matching = this.entries.filter(entry =>
+      CONSOLE_LEVELS.indexOf(entry.level) >= minRank &&
+      (!filter.levels || filter.levels.includes(entry.level)) &&
+      (!filter.sources || filter.sources.includes(entry.source)) &&
+      (filter.sinceId === undefined || entry.id > filter.sinceId)
+    );
+    
+    return filter.limit !== undefined ? matching.slice(-filter.limit) : matching;
+  }
+  
+  /**
+   * Remove all entries
+   */
+  clear(): void {
+    this.entries = [];
+  }
+}
+
+export default ConsoleBuffer;
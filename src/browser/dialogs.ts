@@ -0,0 +1,39 @@
+/**
+ * How a session answers JavaScript dialogs (alert, confirm, prompt, beforeunload):
+ * - accept: accept them right away, with the default text for prompts
+ * - dismiss: dismiss them right away
+ * - queue: leave them open until handle_dialog answers them; the page is blocked meanwhile
+ */
+export const DIALOG_POLICIES = ['accept', 'dismiss', 'queue'] as const;
+
+/**
+ * A dialog policy
+ */
+export type DialogPolicy = typeof DIALOG_POLICIES[number];
+
+/**
+ * Parse a dialog policy from configuration
+ * @param value The configured value, such as "dismiss"
+ * @param fallback The policy to use if the value is empty or unknown
+ * @returns The policy
+ */
+export function parseDialogPolicy(value: string | undefined, fallback: DialogPolicy = 'accept'): DialogPolicy {
+  const policy = (value || '').trim().toLowerCase();
+  return (DIALOG_POLICIES as readonly string[]).includes(policy) ? policy as DialogPolicy : fallback;
+}
+
+/**
+ * Describe a dialog for log and result messages
+ * @param type The dialog type, such as confirm
+ * @param message The dialog message
+ * @returns The description, such as confirm dialog "Delete this item?"
+ */
+export function describeDialog(type: string, message: string): string {
+  return `${type} dialog "${message}"`;
+}
+
+export default {
+  DIALOG_POLICIES,
+  parseDialogPolicy,
+  describeDialog,
+};
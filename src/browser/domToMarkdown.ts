@@ -0,0 +1,185 @@
+/**
+ * Convert a DOM element to Markdown.
+ * This function runs inside the page through page.evaluate or
+ * ElementHandle.evaluate, so it must stay self-contained: no imports and no
+ * references to anything outside its own body.
+ * @param root The element to convert
+ * @returns The Markdown text
+ */
+export function elementToMarkdown(root: Element): string {
+  const skippedTags = new Set([
+    'script', 'style', 'noscript', 'template', 'svg', 'canvas', 'iframe', 'object', 'head', 'button',
+    'input', 'select', 'textarea',
+  ]);
+  const blockTags = new Set([
+    'address', 'article', 'aside', 'div', 'dl', 'dd', 'dt', 'fieldset', 'figure', 'figcaption', 'footer',
+    'header', 'main', 'nav', 'section', 'details', 'summary',
+  ]);
+  
+  const isHidden = (el: Element): boolean => {
+    if ((el as HTMLElement).hidden || el.getAttribute('aria-hidden') === 'true') return true;
+    const style = window.getComputedStyle(el);
+    return style.display === 'none' || style.visibility === 'hidden';
+  };
+  
+  const escapeInline = (text: string): string => text.replace(/([\\`*_[\]])/g, '\\$1');
+  
+  const collapse = (text: string): string => text.replace(/\s+/g, ' ');
+  
+  // Convert inline content (text, links, emphasis, code) to a single line
+  const inline = (node: Node): string => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      return escapeInline(collapse(node.textContent || ''));
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return '';
+    
+    const el = node as Element;
+    const tag = el.tagName.toLowerCase();
+    if (skippedTags.has(tag) || isHidden(el)) return '';
+    
+    const children = (): string => Array.from(el.childNodes).map(inline).join('');
+    
+    switch (tag) {
+      case 'br':
+        return '  \n';
+      case 'strong':
+      case 'b': {
+        const text = children().trim();
+        return text ? `**${text}**` : '';
+      }
+      case 'em':
+      case 'i': {
+        const text = children().trim();
+        return text ? `*${text}*` : '';
+      }
+      case 'del':
+      case 's':
+        return `~~${children().trim()}~~`;
+      case 'code': {
+        const text = el.textContent || '';
+        return text.includes('`') ? `\`\` ${text} \`\`` : `\`${text}\``;
+      }
+      case 'a': {
+        const text = children().trim();
+        const href = (el as HTMLAnchorElement).href;
+        if (!href || href.startsWith('javascript:')) return text;
+        return `[${text || href}](${href})`;
+      }
+      case 'img': {
+        const src = (el as HTMLImageElement).src;
+        return src ? `![${escapeInline(el.getAttribute('alt') || '')}](${src})` : '';
+      }
+      default:
+        return children();
+    }
+  };
+  
+  const tableToMarkdown = (table: HTMLTableElement): string => {
+    const rows = Array.from(table.rows).map(row =>
+      Array.from(row.cells).map(cell => inline(cell).trim().replace(/\|/g, '\\|').replace(/\n+/g, ' '))
+    );
+    if (rows.length === 0) return '';
+    
+    const width = Math.max(...rows.map(row => row.length));
+    const pad = (row: string[]): string[] => [...row, ...Array(width - row.length).fill('')];
+    const line = (row: string[]): string => `| ${pad(row).join(' | ')} |`;
+    
+    const [header, ...body] = rows;
+    return [
+      line(header),
+      `| ${Array(width).fill('---').join(' | ')} |`,
+      ...body.map(line),
+    ].join('\n');
+  };
+  
+  // Convert block content, returning Markdown blocks separated by blank lines
+  const block = (node: Node, listDepth: number): string => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      return inline(node);
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return '';
+    
+    const el = node as Element;
+    const tag = el.tagName.toLowerCase();
+    if (skippedTags.has(tag) || isHidden(el)) return '';
+    
+    const children = (depth = listDepth): string => {
+      let output = '';
+      for (const child of Array.from(el.childNodes)) {
+        output += block(child, depth);
+      }
+      return output;
+    };
+    
+    switch (tag) {
+      case 'h1':
+      case 'h2':
+      case 'h3':
+      case 'h4':
+      case 'h5':
+      case 'h6': {
+        const text = inline(el).trim();
+        return text ? `\n\n${'#'.repeat(Number(tag[1]))} ${text}\n\n` : '';
+      }
+      case 'p': {
+        const text = inline(el).trim();
+        return text ? `\n\n${text}\n\n` : '';
+      }
+      case 'hr':
+        return '\n\n---\n\n';
+      case 'pre': {
+        const code = el.querySelector('code');
+        const languageClass = Array.from((code || el).classList).find(c => /^(language|lang)-/.test(c));
+        const language = languageClass ? languageClass.replace(/^(language|lang)-/, '') : '';
+        const text = (el.textContent || '').replace(/\n$/, '');
+        return `\n\n\`\`\`${language}\n${text}\n\`\`\`\n\n`;
+      }
+      case 'blockquote': {
+        const text = children().trim();
+        return text ? `\n\n${text.split('\n').map(line => `> ${line}`.trimEnd()).join('\n')}\n\n` : '';
+      }
+      case 'ul':
+      case 'ol': {
+        const ordered = tag === 'ol';
+        const start = ordered ? (el as HTMLOListElement).start || 1 : 1;
+        const indent = '   '.repeat(listDepth);
+        const items = Array.from(el.children).filter(child => child.tagName.toLowerCase() === 'li');
+        const lines = items.map((item, i) => {
+          const marker = ordered ? `${start + i}.` : '-';
+          let text = '';
+          let nested = '';
+          for (const child of Array.from(item.childNodes)) {
+            const childTag = child.nodeType === Node.ELEMENT_NODE ? (child as Element).tagName.toLowerCase() : '';
+            if (childTag === 'ul' || childTag === 'ol') {
+              nested += '\n' + block(child, listDepth + 1).replace(/^\n+|\n+$/g, '');
+            } else if (childTag === 'p' || blockTags.has(childTag)) {
+              text += ' ' + block(child, listDepth + 1).trim();
+            } else {
+              text += inline(child);
+            }
+          }
+          return `${indent}${marker} ${collapse(text).trim()}${nested}`;
+        });
+        return lines.length ? `\n\n${lines.join('\n')}\n\n` : '';
+      }
+      case 'table':
+        return `\n\n${tableToMarkdown(el as HTMLTableElement)}\n\n`;
+      default:
+        if (blockTags.has(tag) || tag === 'body' || tag === 'li') {
+          return `\n\n${children()}\n\n`;
+        }
+        return inline(el);
+    }
+  };
+  
+  return block(root, 0)
+    .split('\n')
+    .map(line => (line.trim()
+      ? line.replace(/^ (?=\S)/, '').replace(/\s+$/, match => (match === '  ' ? match : ''))
+      : ''))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+export default elementToMarkdown;
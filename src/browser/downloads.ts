@@ -0,0 +1,303 @@
+import puppeteer from 'puppeteer';
+import { mkdir, open, rename, rm, stat } from 'fs/promises';
+import { basename, extname, join } from 'path';
+
+/**
+ * MIME types of common download file extensions
+ */
+const MIME_TYPES: Record<string, string> = {
+  '.csv': 'text/csv',
+  '.tsv': 'text/tab-separated-values',
+  '.txt': 'text/plain',
+  '.html': 'text/html',
+  '.htm': 'text/html',
+  '.json': 'application/json',
+  '.xml': 'application/xml',
+  '.pdf': 'application/pdf',
+  '.zip': 'application/zip',
+  '.gz': 'application/gzip',
+  '.doc': 'application/msword',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.xls': 'application/vnd.ms-excel',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.ppt': 'application/vnd.ms-powerpoint',
+  '.pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.svg': 'image/svg+xml',
+  '.webp': 'image/webp',
+  '.mp3': 'audio/mpeg',
+  '.mp4': 'video/mp4',
+};
+
+/**
+ * A file a session downloaded, or is downloading
+ */
+export interface DownloadEntry {
+  /** The download's GUID */
+  id: string;
+  tabId?: string;
+  url: string;
+  fileName: string;
+  mimeType: string;
+  /** Bytes received so far */
+  size: number;
+  /** Expected size in bytes, 0 if the server did not say */
+  totalBytes: number;
+  state: 'inProgress' | 'completed' | 'canceled';
+  /** Local path of the file, once completed */
+  path?: string;
+  startedAt: string;
+  finishedAt?: string;
+}
+
+/**
+ * Guess the MIME type of a file from its extension
+ * @param fileName The file name, such as report.csv
+ * @returns The MIME type, or application/octet-stream if the extension is not known
+ */
+export function mimeTypeOf(fileName: string): string {
+  return MIME_TYPES[extname(fileName).toLowerCase()] || 'application/octet-stream';
+}
+
+/**
+ * Make a suggested file name safe to use in a download directory
+ * @param fileName The file name suggested by the server or the link
+ * @returns The file name without directories or characters file systems reject
+ */
+export function safeFileName(fileName: string): string {
+  const name = basename(fileName.replace(/\\/g, '/')).replace(/[<>:"|?*\x00-\x1f]/g, '_').trim();
+  return name && name !== '.' && name !== '..' ? name : 'download';
+}
+
+/**
+ * Number of recent response MIME types remembered per tracker, to type the downloads they turn into
+ */
+const MAX_REMEMBERED_RESPONSES = 50;
+
+/**
+ * Get the MIME type a response declares, if it is more specific than a generic binary type
+ * @param response The response
+ * @returns The MIME type, or undefined if there is none
+ */
+function declaredMimeType(response: puppeteer.HTTPResponse): string | undefined {
+  const mimeType = (response.headers()['content-type'] || '').split(';')[0].trim().toLowerCase();
+  return mimeType && mimeType !== 'application/octet-stream' ? mimeType : undefined;
+}
+
+/**
+ * Tracks the downloads of a session's tabs and moves finished files into the
+ * session's download directory. The browser saves downloads under their GUID in
+ * a shared staging directory (see Browser.setDownloadBehavior with allowAndName).
+ */
+export class DownloadTracker {
+  private entries: DownloadEntry[] = [];
+  private waiters: Array<() => void> = [];
+  private responseMimeTypes: Map<string, string> = new Map();
+  private claimedNames: Set<string> = new Set();
+  private directory: string;
+  private stagingDirectory: string;
+  
+  /**
+   * Constructor
+   * @param directory The session's download directory
+   * @param stagingDirectory The directory the browser saves downloads to
+   */
+  constructor(directory: string, stagingDirectory: string) {
+    this.directory = directory;
+    this.stagingDirectory = stagingDirectory;
+  }
+  
+  /**
+   * Get the session's download directory
+   * @returns The directory path
+   */
+  getDirectory(): string {
+    return this.directory;
+  }
+  
+  /**
+   * Start tracking the downloads of a tab
+   * @param page The tab
+   * @param tabId The tab ID, stored on each entry
+   */
+  async attach(page: puppeteer.Page, tabId?: string): Promise<void> {
+    const client = await page.createCDPSession();
+    
+    // Downloads carry no MIME type, so remember the Content-Type of the responses they come from
+    page.on('response', response => {
+      const mimeType = declaredMimeType(response);
+      if (!mimeType) {
+        return;
+      }
+      
+      this.responseMimeTypes.delete(response.url());
+      this.responseMimeTypes.set(response.url(), mimeType);
+      if (this.responseMimeTypes.size > MAX_REMEMBERED_RESPONSES) {
+        this.responseMimeTypes.delete(this.responseMimeTypes.keys().next().value as string);
+      }
+      
+      // The response can arrive after the download began
+      this.entries
+        .filter(entry => entry.url === response.url() && entry.state === 'inProgress')
+        .forEach(entry => {
+          entry.mimeType = mimeType;
+        });
+    });
+    
+    client.on('Page.downloadWillBegin', event => {
+      const fileName = safeFileName(event.suggestedFilename);
+      this.entries.push({
+        id: event.guid,
+        tabId,
+        url: event.url,
+        fileName,
+        mimeType: this.responseMimeTypes.get(event.url) || mimeTypeOf(fileName),
+        size: 0,
+        totalBytes: 0,
+        state: 'inProgress',
+        startedAt: new Date().toISOString(),
+      });
+      this.notify();
+    });
+    
+    client.on('Page.downloadProgress', event => {
+      const entry = this.entries.find(candidate => candidate.id === event.guid);
+      if (!entry || entry.state !== 'inProgress') {
+        return;
+      }
+      
+      entry.size = event.receivedBytes;
+      entry.totalBytes = event.totalBytes;
+      if (event.state === 'completed') {
+        this.complete(entry).catch(() => {
+          entry.state = 'canceled';
+          entry.finishedAt = new Date().toISOString();
+          this.notify();
+        });
+      } else if (event.state === 'canceled') {
+        entry.state = 'canceled';
+        entry.finishedAt = new Date().toISOString();
+        this.notify();
+      }
+    });
+    
+    // Download events are only sent while the Page domain is enabled on this session
+    await client.send('Page.enable');
+  }
+  
+  /**
+   * Get the tracked downloads
+   * @returns The downloads, oldest first
+   */
+  list(): DownloadEntry[] {
+    return this.entries.map(entry => ({ ...entry }));
+  }
+  
+  /**
+   * Wait for a download to finish
+   * @param id The download ID, or undefined for the most recent download
+   * @param timeout How long to wait in milliseconds, for the download to start and to finish
+   * @returns The download once it has completed or was canceled
+   * @throws If there is no such download, or it is still in progress after the timeout
+   */
+  async waitForDownload(id: string | undefined, timeout = 30000): Promise<DownloadEntry> {
+    const deadline = Date.now() + timeout;
+    
+    for (;;) {
+      const entry = id === undefined
+        ? this.entries[this.entries.length - 1]
+        : this.entries.find(candidate => candidate.id === id);
+      
+      if (entry && entry.state !== 'inProgress') {
+        return { ...entry };
+      }
+      if (!entry && id !== undefined) {
+        throw new Error(`Download ${id} not found`);
+      }
+      
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        throw new Error(entry
+          ? `Download of ${entry.fileName} did not finish within ${timeout}ms (${entry.size} bytes received)`
+          : 'No download was started');
+      }
+      
+      await new Promise<void>(resolve => {
+        const timer = setTimeout(resolve, remaining);
+        this.waiters.push(() => {
+          clearTimeout(timer);
+          resolve();
+        });
+      });
+    }
+  }
+  
+  /**
+   * Delete the session's download directory and the files in it
+   */
+  async removeFiles(): Promise<void> {
+    await rm(this.directory, { recursive: true, force: true });
+  }
+  
+  /**
+   * Reserve a path for a file in the session's directory, numbering the file name
+   * if a file with that name was downloaded before. Names are claimed before the
+   * file is created, so downloads finishing together never get the same path.
+   * @param fileName The file name
+   * @returns The path, created empty
+   */
+  private async claimPath(fileName: string): Promise<string> {
+    const extension = extname(fileName);
+    const stem = fileName.slice(0, fileName.length - extension.length);
+    
+    for (let copy = 0; ; copy++) {
+      const name = copy === 0 ? fileName : `${stem} (${copy})${extension}`;
+      if (this.claimedNames.has(name)) {
+        continue;
+      }
+      this.claimedNames.add(name);
+      
+      const path = join(this.directory, name);
+      try {
+        await (await open(path, 'wx')).close();
+        return path;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+      }
+    }
+  }
+  
+  /**
+   * Move a finished download from the staging directory into the session's directory
+   * @param entry The download
+   */
+  private async complete(entry: DownloadEntry): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    
+    const path = await this.claimPath(entry.fileName);
+    await rename(join(this.stagingDirectory, entry.id), path);
+    
+    entry.path = path;
+    entry.fileName = basename(path);
+    entry.size = (await stat(path)).size;
+    entry.state = 'completed';
+    entry.finishedAt = new Date().toISOString();
+    this.notify();
+  }
+  
+  /**
+   * Wake up everyone waiting for a download
+   */
+  private notify(): void {
+    const waiters = this.waiters;
+    this.waiters = [];
+    waiters.forEach(wake => wake());
+  }
+}
+
+export default DownloadTracker;
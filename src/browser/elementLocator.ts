@@ -0,0 +1,235 @@
+import puppeteer from 'puppeteer';
+
+/**
+ * Separates the iframe selectors of a frame-qualified selector from the
+ * selector inside the frame, as in iframe#checkout >> #card-number
+ */
+export const FRAME_SEPARATOR = '>>';
+
+/**
+ * Type for the frame an element was found in
+ */
+export interface FrameInfo {
+  url: string;
+  /** The name attribute of the iframe, if any */
+  name: string;
+  isMainFrame: boolean;
+}
+
+/**
+ * Type for an element found by findElements
+ */
+export interface LocatedElement {
+  element: puppeteer.ElementHandle<Element>;
+  frame: puppeteer.Frame;
+  frameInfo: FrameInfo;
+  /** The element is inside an open shadow root */
+  inShadowRoot: boolean;
+}
+
+/**
+ * Split a frame-qualified selector into the selectors of the iframes to enter
+ * and the selector to look up inside the innermost one. Selectors without a
+ * separator are not qualified and are looked up in every frame.
+ * @param selector The selector, such as iframe#outer >> iframe#inner >> button
+ * @returns The iframe selectors and the element selector
+ */
+export function parseFrameSelector(selector: string): { framePath: string[]; selector: string } {
+  // Only a separator surrounded by whitespace counts, so the >>> shadow combinator is left alone
+  const parts = selector.split(new RegExp(`\\s+${FRAME_SEPARATOR}\\s+`)).map(part => part.trim());
+  return {
+    framePath: parts.slice(0, -1),
+    selector: parts[parts.length - 1],
+  };
+}
+
+/**
+ * Describe a frame for log and result messages
+ * @param frameInfo The frame
+ * @returns The description, such as the main frame or frame "checkout" (https://pay.example.com/)
+ */
+export function describeFrame(frameInfo: FrameInfo): string {
+  if (frameInfo.isMainFrame) return 'the main frame';
+  return frameInfo.name ? `frame "${frameInfo.name}" (${frameInfo.url})` : `frame ${frameInfo.url}`;
+}
+
+/**
+ * Get what to report about a frame
+ * @param frame The frame
+ * @returns The frame's URL, name and whether it is the main frame
+ */
+export function getFrameInfo(frame: puppeteer.Frame): FrameInfo {
+  return {
+    url: frame.url(),
+    name: frame.name(),
+    isMainFrame: frame.parentFrame() === null,
+  };
+}
+
+/**
+ * List a page's frames in document order, starting with the main frame.
+ * Cross-origin frames are included.
+ * @param page The page
+ * @returns The attached frames
+ */
+export function listFrames(page: puppeteer.Page): puppeteer.Frame[] {
+  const frames: puppeteer.Frame[] = [];
+  const visit = (frame: puppeteer.Frame) => {
+    if (frame.isDetached()) return;
+    frames.push(frame);
+    frame.childFrames().forEach(visit);
+  };
+  visit(page.mainFrame());
+  return frames;
+}
+
+/**
+ * Query a frame, looking inside open shadow roots if the light DOM has no match.
+ * Selectors that already use a Puppeteer query handler, such as pierce/ or >>>,
+ * are passed through.
+ */
+async function queryFrame(frame: puppeteer.Frame, selector: string): Promise<puppeteer.ElementHandle<Element>[]> {
+  const elements = await frame.$$(selector);
+  if (elements.length > 0 || /^[a-z]+\//.test(selector) || selector.includes('>>>')) {
+    return elements;
+  }
+  return frame.$$(`pierce/${selector}`);
+}
+
+/**
+ * Enter the iframes of a frame path, one selector at a time
+ * @param page The page
+ * @param framePath Selectors of the iframe elements, outermost first
+ * @returns The innermost frame
+ * @throws If an iframe is not found or has no document
+ */
+export async function resolveFramePath(page: puppeteer.Page, framePath: string[]): Promise<puppeteer.Frame> {
+  let frame = page.mainFrame();
+  
+  for (const frameSelector of framePath) {
+    const [iframe, ...rest] = await queryFrame(frame, frameSelector);
+    await Promise.all(rest.map(element => element.dispose()));
+    if (!iframe) {
+      throw new Error(`Frame "${frameSelector}" not found`);
+    }
+    
+    const content = await iframe.contentFrame();
+    await iframe.dispose();
+    if (!content) {
+      throw new Error(`Element "${frameSelector}" is not a frame`);
+    }
+    frame = content;
+  }
+  
+  return frame;
+}
+
+/**
+ * Find the elements matching a selector in every frame of the page, main frame
+ * first, looking inside open shadow roots where the light DOM has no match.
+ * A frame-qualified selector such as iframe#checkout >> #card-number is only
+ * looked up in that frame.
+ * @param page The page
+ * @param selector The selector, optionally frame-qualified
+ * @returns The matches with the frame each was found in
+ */
+export async function findElements(page: puppeteer.Page, selector: string): Promise<LocatedElement[]> {
+  const parsed = parseFrameSelector(selector);
+  const frames = parsed.framePath.length > 0
+    ? [await resolveFramePath(page, parsed.framePath)]
+    : listFrames(page);
+  
+  const located: LocatedElement[] = [];
+  for (const frame of frames) {
+    let elements: puppeteer.ElementHandle<Element>[];
+    try {
+      elements = await queryFrame(frame, parsed.selector);
+    } catch (error) {
+      // Frames can navigate or detach while they are searched; invalid selectors fail everywhere
+      if (frame === frames[0]) throw error;
+      continue;
+    }
+    
+    for (const element of elements) {
+      located.push({
+        element,
+        frame,
+        frameInfo: getFrameInfo(frame),
+        inShadowRoot: await element.evaluate(el => el.getRootNode() instanceof ShadowRoot),
+      });
+    }
+  }
+  
+  return located;
+}
+
+/**
+ * Find one element matching a selector in any frame of the page
+ * @param page The page
+ * @param selector The selector, optionally frame-qualified
+ * @param index Which match to use, counting across frames
+ * @returns The match, or null if there are not enough matches
+ */
+export async function findElement(
+  page: puppeteer.Page,
+  selector: string,
+  index = 0
+): Promise<LocatedElement | null> {
+  const located = await findElements(page, selector);
+  const match = located[index] || null;
+  
+  await Promise.all(located.filter(other => other !== match).map(other => other.element.dispose()));
+  return match;
+}
+
+/**
+ * Wait for an element matching a selector to appear in any frame of the page
+ * @param page The page
+ * @param selector The selector, optionally frame-qualified
+ * @param index Which match to use, counting across frames
+ * @param timeout How long to wait in milliseconds
+ * @returns The match
+ * @throws If there is no such match within the timeout
+ */
+export async function waitForElement(
+  page: puppeteer.Page,
+  selector: string,
+  index = 0,
+  timeout = 30000
+): Promise<LocatedElement> {
+  const deadline = Date.now() + timeout;
+  
+  for (;;) {
+    let match: LocatedElement | null = null;
+    let lastError: unknown;
+    try {
+      match = await findElement(page, selector, index);
+    } catch (error) {
+      // The frame of a frame-qualified selector may not be loaded yet, but a bad selector never matches
+      if (error instanceof Error && error.message.includes('is not a valid selector')) {
+        throw error;
+      }
+      lastError = error;
+    }
+    
+    if (match) {
+      return match;
+    }
+    if (Date.now() >= deadline) {
+      const reason = lastError instanceof Error ? `: ${lastError.message}` : '';
+      throw new Error(`Element with selector "${selector}" at index ${index} not found${reason}`);
+    }
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+}
+
+export default {
+  parseFrameSelector,
+  describeFrame,
+  getFrameInfo,
+  listFrames,
+  resolveFramePath,
+  findElements,
+  findElement,
+  waitForElement,
+};
@@ -0,0 +1,181 @@
+import puppeteer from 'puppeteer';
+import { getElementByIndex } from './interactiveElements.js';
+import { waitForElement } from './elementLocator.js';
+
+/**
+ * Attribute stamped on the element matched by findElementByText
+ */
+export const TEXT_MATCH_ATTRIBUTE = 'data-mcp-text-match';
+
+/**
+ * How to find the element an input action targets. The first of elementIndex,
+ * selector, text and the x/y point that is set is used.
+ */
+export interface ElementTarget {
+  /** Index from get_interactive_elements */
+  elementIndex?: number;
+  /** CSS selector, matched in every frame and inside open shadow roots; may be frame-qualified */
+  selector?: string;
+  /** Visible text or aria-label of the element */
+  text?: string;
+  /** Which match to use when the selector or text matches several elements */
+  index?: number;
+  /** Point in CSS pixels relative to the viewport, used without an element */
+  x?: number;
+  y?: number;
+}
+
+/**
+ * Type for a resolved target
+ */
+export interface ResolvedTarget {
+  /** The element, or null for a point target */
+  element: puppeteer.ElementHandle<Element> | null;
+  /** Center of the element or the point, in CSS pixels relative to the viewport */
+  x: number;
+  y: number;
+}
+
+/**
+ * Check whether a target names an element or a point
+ * @param target The target
+ * @returns True if any way of finding the element is set
+ */
+export function hasTarget(target: ElementTarget): boolean {
+  return target.elementIndex !== undefined ||
+    target.selector !== undefined ||
+    target.text !== undefined ||
+    (target.x !== undefined && target.y !== undefined);
+}
+
+/**
+ * Describe a target for log and result messages
+ * @param target The target
+ * @returns The description, such as selector "#menu"
+ */
+export function describeTarget(target: ElementTarget): string {
+  if (target.elementIndex !== undefined) return `element index ${target.elementIndex}`;
+  if (target.selector !== undefined) return `selector "${target.selector}"`;
+  if (target.text !== undefined) return `text "${target.text}"`;
+  return `point (${target.x}, ${target.y})`;
+}
+
+/**
+ * Find the element with the given text and stamp it with the given attribute.
+ * Matches the innermost elements whose text or aria-label contains the text,
+ * exact matches first and rendered elements before hidden ones.
+ * Self-contained so it can run in the page through evaluate.
+ * @param root The element to search, usually the document element
+ * @param text The text to find
+ * @param index Which match to use
+ * @param attribute The attribute to stamp on the matched element
+ * @returns True if an element was found
+ */
+export function findElementByText(root: Element, text: string, index: number, attribute: string): boolean {
+  root.ownerDocument.querySelectorAll(`[${attribute}]`).forEach(el => el.removeAttribute(attribute));
+  
+  const normalize = (value: string) => value.replace(/\s+/g, ' ').trim().toLowerCase();
+  const wanted = normalize(text);
+  if (!wanted) {
+    return false;
+  }
+  
+  const skipped = ['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'HEAD', 'TITLE', 'META', 'LINK'];
+  
+  // Text content without scripts and styles, computed once per element
+  const contents = new Map<Node, string>();
+  const contentOf = (node: Node): string => {
+    if (node.nodeType === 3) return node.textContent || '';
+    if (node.nodeType !== 1 || skipped.includes((node as Element).tagName)) return '';
+    if (!contents.has(node)) {
+      contents.set(node, Array.from(node.childNodes).map(contentOf).join(''));
+    }
+    return contents.get(node)!;
+  };
+  const textOf = (el: Element) =>
+    normalize(el.getAttribute('aria-label') || (el.tagName === 'INPUT' ? (el as HTMLInputElement).value : '') || contentOf(el));
+  
+  // Innermost matches, so a menu item is found rather than the menu containing it
+  const matches = Array.from(root.querySelectorAll('*')).filter(el =>
+    !skipped.includes(el.tagName) &&
+    textOf(el).includes(wanted) &&
+    !Array.from(el.children).some(child => !skipped.includes(child.tagName) && textOf(child).includes(wanted))
+  );
+  
+  const rendered = (el: Element) => el.getClientRects().length > 0;
+  const exact = (el: Element) => textOf(el) === wanted;
+  const ordered = [
+    ...matches.filter(el => exact(el) && rendered(el)),
+    ...matches.filter(el => !exact(el) && rendered(el)),
+    ...matches.filter(el => exact(el) && !rendered(el)),
+    ...matches.filter(el => !exact(el) && !rendered(el)),
+  ];
+  
+  const match = ordered[index];
+  if (!match) {
+    return false;
+  }
+  
+  match.setAttribute(attribute, 'true');
+  return true;
+}
+
+/**
+ * Resolve a target to an element and the point at its center, scrolling the
+ * element into view first
+ * @param page The page
+ * @param target The target
+ * @param timeout How long to wait for the element to appear
+ * @returns The element and point
+ */
+export async function resolveTarget(
+  page: puppeteer.Page,
+  target: ElementTarget,
+  timeout = 30000
+): Promise<ResolvedTarget> {
+  const index = target.index || 0;
+  let element: puppeteer.ElementHandle<Element> | null = null;
+  
+  if (target.elementIndex !== undefined) {
+    // Find element from the interactive element map
+    element = await getElementByIndex(page, target.elementIndex);
+  } else if (target.selector !== undefined) {
+    // Find element by selector in any frame, including inside open shadow roots
+    ({ element } = await waitForElement(page, target.selector, index, timeout));
+  } else if (target.text !== undefined) {
+    // Find element by text, waiting for it to appear
+    const deadline = Date.now() + timeout;
+    while (!element) {
+      const root = await page.$('html');
+      const found = root ? await root.evaluate(findElementByText, target.text, index, TEXT_MATCH_ATTRIBUTE) : false;
+      await root?.dispose();
+      
+      if (found) {
+        element = await page.$(`[${TEXT_MATCH_ATTRIBUTE}]`);
+      } else if (Date.now() >= deadline) {
+        throw new Error(`Element with text "${target.text}" at index ${index} not found`);
+      } else {
+        await new Promise(resolve => setTimeout(resolve, 100));
+      }
+    }
+  } else if (target.x !== undefined && target.y !== undefined) {
+    return { element: null, x: target.x, y: target.y };
+  } else {
+    throw new Error('Either elementIndex, selector, text or x and y must be provided');
+  }
+  
+  await element.scrollIntoView();
+  const box = await element.boundingBox();
+  if (!box) {
+    throw new Error(`Element with ${describeTarget(target)} is not visible`);
+  }
+  
+  return { element, x: box.x + box.width / 2, y: box.y + box.height / 2 };
+}
+
+export default {
+  describeTarget,
+  findElementByText,
+  hasTarget,
+  resolveTarget,
+};
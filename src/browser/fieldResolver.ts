@@ -0,0 +1,258 @@
+import puppeteer from 'puppeteer';
+import { parseFrameSelector, resolveFramePath, listFrames, getFrameInfo, FrameInfo } from './elementLocator.js';
+
+/**
+ * Attribute stamped on the control matched by findFormControl
+ */
+export const FIELD_MATCH_ATTRIBUTE = 'data-mcp-field-match';
+
+/**
+ * How a field name was matched to a form control, from most to least specific
+ */
+export type FieldMatchStrategy =
+  | 'name'
+  | 'id'
+  | 'label'
+  | 'aria-labelledby'
+  | 'aria-label'
+  | 'placeholder'
+  | 'title'
+  | 'selector'
+  | 'fuzzy';
+
+/**
+ * Type for the result of matching a field name
+ */
+export interface FieldMatch {
+  strategy: FieldMatchStrategy;
+  /** The name, label or other text the field name matched */
+  matchedText: string;
+  /** Similarity between the field name and the matched text, 1 for exact matches */
+  score: number;
+}
+
+/**
+ * Type for a resolved form control
+ */
+export interface ResolvedField extends FieldMatch {
+  element: puppeteer.ElementHandle<Element>;
+  /** The frame the control was found in */
+  frameInfo: FrameInfo;
+}
+
+/**
+ * Find the form control a human-readable field name refers to and stamp it with
+ * the given attribute. Exact matches on the name and id attributes come first,
+ * then exact matches on the accessible name (aria-labelledby, aria-label, a
+ * label linked with for= or wrapping the control), the placeholder and title,
+ * a CSS selector, and finally the closest fuzzy match on any of these texts.
+ * Controls inside open shadow roots are included.
+ * Self-contained so it can run in the page through evaluate.
+ * @param root The element to search, usually the document element
+ * @param fieldName The field name, label text or selector
+ * @param attribute The attribute to stamp on the matched control
+ * @returns How the control was matched, or null if nothing matched
+ */
+export function findFormControl(root: Element, fieldName: string, attribute: string): FieldMatch | null {
+  const FUZZY_THRESHOLD = 0.5;
+  const STOP_WORDS = ['a', 'an', 'the', 'of', 'your', 'my', 'for', 'to', 'in', 'and', 'or', 'please', 'enter'];
+  
+  // Open shadow roots are searched too, so controls inside web components are found
+  const queryAllDeep = (selector: string): Element[] => {
+    const found: Element[] = [];
+    const visit = (scope: Element | ShadowRoot) => {
+      found.push(...Array.from(scope.querySelectorAll(selector)));
+      scope.querySelectorAll('*').forEach(el => {
+        if (el.shadowRoot) visit(el.shadowRoot);
+      });
+    };
+    visit(root);
+    return found;
+  };
+  
+  queryAllDeep(`[${attribute}]`).forEach(el => el.removeAttribute(attribute));
+  
+  const controls = queryAllDeep(
+    'input:not([type="hidden"]):not([type="submit"]):not([type="button"]):not([type="reset"]):not([type="image"]), ' +
+    'textarea, select, [contenteditable=""], [contenteditable="true"], [role="textbox"], [role="searchbox"], ' +
+    '[role="combobox"], [role="listbox"], [role="spinbutton"], [role="slider"], [role="checkbox"], ' +
+    '[role="radio"], [role="switch"], [aria-haspopup="listbox"]'
+  ).filter(el => !(el.parentElement && (el.parentElement as HTMLElement).isContentEditable));
+  
+  // Prefer controls that are rendered and enabled when several match
+  const usable = (el: Element) =>
+    el.getClientRects().length > 0 && !(el as HTMLInputElement).disabled;
+  const ordered = [...controls.filter(usable), ...controls.filter(el => !usable(el))];
+  
+  const normalize = (text: string) =>
+    text.replace(/\s+/g, ' ').replace(/[\s:*]+$/, '').trim().toLowerCase();
+  
+  // Label text without the text of controls nested in the label, such as select options
+  const labelText = (label: Element) => {
+    const clone = label.cloneNode(true) as Element;
+    clone.querySelectorAll('input, select, textarea, button, [contenteditable]').forEach(el => el.remove());
+    return (clone.textContent || '').replace(/\s+/g, ' ').trim();
+  };
+  
+  // Every text a control can be referred to by, tagged with the strategy it belongs to
+  const namesOf = (el: Element): Array<{ strategy: FieldMatchStrategy; text: string }> => {
+    const names: Array<{ strategy: FieldMatchStrategy; text: string }> = [];
+    const add = (strategy: FieldMatchStrategy, text: string | null | undefined) => {
+      if (text && text.trim()) names.push({ strategy, text: text.trim() });
+    };
+    
+    // Labels are looked up in the document or shadow root the control belongs to
+    const scope = el.getRootNode() as Document | ShadowRoot;
+    const labelledBy = el.getAttribute('aria-labelledby');
+    if (labelledBy) {
+      add('aria-labelledby', labelledBy
+        .split(/\s+/)
+        .map(id => {
+          const labelElement = scope.getElementById(id);
+          return labelElement ? labelText(labelElement) : '';
+        })
+        .join(' '));
+    }
+    add('aria-label', el.getAttribute('aria-label'));
+    if (el.id) {
+      scope.querySelectorAll('label[for]').forEach(label => {
+        if (label.getAttribute('for') === el.id) add('label', labelText(label));
+      });
+    }
+    const wrappingLabel = el.closest('label');
+    if (wrappingLabel) {
+      add('label', labelText(wrappingLabel));
+    }
+    add('placeholder', el.getAttribute('placeholder'));
+    add('title', el.getAttribute('title'));
+    
+    return names;
+  };
+  
+  const stamp = (el: Element, match: FieldMatch): FieldMatch => {
+    el.setAttribute(attribute, 'true');
+    return match;
+  };
+  
+  // Exact attribute matches
+  for (const strategy of ['name', 'id'] as const) {
+    const match = ordered.find(el => el.getAttribute(strategy) === fieldName);
+    if (match) {
+      return stamp(match, { strategy, matchedText: fieldName, score: 1 });
+    }
+  }
+  
+  // Exact matches on the accessible name, placeholder or title
+  const wanted = normalize(fieldName);
+  const strategyOrder: FieldMatchStrategy[] = ['aria-labelledby', 'aria-label', 'label', 'placeholder', 'title'];
+  for (const strategy of strategyOrder) {
+    for (const el of ordered) {
+      const name = namesOf(el).find(entry => entry.strategy === strategy && normalize(entry.text) === wanted);
+      if (name) {
+        return stamp(el, { strategy, matchedText: name.text, score: 1 });
+      }
+    }
+  }
+  
+  // CSS selectors such as #email or input[name="q"]
+  try {
+    const [selected] = queryAllDeep(fieldName);
+    if (selected && controls.includes(selected)) {
+      return stamp(selected, { strategy: 'selector', matchedText: fieldName, score: 1 });
+    }
+  } catch {
+    // Not a valid selector
+  }
+  
+  // Fuzzy matches on words, so "Email address" finds "E-mail" and "Date of birth" finds "Birth date"
+  const wordsOf = (text: string): string[] =>
+    text
+      .replace(/([a-z])([A-Z])/g, '$1 $2')
+      .replace(/\b(\w)-(\w)/g, '$1$2')
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .map(word => (word.length > 3 && word.endsWith('s') ? word.slice(0, -1) : word))
+      .filter(word => word.length > 0 && !STOP_WORDS.includes(word));
+  
+  // Every word of the shorter text must occur in the longer one, so "Middle name"
+  // does not match "First name" just because both are names
+  const similarity = (a: string, b: string): number => {
+    const wordsA = wordsOf(a);
+    const wordsB = wordsOf(b);
+    if (wordsA.length === 0 || wordsB.length === 0) return 0;
+    if (wordsA.join('') === wordsB.join('')) return 0.95;
+    
+    const [shorter, longer] = wordsA.length <= wordsB.length ? [wordsA, wordsB] : [wordsB, wordsA];
+    if (!shorter.every(word => longer.includes(word))) return 0;
+    
+    const common = wordsA.filter(word => wordsB.includes(word)).length;
+    return (2 * common) / (wordsA.length + wordsB.length);
+  };
+  
+  let best: { el: Element; match: FieldMatch } | null = null;
+  for (const el of ordered) {
+    const texts = [...namesOf(el).map(name => name.text), el.getAttribute('name') || '', el.id];
+    
+    for (const text of texts) {
+      const score = similarity(fieldName, text);
+      if (score >= FUZZY_THRESHOLD && (!best || score > best.match.score)) {
+        best = { el, match: { strategy: 'fuzzy', matchedText: text, score: Math.round(score * 100) / 100 } };
+      }
+    }
+  }
+  
+  return best ? stamp(best.el, best.match) : null;
+}
+
+/**
+ * Resolve a human-readable field name to a form control in any frame of the
+ * page. An exact match in the main frame wins, then an exact match in an
+ * iframe, then the best fuzzy match in any frame. Field names can be
+ * frame-qualified, as in iframe#payment >> Card number.
+ * @param page The page containing the form
+ * @param fieldName The field name, label text or selector
+ * @returns The control, how it was matched and its frame, or null if nothing matched
+ */
+export async function resolveField(
+  page: puppeteer.Page,
+  fieldName: string
+): Promise<ResolvedField | null> {
+  const parsed = parseFrameSelector(fieldName);
+  const frames = parsed.framePath.length > 0
+    ? [await resolveFramePath(page, parsed.framePath)]
+    : listFrames(page);
+  
+  let best: { frame: puppeteer.Frame; match: FieldMatch } | null = null;
+  for (const frame of frames) {
+    let match: FieldMatch | null = null;
+    try {
+      const root = await frame.$('html');
+      match = root ? await root.evaluate(findFormControl, parsed.selector, FIELD_MATCH_ATTRIBUTE) : null;
+      await root?.dispose();
+    } catch (error) {
+      // Frames can navigate or detach while they are searched
+      if (frame === frames[0]) throw error;
+      continue;
+    }
+    
+    if (match && match.strategy !== 'fuzzy') {
+      best = { frame, match };
+      break;
+    }
+    if (match && (!best || match.score > best.match.score)) {
+      best = { frame, match };
+    }
+  }
+  
+  if (!best) {
+    return null;
+  }
+  
+  const element = await best.frame.$(`pierce/[${FIELD_MATCH_ATTRIBUTE}]`);
+  return element ? { ...best.match, element, frameInfo: getFrameInfo(best.frame) } : null;
+}
+
+export default {
+  findFormControl,
+  resolveField,
+};
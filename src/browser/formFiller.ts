@@ -0,0 +1,331 @@
+import { access, mkdir, mkdtemp, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { basename, join } from 'path';
+import puppeteer from 'puppeteer';
+
+/**
+ * Attribute stamped on the dropdown option matched by findDropdownOption
+ */
+export const OPTION_MATCH_ATTRIBUTE = 'data-mcp-option-match';
+
+/**
+ * Input types whose value is set directly, because typing into them depends on the browser's locale
+ */
+const VALUE_INPUT_TYPES = ['date', 'datetime-local', 'month', 'week', 'time', 'color', 'range'];
+
+/**
+ * How long to wait for the options of a custom dropdown to appear
+ */
+const DROPDOWN_TIMEOUT = 2000;
+
+/**
+ * A file to upload, from a local path or base64 content
+ */
+export interface FileUpload {
+  path?: string;
+  /** Base64 encoded file content, used when no path is given */
+  content?: string;
+  /** File name for base64 content */
+  fileName?: string;
+}
+
+/**
+ * Value to fill into a control: text, several values for multi-selects and
+ * dropdowns, or files for file inputs
+ */
+export type FieldValue = string | string[] | FileUpload | FileUpload[];
+
+/**
+ * Set the value of an input and fire the input and change events.
+ * Self-contained so it can run in the page through evaluate.
+ * @param element The input
+ * @param value The value
+ * @returns The value the input holds afterwards, which differs if the browser rejected the value
+ */
+export function setControlValue(element: Element, value: string): string {
+  const input = element as HTMLInputElement;
+  const view = element.ownerDocument.defaultView!;
+  
+  // The prototype's setter bypasses the value tracking of frameworks such as React,
+  // so they see the change in the events below
+  const setter = Object.getOwnPropertyDescriptor(Object.getPrototypeOf(input), 'value')?.set;
+  if (setter) {
+    setter.call(input, value);
+  } else {
+    input.value = value;
+  }
+  
+  input.dispatchEvent(new view.Event('input', { bubbles: true }));
+  input.dispatchEvent(new view.Event('change', { bubbles: true }));
+  return input.value;
+}
+
+/**
+ * Find the option of an open custom dropdown, such as React Select or MUI, and
+ * stamp it with the given attribute. Exact text matches come first, then options
+ * starting with or containing the text unless exact is set. Rendered options are
+ * preferred over options of closed dropdowns.
+ * Self-contained so it can run in the page through evaluate.
+ * @param root The element to search, usually the document element
+ * @param text The option text or data-value
+ * @param attribute The attribute to stamp on the matched option
+ * @param exact Whether only exact matches count
+ * @returns The text of the matched option, or null if nothing matched
+ */
+export function findDropdownOption(root: Element, text: string, attribute: string, exact: boolean): string | null {
+  root.ownerDocument.querySelectorAll(`[${attribute}]`).forEach(el => el.removeAttribute(attribute));
+  
+  const normalize = (value: string) => value.replace(/\s+/g, ' ').trim().toLowerCase();
+  const textOf = (el: Element) => normalize(el.getAttribute('aria-label') || el.textContent || '');
+  const wanted = normalize(text);
+  
+  const options = Array.from(root.querySelectorAll('[role="option"], [role="menuitem"], [role="menuitemradio"]'))
+    .filter(el => el.getAttribute('aria-disabled') !== 'true');
+  const rendered = (el: Element) => el.getClientRects().length > 0;
+  const ordered = [...options.filter(rendered), ...options.filter(el => !rendered(el))];
+  
+  const match =
+    ordered.find(el => textOf(el) === wanted || el.getAttribute('data-value') === text) ||
+    (exact ? undefined : ordered.find(el => textOf(el).startsWith(wanted))) ||
+    (exact ? undefined : ordered.find(el => textOf(el).includes(wanted)));
+  if (!match) {
+    return null;
+  }
+  
+  match.setAttribute(attribute, 'true');
+  return (match.textContent || '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Get the local paths of files to upload, writing base64 content to a temporary file.
+ * The temporary files are kept because the browser reads them when the form is submitted;
+ * whoever owns the upload directory deletes them.
+ * @param value The files
+ * @param uploadDirectory The directory to write base64 content to
+ * @returns The paths
+ */
+async function resolveUploadPaths(value: FieldValue, uploadDirectory: string): Promise<string[]> {
+  const uploads = (Array.isArray(value) ? value : [value]).map(upload =>
+    typeof upload === 'string' ? { path: upload } : upload
+  );
+  const paths: string[] = [];
+  
+  for (const upload of uploads) {
+    if (upload.path) {
+      await access(upload.path).catch(() => {
+        throw new Error(`File not found: ${upload.path}`);
+      });
+      paths.push(upload.path);
+    } else if (upload.content !== undefined) {
+      await mkdir(uploadDirectory, { recursive: true });
+      const directory = await mkdtemp(join(uploadDirectory, 'mcp-upload-'));
+      const path = join(directory, basename(upload.fileName || 'upload'));
+      await writeFile(path, Buffer.from(upload.content, 'base64'));
+      paths.push(path);
+    } else {
+      throw new Error('A file upload needs a path or base64 content');
+    }
+  }
+  
+  return paths;
+}
+
+/**
+ * Select options of a native select by value or visible text
+ * @param element The select element
+ * @param values The option values or texts
+ */
+async function selectOptions(element: puppeteer.ElementHandle<Element>, values: string[]): Promise<void> {
+  const { optionValues, multiple } = await element.evaluate((el, wanted) => {
+    const select = el as HTMLSelectElement;
+    const options = Array.from(select.options);
+    return {
+      optionValues: wanted.map(value => {
+        const option =
+          options.find(candidate => candidate.value === value) ||
+          options.find(candidate => candidate.text.trim().toLowerCase() === value.trim().toLowerCase());
+        return option ? option.value : null;
+      }),
+      multiple: select.multiple,
+    };
+  }, values);
+  
+  const missing = values.filter((_, index) => optionValues[index] === null);
+  if (missing.length > 0) {
+    throw new Error(`No option matches ${missing.map(value => `"${value}"`).join(', ')}`);
+  }
+  if (values.length > 1 && !multiple) {
+    throw new Error('Only one option can be selected');
+  }
+  
+  await element.select(...(optionValues as string[]));
+}
+
+/**
+ * Pick options of a custom dropdown by opening it and clicking the matching option.
+ * For text comboboxes the value is typed first to filter the options, and kept
+ * as typed if no option matches exactly, as for search suggestions.
+ * @param element The element that opens the dropdown
+ * @param values The option texts
+ * @param isTextInput Whether the element is a text combobox
+ */
+async function pickOptions(
+  element: puppeteer.ElementHandle<Element>,
+  values: string[],
+  isTextInput: boolean
+): Promise<void> {
+  const frame = element.frame;
+  
+  for (const value of values) {
+    await element.click();
+    if (isTextInput) {
+      await element.click({ clickCount: 3 }); // Select all text
+      await element.type(value);
+    }
+    
+    // Wait for the options to be rendered
+    let picked = false;
+    for (let waited = 0; waited <= DROPDOWN_TIMEOUT && !picked; waited += 100) {
+      const root = await frame.$('html');
+      const matched = root ? await root.evaluate(findDropdownOption, value, OPTION_MATCH_ATTRIBUTE, isTextInput) : null;
+      await root?.dispose();
+      
+      const option = matched !== null ? await frame.$(`[${OPTION_MATCH_ATTRIBUTE}]`) : null;
+      if (option) {
+        await option.click();
+        await option.dispose();
+        picked = true;
+      } else {
+        await new Promise(resolve => setTimeout(resolve, 100));
+      }
+    }
+    
+    if (!picked && !isTextInput) {
+      await element.press('Escape');
+      throw new Error(`No dropdown option matches "${value}"`);
+    }
+  }
+}
+
+/**
+ * Replace the content of a contenteditable element by selecting it and typing,
+ * so rich-text editors see the same events as for a user
+ * @param element The contenteditable element
+ * @param value The text
+ */
+async function fillEditable(element: puppeteer.ElementHandle<Element>, value: string): Promise<void> {
+  await element.click();
+  await element.evaluate(el => {
+    const selection = el.ownerDocument.getSelection();
+    const range = el.ownerDocument.createRange();
+    range.selectNodeContents(el);
+    selection?.removeAllRanges();
+    selection?.addRange(range);
+  });
+  await element.press('Backspace');
+  
+  if (value) {
+    await element.type(value);
+  }
+}
+
+/**
+ * Fill a form control with a value: text inputs and textareas, checkboxes and
+ * radio buttons, date, time, color and range inputs, native and custom
+ * (multi-)selects, file inputs and contenteditable editors
+ * @param element The form control
+ * @param value The value to fill in
+ * @param uploadDirectory The directory to write files uploaded from base64 content to
+ * @returns True if the element was a fillable control
+ * @throws If the value does not fit the control, such as a missing option or file
+ */
+export async function fillControl(
+  element: puppeteer.ElementHandle<Element>,
+  value: FieldValue,
+  uploadDirectory: string = tmpdir()
+): Promise<boolean> {
+  // Get the tag name and type to determine how to interact with the element
+  const control = await element.evaluate(el => ({
+    tagName: el.tagName.toLowerCase(),
+    type: el.tagName.toLowerCase() === 'input' ? (el as HTMLInputElement).type : '',
+    role: el.getAttribute('role') || '',
+    hasPopup: el.getAttribute('aria-haspopup') || '',
+    editable: (el as HTMLElement).isContentEditable,
+  }));
+  
+  if (control.type === 'file') {
+    const paths = await resolveUploadPaths(value, uploadDirectory);
+    const multiple = await element.evaluate(el => (el as HTMLInputElement).multiple);
+    if (paths.length > 1 && !multiple) {
+      throw new Error('The file input accepts only one file');
+    }
+    
+    await (element as puppeteer.ElementHandle<HTMLInputElement>).uploadFile(...paths);
+    return true;
+  }
+  
+  const values = Array.isArray(value) ? value : [value];
+  if (values.some(item => typeof item !== 'string')) {
+    throw new Error('Files can only be uploaded to file inputs');
+  }
+  const texts = values as string[];
+  
+  if (control.tagName === 'select') {
+    // Handle native select elements, including multi-selects
+    await selectOptions(element, texts);
+    return true;
+  }
+  
+  const isDropdown = ['combobox', 'listbox'].includes(control.role) || control.hasPopup === 'listbox';
+  if (isDropdown && !['checkbox', 'radio'].includes(control.type)) {
+    // Handle custom dropdowns such as React Select and MUI by opening them and picking the option
+    await pickOptions(element, texts, control.tagName === 'input' || control.tagName === 'textarea');
+    return true;
+  }
+  
+  if (texts.length !== 1) {
+    throw new Error('Only multi-selects and dropdowns accept a list of values');
+  }
+  const [text] = texts;
+  
+  if (control.tagName === 'input') {
+    if (control.type === 'checkbox' || control.type === 'radio') {
+      // Handle checkbox/radio inputs
+      const currentValue = await element.evaluate(el => (el as HTMLInputElement).checked);
+      const targetValue = text.toLowerCase() === 'true' || text === '1';
+      
+      if (currentValue !== targetValue) {
+        await element.click();
+      }
+    } else if (VALUE_INPUT_TYPES.includes(control.type)) {
+      // Handle date/time/color/range inputs; the browser clears values it cannot parse
+      const actual = await element.evaluate(setControlValue, text);
+      if (actual === '' && text !== '') {
+        throw new Error(`"${text}" is not a valid ${control.type} value`);
+      }
+    } else {
+      // Handle text/email/password/etc. inputs
+      await element.click({ clickCount: 3 }); // Select all text
+      await element.type(text);
+    }
+    
+    return true;
+  } else if (control.tagName === 'textarea') {
+    // Handle textarea elements
+    await element.click({ clickCount: 3 }); // Select all text
+    await element.type(text);
+    return true;
+  } else if (control.editable) {
+    // Handle rich-text editors
+    await fillEditable(element, text);
+    return true;
+  }
+  
+  return false;
+}
+
+export default {
+  fillControl,
+  findDropdownOption,
+  setControlValue,
+};
@@ -0,0 +1,322 @@
+import puppeteer from 'puppeteer';
+
+/**
+ * Type for an option of a select element or radio group
+ */
+export interface FormFieldOption {
+  value: string;
+  label: string;
+  selected: boolean;
+}
+
+/**
+ * Type for a form control, with radio buttons of the same name grouped into one field
+ */
+export interface FormField {
+  /** Key to pass to fill_form: the name, id, label or a selector, whichever identifies the control */
+  fieldName: string;
+  tagName: string;
+  type: string;
+  name?: string;
+  id?: string;
+  label?: string;
+  placeholder?: string;
+  required: boolean;
+  disabled: boolean;
+  pattern?: string;
+  minLength?: number;
+  maxLength?: number;
+  min?: string;
+  max?: string;
+  multiple?: boolean;
+  value?: string;
+  checked?: boolean;
+  options?: FormFieldOption[];
+  selector: string;
+}
+
+/**
+ * Type for a button that likely submits a form
+ */
+export interface FormSubmitButton {
+  text: string;
+  selector: string;
+}
+
+/**
+ * Type for a form and its fields. Controls outside any form element are
+ * reported as one extra entry with formless set.
+ */
+export interface FormDescription {
+  index: number;
+  formless: boolean;
+  id?: string;
+  name?: string;
+  action?: string;
+  method?: string;
+  selector?: string;
+  fields: FormField[];
+  submitButton?: FormSubmitButton;
+}
+
+/**
+ * Describe every form in a document and the controls outside forms.
+ * Self-contained so it can run in the page through evaluate.
+ * @param root The element to inspect, usually the document element
+ * @param includeHidden Whether to include controls that are not rendered
+ * @returns The forms, followed by the formless controls if there are any
+ */
+export function describeForms(root: Element, includeHidden: boolean): FormDescription[] {
+  const doc = root.ownerDocument;
+  const SUBMIT_TEXT = /submit|send|sign ?up|register|log ?in|sign ?in|continue|next|save|search|apply|checkout|order|subscribe|confirm/i;
+  
+  const textOf = (el: Element | null): string =>
+    el ? (el.textContent || '').replace(/\s+/g, ' ').trim() : '';
+  
+  // Label text without the text of controls nested in the label, such as select options
+  const labelText = (label: Element): string => {
+    const clone = label.cloneNode(true) as Element;
+    clone.querySelectorAll('input, select, textarea, button, [contenteditable]').forEach(el => el.remove());
+    return textOf(clone);
+  };
+  
+  const labelOf = (el: Element): string | undefined => {
+    const labelledBy = el.getAttribute('aria-labelledby');
+    if (labelledBy) {
+      const text = labelledBy
+        .split(/\s+/)
+        .map(id => {
+          const labelElement = doc.getElementById(id);
+          return labelElement ? labelText(labelElement) : '';
+        })
+        .join(' ')
+        .trim();
+      if (text) return text;
+    }
+    
+    const ariaLabel = el.getAttribute('aria-label');
+    if (ariaLabel && ariaLabel.trim()) return ariaLabel.trim();
+    
+    if (el.id) {
+      const label = Array.from(doc.querySelectorAll('label[for]')).find(l => l.getAttribute('for') === el.id);
+      if (label && labelText(label)) return labelText(label);
+    }
+    
+    const wrappingLabel = el.closest('label');
+    if (wrappingLabel && labelText(wrappingLabel)) return labelText(wrappingLabel);
+    
+    return el.getAttribute('title') || undefined;
+  };
+  
+  // Shortest selector that identifies the element: id, name, or a path of nth-of-type steps
+  const selectorOf = (el: Element): string => {
+    const unique = (selector: string) => {
+      try {
+        return doc.querySelectorAll(selector).length === 1;
+      } catch {
+        return false;
+      }
+    };
+    const quote = (value: string) => `"${value.replace(/["\\]/g, '\\$&')}"`;
+    const tag = el.tagName.toLowerCase();
+    
+    if (el.id && unique(`[id=${quote(el.id)}]`)) return `[id=${quote(el.id)}]`;
+    const name = el.getAttribute('name');
+    if (name && unique(`${tag}[name=${quote(name)}]`)) return `${tag}[name=${quote(name)}]`;
+    
+    const steps: string[] = [];
+    let current: Element | null = el;
+    while (current && current !== doc.documentElement) {
+      const currentTag: string = current.tagName.toLowerCase();
+      const siblings: Element[] = current.parentElement
+        ? Array.from(current.parentElement.children).filter(child => child.tagName === current!.tagName)
+        : [];
+      steps.unshift(siblings.length > 1 ? `${currentTag}:nth-of-type(${siblings.indexOf(current) + 1})` : currentTag);
+      current = current.parentElement;
+    }
+    return steps.join(' > ');
+  };
+  
+  const isRendered = (el: Element) => el.getClientRects().length > 0;
+  
+  const controls = Array.from(root.querySelectorAll(
+    'input:not([type="hidden"]):not([type="submit"]):not([type="button"]):not([type="reset"]):not([type="image"]), ' +
+    'textarea, select, [contenteditable=""], [contenteditable="true"]'
+  )).filter(el =>
+    !(el.parentElement && (el.parentElement as HTMLElement).isContentEditable) &&
+    (includeHidden || isRendered(el))
+  );
+  
+  const formOf = (el: Element): HTMLFormElement | null =>
+    (el as HTMLInputElement).form !== undefined ? (el as HTMLInputElement).form : el.closest('form');
+  
+  const describeField = (el: Element): FormField => {
+    const tagName = el.tagName.toLowerCase();
+    const input = el as HTMLInputElement;
+    const type = tagName === 'input'
+      ? (input.type || 'text').toLowerCase()
+      : tagName === 'select' || tagName === 'textarea' ? tagName : 'contenteditable';
+    const name = el.getAttribute('name') || undefined;
+    const label = labelOf(el);
+    const selector = selectorOf(el);
+    const number = (attribute: string) => {
+      const value = parseInt(el.getAttribute(attribute) || '', 10);
+      return Number.isNaN(value) ? undefined : value;
+    };
+    
+    const field: FormField = {
+      fieldName: name || el.id || label || selector,
+      tagName,
+      type,
+      name,
+      id: el.id || undefined,
+      label,
+      placeholder: el.getAttribute('placeholder') || undefined,
+      required: el.hasAttribute('required') || el.getAttribute('aria-required') === 'true',
+      disabled: input.disabled === true || el.getAttribute('aria-disabled') === 'true',
+      pattern: el.getAttribute('pattern') || undefined,
+      minLength: number('minlength'),
+      maxLength: number('maxlength'),
+      min: el.getAttribute('min') || undefined,
+      max: el.getAttribute('max') || undefined,
+      selector,
+    };
+    
+    if (tagName === 'select') {
+      const select = el as HTMLSelectElement;
+      field.multiple = select.multiple;
+      field.options = Array.from(select.options).map(option => ({
+        value: option.value,
+        label: textOf(option),
+        selected: option.selected,
+      }));
+      field.value = select.multiple
+        ? Array.from(select.selectedOptions).map(option => option.value).join(',')
+        : select.value;
+    } else if (type === 'checkbox') {
+      field.checked = input.checked;
+      field.value = input.value;
+    } else if (type === 'file') {
+      field.multiple = input.multiple;
+    } else if (type === 'contenteditable') {
+      field.value = textOf(el);
+    } else if (type !== 'password') {
+      field.value = (el as HTMLInputElement | HTMLTextAreaElement).value;
+    }
+    
+    return field;
+  };
+  
+  // Group radio buttons of the same form and name into one field with options
+  const describeFields = (elements: Element[]): FormField[] => {
+    const fields: FormField[] = [];
+    const radioGroups = new Map<string, FormField>();
+    
+    for (const el of elements) {
+      const input = el as HTMLInputElement;
+      if (el.tagName.toLowerCase() === 'input' && input.type === 'radio' && input.name) {
+        const option = { value: input.value, label: labelOf(el) || input.value, selected: input.checked };
+        const group = radioGroups.get(input.name);
+        if (group) {
+          group.options!.push(option);
+          group.required = group.required || input.required;
+          if (input.checked) group.value = input.value;
+          continue;
+        }
+        
+        const field = describeField(el);
+        const legend = el.closest('fieldset')?.querySelector('legend');
+        field.fieldName = input.name;
+        field.id = undefined;
+        field.label = legend ? textOf(legend) : undefined;
+        field.selector = `input[type="radio"][name="${input.name.replace(/["\\]/g, '\\$&')}"]`;
+        field.options = [option];
+        field.value = input.checked ? input.value : undefined;
+        field.checked = undefined;
+        radioGroups.set(input.name, field);
+        fields.push(field);
+        continue;
+      }
+      
+      fields.push(describeField(el));
+    }
+    
+    return fields;
+  };
+  
+  const describeButton = (button: Element): FormSubmitButton => ({
+    text: textOf(button) || (button as HTMLInputElement).value || button.getAttribute('aria-label') || '',
+    selector: selectorOf(button),
+  });
+  
+  const buttons = Array.from(root.querySelectorAll(
+    'button, input[type="submit"], input[type="image"], input[type="button"], [role="button"]'
+  )).filter(el => includeHidden || isRendered(el));
+  const isSubmitType = (button: Element) => {
+    const type = (button.getAttribute('type') || '').toLowerCase();
+    return button.tagName.toLowerCase() === 'button' ? type === '' || type === 'submit' : type === 'submit' || type === 'image';
+  };
+  const likelySubmit = (candidates: Element[]) =>
+    candidates.find(isSubmitType) || candidates.find(button => SUBMIT_TEXT.test(describeButton(button).text));
+  
+  const formElements = root.tagName.toLowerCase() === 'form'
+    ? [root as HTMLFormElement]
+    : Array.from(root.querySelectorAll('form'));
+  const forms: FormDescription[] = formElements.map((form, index) => {
+    const submitButton = likelySubmit(buttons.filter(button => formOf(button) === form));
+    return {
+      index,
+      formless: false,
+      id: form.id || undefined,
+      name: form.getAttribute('name') || undefined,
+      action: form.getAttribute('action') ? form.action : undefined,
+      method: (form.getAttribute('method') || 'get').toLowerCase(),
+      selector: selectorOf(form),
+      fields: describeFields(controls.filter(el => formOf(el) === form)),
+      submitButton: submitButton ? describeButton(submitButton) : undefined,
+    };
+  });
+  
+  // Controls outside forms, as used by most single-page apps
+  const formless = controls.filter(el => formOf(el) === null);
+  if (formless.length > 0) {
+    const submitButton = buttons
+      .filter(button => formOf(button) === null)
+      .find(button => SUBMIT_TEXT.test(describeButton(button).text));
+    forms.push({
+      index: forms.length,
+      formless: true,
+      fields: describeFields(formless),
+      submitButton: submitButton ? describeButton(submitButton) : undefined,
+    });
+  }
+  
+  return forms;
+}
+
+/**
+ * Describe the forms on a page
+ * @param page The page to inspect
+ * @param options Limit the inspection to a container, and whether to include hidden controls
+ * @returns The forms and their fields
+ */
+export async function inspectForms(
+  page: puppeteer.Page,
+  options: { selector?: string; includeHidden?: boolean } = {}
+): Promise<FormDescription[]> {
+  const root = await page.$(options.selector || 'html');
+  if (!root) {
+    throw new Error(`Element not found: ${options.selector}`);
+  }
+  
+  try {
+    return await root.evaluate(describeForms, options.includeHidden === true);
+  } finally {
+    await root.dispose();
+  }
+}
+
+export default {
+  describeForms,
+  inspectForms,
+};
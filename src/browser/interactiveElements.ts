@@ -0,0 +1,261 @@
+import puppeteer from 'puppeteer';
+
+/**
+ * Attribute stamped on every element found by collectInteractiveElements
+ */
+export const ELEMENT_INDEX_ATTRIBUTE = 'data-mcp-element-index';
+
+/**
+ * Kind of interaction an element supports
+ */
+export type InteractionKind = 'clickable' | 'typeable' | 'selectable';
+
+/**
+ * Type for an element bounding box (CSS pixels, relative to the viewport)
+ */
+export interface ElementBoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Type for an entry in the interactive element map
+ */
+export interface InteractiveElement {
+  index: number;
+  kind: InteractionKind;
+  role: string;
+  name: string;
+  tagName: string;
+  type?: string;
+  value?: string;
+  disabled: boolean;
+  inViewport: boolean;
+  boundingBox: ElementBoundingBox;
+  handle: string;
+}
+
+/**
+ * Options for collecting interactive elements
+ */
+export interface CollectOptions {
+  includeHidden?: boolean;
+  maxElements?: number;
+}
+
+/**
+ * Build the stable selector for an element index
+ * @param index The element index
+ * @returns A CSS selector matching the indexed element
+ */
+export function selectorForIndex(index: number): string {
+  return `[${ELEMENT_INDEX_ATTRIBUTE}="${index}"]`;
+}
+
+/**
+ * Walk the page and number every clickable, typeable and selectable element.
+ * Each element is stamped with an index attribute so that later calls can
+ * resolve it again through getElementByIndex.
+ * @param page The page to inspect
+ * @param options Collection options
+ * @returns The numbered list of interactive elements
+ */
+export async function collectInteractiveElements(
+  page: puppeteer.Page,
+  options: CollectOptions = {}
+): Promise<InteractiveElement[]> {
+  return page.evaluate(
+    (attribute: string, includeHidden: boolean, maxElements: number) => {
+      const clickableRoles = [
+        'button', 'link', 'checkbox', 'radio', 'switch', 'tab', 'menuitem',
+        'menuitemcheckbox', 'menuitemradio', 'option', 'treeitem',
+      ];
+      const typeableRoles = ['textbox', 'searchbox', 'spinbutton'];
+      const selectableRoles = ['combobox', 'listbox', 'slider'];
+      const nonTextInputs = [
+        'button', 'submit', 'reset', 'image', 'checkbox', 'radio', 'file', 'color', 'range',
+      ];
+      
+      // Clear indexes left over from a previous walk
+      document.querySelectorAll(`[${attribute}]`).forEach(el => el.removeAttribute(attribute));
+      
+      const implicitRole = (el: Element): string => {
+        const tag = el.tagName.toLowerCase();
+        const type = (el.getAttribute('type') || 'text').toLowerCase();
+        
+        switch (tag) {
+          case 'a':
+            return el.hasAttribute('href') ? 'link' : 'generic';
+          case 'button':
+          case 'summary':
+            return 'button';
+          case 'select':
+            return (el as HTMLSelectElement).multiple ? 'listbox' : 'combobox';
+          case 'textarea':
+            return 'textbox';
+          case 'input':
+            if (['button', 'submit', 'reset', 'image'].includes(type)) return 'button';
+            if (type === 'checkbox') return 'checkbox';
+            if (type === 'radio') return 'radio';
+            if (type === 'range') return 'slider';
+            if (type === 'number') return 'spinbutton';
+            if (type === 'search') return 'searchbox';
+            return 'textbox';
+          default:
+            return (el as HTMLElement).isContentEditable ? 'textbox' : 'generic';
+        }
+      };
+      
+      const textOf = (el: Element | null): string =>
+        el ? (el.textContent || '').replace(/\s+/g, ' ').trim() : '';
+      
+      const accessibleName = (el: Element): string => {
+        const labelledBy = el.getAttribute('aria-labelledby');
+        if (labelledBy) {
+          const text = labelledBy
+            .split(/\s+/)
+            .map(id => textOf(document.getElementById(id)))
+            .join(' ')
+            .trim();
+          if (text) return text;
+        }
+        
+        const ariaLabel = el.getAttribute('aria-label');
+        if (ariaLabel && ariaLabel.trim()) return ariaLabel.trim();
+        
+        if (el.id) {
+          const label = document.querySelector(`label[for="${CSS.escape(el.id)}"]`);
+          if (textOf(label)) return textOf(label);
+        }
+        
+        const wrappingLabel = el.closest('label');
+        if (wrappingLabel && textOf(wrappingLabel)) return textOf(wrappingLabel);
+        
+        if (el instanceof HTMLInputElement && ['button', 'submit', 'reset'].includes(el.type)) {
+          if (el.value) return el.value;
+        }
+        
+        const text = textOf(el);
+        if (text && !(el instanceof HTMLSelectElement)) return text;
+        
+        return (
+          el.getAttribute('alt') ||
+          el.getAttribute('title') ||
+          el.getAttribute('placeholder') ||
+          el.getAttribute('name') ||
+          ''
+        ).trim();
+      };
+      
+      const kindOf = (el: Element, role: string): InteractionKind | null => {
+        const tag = el.tagName.toLowerCase();
+        
+        if (tag === 'input') {
+          const type = ((el as HTMLInputElement).type || 'text').toLowerCase();
+          if (type === 'hidden') return null;
+          if (type === 'range' || type === 'color' || type === 'file') return 'selectable';
+          return nonTextInputs.includes(type) ? 'clickable' : 'typeable';
+        }
+        if (tag === 'textarea' || (el as HTMLElement).isContentEditable) return 'typeable';
+        if (tag === 'select') return 'selectable';
+        if (typeableRoles.includes(role)) return 'typeable';
+        if (selectableRoles.includes(role)) return 'selectable';
+        if (clickableRoles.includes(role)) return 'clickable';
+        if (el.hasAttribute('onclick')) return 'clickable';
+        
+        const tabIndex = el.getAttribute('tabindex');
+        if (tabIndex !== null && parseInt(tabIndex, 10) >= 0) return 'clickable';
+        
+        return null;
+      };
+      
+      const isVisible = (el: Element, rect: DOMRect): boolean => {
+        if (rect.width === 0 || rect.height === 0) return false;
+        const style = window.getComputedStyle(el);
+        return style.visibility !== 'hidden' && style.display !== 'none' && style.opacity !== '0';
+      };
+      
+      const candidates = document.querySelectorAll(
+        'a, button, input, select, textarea, summary, [role], [onclick], [tabindex], [contenteditable]'
+      );
+      const results: InteractiveElement[] = [];
+      
+      for (const el of Array.from(candidates)) {
+        if (results.length >= maxElements) break;
+        
+        // Only report the outermost editable element of a contenteditable tree
+        const parent = el.parentElement;
+        if (parent && parent.isContentEditable && (el as HTMLElement).isContentEditable) continue;
+        
+        const role = el.getAttribute('role') || implicitRole(el);
+        const kind = kindOf(el, role);
+        if (!kind) continue;
+        
+        const rect = el.getBoundingClientRect();
+        if (!includeHidden && !isVisible(el, rect)) continue;
+        
+        const index = results.length;
+        el.setAttribute(attribute, String(index));
+        
+        const type = el.getAttribute('type') || undefined;
+        const value = el instanceof HTMLInputElement || el instanceof HTMLTextAreaElement || el instanceof HTMLSelectElement
+          ? el.value
+          : undefined;
+        
+        results.push({
+          index,
+          kind,
+          role,
+          name: accessibleName(el).substring(0, 150),
+          tagName: el.tagName.toLowerCase(),
+          type,
+          value: type === 'password' ? undefined : value,
+          disabled: (el as HTMLButtonElement).disabled === true || el.getAttribute('aria-disabled') === 'true',
+          inViewport: rect.bottom > 0 && rect.right > 0 &&
+            rect.top < window.innerHeight && rect.left < window.innerWidth,
+          boundingBox: {
+            x: Math.round(rect.x),
+            y: Math.round(rect.y),
+            width: Math.round(rect.width),
+            height: Math.round(rect.height),
+          },
+          handle: `[${attribute}="${index}"]`,
+        });
+      }
+      
+      return results;
+    },
+    ELEMENT_INDEX_ATTRIBUTE,
+    options.includeHidden === true,
+    options.maxElements || 500
+  );
+}
+
+/**
+ * Resolve an element from the most recent interactive element map
+ * @param page The page containing the element
+ * @param index The element index returned by collectInteractiveElements
+ * @returns The element handle
+ */
+export async function getElementByIndex(
+  page: puppeteer.Page,
+  index: number
+): Promise<puppeteer.ElementHandle<Element>> {
+  const element = await page.$(selectorForIndex(index));
+  
+  if (!element) {
+    throw new Error(
+      `Element with index ${index} not found. The page may have changed; call get_interactive_elements again`
+    );
+  }
+  
+  return element;
+}
+
+export default {
+  collectInteractiveElements,
+  getElementByIndex,
+  selectorForIndex,
+};
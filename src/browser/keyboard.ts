@@ -0,0 +1,120 @@
+import puppeteer from 'puppeteer';
+
+/**
+ * Common names for keys, mapped to the key names the browser uses
+ */
+const KEY_ALIASES: Record<string, string> = {
+  ctrl: 'Control',
+  control: 'Control',
+  cmd: 'Meta',
+  command: 'Meta',
+  meta: 'Meta',
+  win: 'Meta',
+  super: 'Meta',
+  alt: 'Alt',
+  option: 'Alt',
+  shift: 'Shift',
+  esc: 'Escape',
+  escape: 'Escape',
+  enter: 'Enter',
+  return: 'Enter',
+  tab: 'Tab',
+  space: 'Space',
+  backspace: 'Backspace',
+  del: 'Delete',
+  delete: 'Delete',
+  ins: 'Insert',
+  insert: 'Insert',
+  home: 'Home',
+  end: 'End',
+  pageup: 'PageUp',
+  pgup: 'PageUp',
+  pagedown: 'PageDown',
+  pgdn: 'PageDown',
+  up: 'ArrowUp',
+  down: 'ArrowDown',
+  left: 'ArrowLeft',
+  right: 'ArrowRight',
+  arrowup: 'ArrowUp',
+  arrowdown: 'ArrowDown',
+  arrowleft: 'ArrowLeft',
+  arrowright: 'ArrowRight',
+};
+
+/**
+ * Modifier keys, held down while the other keys of a combination are pressed
+ */
+const MODIFIERS = ['Control', 'Meta', 'Alt', 'Shift'];
+
+/**
+ * Parse a key sequence such as "Control+Shift+P" or "Control+K Control+C" into
+ * chords, each a list of keys pressed together. Chords are separated by spaces
+ * and keys by "+"; "Control++" presses Control and the plus key. "ControlOrMeta"
+ * (or "Mod") is Meta on macOS and Control elsewhere, for cross-platform shortcuts.
+ * @param keys The key sequence
+ * @param platform The platform, which decides what ControlOrMeta means
+ * @returns The chords
+ */
+export function parseKeySequence(keys: string, platform: string = process.platform): string[][] {
+  const normalizeKey = (key: string, hasModifiers: boolean): string => {
+    const lower = key.toLowerCase();
+    if (lower === 'controlormeta' || lower === 'mod') return platform === 'darwin' ? 'Meta' : 'Control';
+    if (KEY_ALIASES[lower]) return KEY_ALIASES[lower];
+    
+    // Letters are pressed as lowercase keys; Shift in the chord makes them uppercase
+    if (hasModifiers && key.length === 1) return lower;
+    if (/^f\d{1,2}$/.test(lower)) return lower.toUpperCase();
+    return key;
+  };
+  
+  return keys
+    .trim()
+    .split(/\s+/)
+    .filter(chord => chord.length > 0)
+    .map(chord => {
+      // Split on "+", treating a "+" that is not followed by a key as the plus key itself
+      const parts: string[] = [];
+      let rest = chord;
+      while (rest.length > 0) {
+        const separator = rest.indexOf('+', 1);
+        if (separator === -1) {
+          parts.push(rest);
+          break;
+        }
+        parts.push(rest.slice(0, separator));
+        rest = rest.slice(separator + 1);
+      }
+      
+      return parts.map(part => normalizeKey(part, parts.length > 1));
+    });
+}
+
+/**
+ * Press chords of keys, holding the modifiers of each chord while its other keys are pressed
+ * @param page The page
+ * @param chords The chords from parseKeySequence
+ */
+export async function pressChords(page: puppeteer.Page, chords: string[][]): Promise<void> {
+  for (const chord of chords) {
+    const modifiers = chord.filter((key, index) => MODIFIERS.includes(key) && index < chord.length - 1);
+    const keys = chord.filter((key, index) => !(MODIFIERS.includes(key) && index < chord.length - 1));
+    
+    for (const modifier of modifiers) {
+      await page.keyboard.down(modifier as puppeteer.KeyInput);
+    }
+    try {
+      for (const key of keys) {
+        await page.keyboard.press(key as puppeteer.KeyInput);
+      }
+    } finally {
+      for (const modifier of [...modifiers].reverse()) {
+        await page.keyboard.up(modifier as puppeteer.KeyInput);
+      }
+    }
+  }
+}
+
+export default {
+  parseKeySequence,
+  pressChords,
+};
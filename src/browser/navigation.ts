@@ -0,0 +1,69 @@
+import puppeteer from 'puppeteer';
+
+/**
+ * Type for the session history of a tab
+ */
+export interface NavigationHistory {
+  /** Index of the current entry */
+  currentIndex: number;
+  entries: Array<{ url: string; title: string }>;
+}
+
+/**
+ * Options for waiting on a history navigation
+ */
+export interface HistoryNavigationOptions {
+  waitUntil?: puppeteer.PuppeteerLifeCycleEvent;
+  timeout?: number;
+}
+
+/**
+ * Get the session history of a tab. Uses the DevTools protocol, so it works
+ * while a dialog blocks the page.
+ * @param page The tab
+ * @returns The history entries and the index of the current one
+ */
+export async function getNavigationHistory(page: puppeteer.Page): Promise<NavigationHistory> {
+  const client = await page.createCDPSession();
+  
+  try {
+    const { currentIndex, entries } = await client.send('Page.getNavigationHistory');
+    return {
+      currentIndex,
+      entries: entries.map(entry => ({ url: entry.url, title: entry.title })),
+    };
+  } finally {
+    await client.detach().catch(() => {});
+  }
+}
+
+/**
+ * Go back or forward in the session history of a tab, including entries that
+ * single-page apps add with pushState
+ * @param page The tab
+ * @param direction -1 to go back, 1 to go forward
+ * @param options When to consider the navigation finished
+ * @returns Whether there was an entry to go to, and the HTTP status if a document was loaded
+ */
+export async function navigateHistory(
+  page: puppeteer.Page,
+  direction: -1 | 1,
+  options: HistoryNavigationOptions = {}
+): Promise<{ navigated: boolean; status?: number }> {
+  const { currentIndex, entries } = await getNavigationHistory(page);
+  const targetIndex = currentIndex + direction;
+  
+  if (targetIndex < 0 || targetIndex >= entries.length) {
+    return { navigated: false };
+  }
+  
+  const waitOptions = { waitUntil: options.waitUntil || 'load', timeout: options.timeout || 30000 };
+  const response = direction < 0 ? await page.goBack(waitOptions) : await page.goForward(waitOptions);
+  
+  return { navigated: true, status: response?.status() };
+}
+
+export default {
+  getNavigationHistory,
+  navigateHistory,
+};
@@ -0,0 +1,174 @@
+/**
+ * Request types that can be blocked by resource type
+ */
+export const BLOCKABLE_RESOURCE_TYPES = [
+  'image', 'font', 'media', 'stylesheet', 'script', 'xhr', 'fetch', 'websocket', 'eventsource', 'manifest', 'other',
+] as const;
+
+/**
+ * A blockable request type
+ */
+export type BlockableResourceType = typeof BLOCKABLE_RESOURCE_TYPES[number];
+
+/**
+ * Network rules applied to every tab of a session
+ */
+export interface NetworkRules {
+  /** Resource types to block, such as image, font or media */
+  blockResourceTypes: BlockableResourceType[];
+  /** URL patterns to block; * matches any characters, patterns without * match anywhere in the URL */
+  blockUrlPatterns: string[];
+  /** Block requests to the bundled list of ad and tracker domains */
+  blockAdsAndTrackers: boolean;
+}
+
+/**
+ * Bundled list of ad, analytics and tracker domains. Subdomains are matched too.
+ */
+export const AD_TRACKER_DOMAINS: string[] = [
+  // Ad networks and exchanges
+  'doubleclick.net',
+  'googlesyndication.com',
+  'googleadservices.com',
+  'googletagservices.com',
+  'adservice.google.com',
+  'amazon-adsystem.com',
+  'adnxs.com',
+  'adsrvr.org',
+  'adform.net',
+  'adroll.com',
+  'advertising.com',
+  'bidswitch.net',
+  'casalemedia.com',
+  'criteo.com',
+  'criteo.net',
+  'indexww.com',
+  'mathtag.com',
+  'media.net',
+  'moatads.com',
+  'openx.net',
+  'outbrain.com',
+  'pubmatic.com',
+  'rubiconproject.com',
+  'sharethrough.com',
+  'smartadserver.com',
+  'taboola.com',
+  'teads.tv',
+  'yieldmo.com',
+  'zedo.com',
+  '33across.com',
+  // Social ad pixels
+  'connect.facebook.net',
+  'ads-twitter.com',
+  'ads.linkedin.com',
+  'snap.licdn.com',
+  'analytics.tiktok.com',
+  'bat.bing.com',
+  // Analytics and session recording
+  'google-analytics.com',
+  'googletagmanager.com',
+  'analytics.google.com',
+  'scorecardresearch.com',
+  'quantserve.com',
+  'chartbeat.com',
+  'chartbeat.net',
+  'hotjar.com',
+  'mixpanel.com',
+  'segment.io',
+  'cdn.segment.com',
+  'api.amplitude.com',
+  'heapanalytics.com',
+  'fullstory.com',
+  'mouseflow.com',
+  'crazyegg.com',
+  'luckyorange.com',
+  'clarity.ms',
+  'mc.yandex.ru',
+  'nr-data.net',
+  'optimizely.com',
+  // Data management platforms
+  'demdex.net',
+  'omtrdc.net',
+  'everesttech.net',
+  'krxd.net',
+  'bluekai.com',
+  'exelator.com',
+  'crwdcntrl.net',
+  'tealiumiq.com',
+];
+
+const adTrackerDomains = new Set(AD_TRACKER_DOMAINS);
+
+/**
+ * Check whether a URL points at a domain on the bundled ad and tracker list
+ * @param url The request URL
+ * @returns True if the host or one of its parent domains is listed
+ */
+export function isAdOrTrackerUrl(url: string): boolean {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.toLowerCase();
+  } catch {
+    return false;
+  }
+  
+  const labels = hostname.split('.');
+  for (let i = 0; i < labels.length - 1; i++) {
+    if (adTrackerDomains.has(labels.slice(i).join('.'))) {
+      return true;
+    }
+  }
+  
+  return false;
+}
+
+/**
+ * Check whether a URL matches a block pattern
+ * @param url The request URL
+ * @param pattern The pattern; * matches any characters, patterns without * match anywhere in the URL
+ * @returns True if the URL matches
+ */
+export function matchesUrlPattern(url: string, pattern: string): boolean {
+  if (!pattern.includes('*')) {
+    return url.toLowerCase().includes(pattern.toLowerCase());
+  }
+  
+  const source = pattern
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`, 'i').test(url);
+}
+
+/**
+ * Check whether any blocking is enabled
+ * @param rules The network rules
+ * @returns True if at least one rule blocks requests
+ */
+export function hasActiveRules(rules: NetworkRules): boolean {
+  return rules.blockResourceTypes.length > 0 || rules.blockUrlPatterns.length > 0 || rules.blockAdsAndTrackers;
+}
+
+/**
+ * Decide whether a request should be blocked
+ * @param rules The network rules of the session
+ * @param url The request URL
+ * @param resourceType The request's resource type
+ * @returns True if the request should be aborted
+ */
+export function shouldBlockRequest(rules: NetworkRules, url: string, resourceType: string): boolean {
+  // Never block the page's own inline data
+  if (url.startsWith('data:') || url.startsWith('blob:')) {
+    return false;
+  }
+  
+  if ((rules.blockResourceTypes as string[]).includes(resourceType)) {
+    return true;
+  }
+  
+  if (rules.blockUrlPatterns.some(pattern => matchesUrlPattern(url, pattern))) {
+    return true;
+  }
+  
+  return rules.blockAdsAndTrackers && isAdOrTrackerUrl(url);
+}
@@ -0,0 +1,378 @@
+import puppeteer from 'puppeteer';
+import { matchesUrlPattern } from './networkFilter.js';
+
+/**
+ * HAR 1.2 timing phases in milliseconds, -1 when a phase does not apply
+ */
+export interface HarTimings {
+  blocked: number;
+  dns: number;
+  connect: number;
+  ssl: number;
+  send: number;
+  wait: number;
+  receive: number;
+}
+
+/**
+ * A recorded request and its response
+ */
+export interface NetworkEntry {
+  id: number;
+  tabId?: string;
+  url: string;
+  method: string;
+  resourceType: string;
+  requestHeaders: Record<string, string>;
+  requestBody?: string;
+  status: number;
+  statusText: string;
+  responseHeaders: Record<string, string>;
+  mimeType: string;
+  fromCache: boolean;
+  remoteAddress?: string;
+  startedDateTime: string;
+  time: number;
+  timings: HarTimings;
+  responseBody?: string;
+  responseBodyEncoding?: 'base64';
+  responseBodySize: number;
+  failure?: string;
+}
+
+/**
+ * Options for recording network traffic
+ */
+export interface NetworkCaptureOptions {
+  /** Record request and response bodies */
+  captureBodies?: boolean;
+  /** Largest response body to record, in bytes */
+  maxBodySize?: number;
+  /** Maximum number of entries to keep; older entries are dropped first */
+  maxEntries?: number;
+}
+
+/**
+ * Filter for recorded network entries
+ */
+export interface NetworkEntryFilter {
+  resourceTypes?: string[];
+  urlPattern?: string;
+  methods?: string[];
+  statusMin?: number;
+  statusMax?: number;
+  failedOnly?: boolean;
+}
+
+/**
+ * Response MIME types whose bodies are recorded as text rather than base64
+ */
+const TEXT_MIME_TYPE = /^text\/|[/+](json|xml|javascript|ecmascript|x-www-form-urlencoded)\b/i;
+
+/**
+ * Convert CDP resource timing to HAR timing phases
+ * @param timing The response timing, or null if none was reported
+ * @param total The total time of the request in milliseconds
+ * @returns The HAR timings
+ */
+function toHarTimings(timing: ReturnType<puppeteer.HTTPResponse['timing']>, total: number): HarTimings {
+  if (!timing) {
+    return { blocked: -1, dns: -1, connect: -1, ssl: -1, send: 0, wait: total, receive: 0 };
+  }
+  
+  const phase = (start: number, end: number): number => (start >= 0 && end >= start ? end - start : -1);
+  const firstStart = [timing.dnsStart, timing.connectStart, timing.sendStart].find(value => value >= 0) ?? 0;
+  const send = Math.max(0, timing.sendEnd - timing.sendStart);
+  const wait = Math.max(0, timing.receiveHeadersEnd - timing.sendEnd);
+  
+  return {
+    blocked: Math.max(0, firstStart),
+    dns: phase(timing.dnsStart, timing.dnsEnd),
+    connect: phase(timing.connectStart, timing.connectEnd),
+    ssl: phase(timing.sslStart, timing.sslEnd),
+    send,
+    wait,
+    receive: Math.max(0, total - timing.receiveHeadersEnd),
+  };
+}
+
+/**
+ * Records the requests and responses of a session's tabs
+ */
+export class NetworkRecorder {
+  private entries: NetworkEntry[] = [];
+  private inFlight: Map<puppeteer.HTTPRequest, { entry: NetworkEntry; startedAt: number }> = new Map();
+  private pending: Set<Promise<void>> = new Set();
+  private detachers: Array<() => void> = [];
+  private nextId = 1;
+  private options: Required<NetworkCaptureOptions>;
+  private droppedEntries = 0;
+  
+  /**
+   * Constructor
+   * @param options Capture options
+   */
+  constructor(options: NetworkCaptureOptions = {}) {
+    this.options = {
+      captureBodies: options.captureBodies ?? false,
+      maxBodySize: options.maxBodySize ?? 1024 * 1024,
+      maxEntries: options.maxEntries ?? 2000,
+    };
+  }
+  
+  /**
+   * Start recording the traffic of a tab
+   * @param page The tab
+   * @param tabId The tab ID, stored on each entry
+   */
+  attach(page: puppeteer.Page, tabId?: string): void {
+    const onRequest = (request: puppeteer.HTTPRequest) => this.handleRequest(request, tabId);
+    const onFinished = (request: puppeteer.HTTPRequest) => this.track(this.handleFinished(request));
+    const onFailed = (request: puppeteer.HTTPRequest) => this.handleFailed(request);
+    
+    page.on('request', onRequest);
+    page.on('requestfinished', onFinished);
+    page.on('requestfailed', onFailed);
+    
+    this.detachers.push(() => {
+      page.off('request', onRequest);
+      page.off('requestfinished', onFinished);
+      page.off('requestfailed', onFailed);
+    });
+  }
+  
+  /**
+   * Stop recording and wait for body reads that are still running
+   * @returns The recorded entries, including requests that never completed
+   */
+  async stop(): Promise<NetworkEntry[]> {
+    this.detachers.forEach(detach => detach());
+    this.detachers = [];
+    
+    await Promise.allSettled(Array.from(this.pending));
+    
+    // Keep requests that were still in flight, marked as unfinished
+    for (const { entry, startedAt } of this.inFlight.values()) {
+      entry.time = Date.now() - startedAt;
+      entry.failure = entry.failure || 'unfinished';
+      this.entries.push(entry);
+    }
+    this.inFlight.clear();
+    
+    return this.entries.sort((a, b) => a.id - b.id);
+  }
+  
+  /**
+   * Get the number of entries dropped because the entry limit was reached
+   * @returns The number of dropped entries
+   */
+  getDroppedEntryCount(): number {
+    return this.droppedEntries;
+  }
+  
+  /**
+   * Keep track of an asynchronous handler so stop() can wait for it
+   * @param promise The handler promise
+   */
+  private track(promise: Promise<void>): void {
+    this.pending.add(promise);
+    promise.finally(() => this.pending.delete(promise)).catch(() => {});
+  }
+  
+  /**
+   * Record the start of a request
+   * @param request The request
+   * @param tabId The tab that made the request
+   */
+  private handleRequest(request: puppeteer.HTTPRequest, tabId?: string): void {
+    const postData = request.postData();
+    
+    this.inFlight.set(request, {
+      startedAt: Date.now(),
+      entry: {
+        id: this.nextId++,
+        tabId,
+        url: request.url(),
+        method: request.method(),
+        resourceType: request.resourceType(),
+        requestHeaders: request.headers(),
+        requestBody: this.options.captureBodies && postData !== undefined ? postData : undefined,
+        status: 0,
+        statusText: '',
+        responseHeaders: {},
+        mimeType: '',
+        fromCache: false,
+        startedDateTime: new Date().toISOString(),
+        time: 0,
+        timings: { blocked: -1, dns: -1, connect: -1, ssl: -1, send: 0, wait: 0, receive: 0 },
+        responseBodySize: -1,
+      },
+    });
+  }
+  
+  /**
+   * Record the response of a finished request, reading its body if requested
+   * @param request The finished request
+   */
+  private async handleFinished(request: puppeteer.HTTPRequest): Promise<void> {
+    const record = this.inFlight.get(request);
+    if (!record) {
+      return;
+    }
+    this.inFlight.delete(request);
+    
+    const { entry, startedAt } = record;
+    const response = request.response();
+    entry.time = Date.now() - startedAt;
+    
+    if (response) {
+      entry.status = response.status();
+      entry.statusText = response.statusText();
+      entry.responseHeaders = response.headers();
+      entry.mimeType = (entry.responseHeaders['content-type'] || '').split(';')[0].trim();
+      entry.fromCache = response.fromCache();
+      entry.remoteAddress = response.remoteAddress().ip;
+      entry.timings = toHarTimings(response.timing(), entry.time);
+      
+      const contentLength = parseInt(entry.responseHeaders['content-length'] || '', 10);
+      entry.responseBodySize = Number.isNaN(contentLength) ? -1 : contentLength;
+      
+      // Redirects have no body to read
+      if (this.options.captureBodies && (entry.status < 300 || entry.status >= 400)) {
+        try {
+          const body = await response.buffer();
+          entry.responseBodySize = body.length;
+          if (body.length <= this.options.maxBodySize) {
+            if (TEXT_MIME_TYPE.test(entry.mimeType)) {
+              entry.responseBody = body.toString('utf8');
+            } else {
+              entry.responseBody = body.toString('base64');
+              entry.responseBodyEncoding = 'base64';
+            }
+          }
+        } catch {
+          // The body may already be evicted from the browser's cache
+        }
+      }
+    }
+    
+    this.addEntry(entry);
+  }
+  
+  /**
+   * Record a failed request
+   * @param request The failed request
+   */
+  private handleFailed(request: puppeteer.HTTPRequest): void {
+    const record = this.inFlight.get(request);
+    if (!record) {
+      return;
+    }
+    this.inFlight.delete(request);
+    
+    record.entry.time = Date.now() - record.startedAt;
+    record.entry.failure = request.failure()?.errorText || 'failed';
+    this.addEntry(record.entry);
+  }
+  
+  /**
+   * Store an entry, dropping the oldest entry when the limit is reached
+   * @param entry The entry
+   */
+  private addEntry(entry: NetworkEntry): void {
+    this.entries.push(entry);
+    if (this.entries.length > this.options.maxEntries) {
+      this.entries.shift();
+      this.droppedEntries++;
+    }
+  }
+}
+
+/**
+ * Filter recorded network entries
+ * @param entries The entries
+ * @param filter The filter; omitted criteria match everything
+ * @returns The matching entries
+ */
+export function filterNetworkEntries(entries: NetworkEntry[], filter: NetworkEntryFilter = {}): NetworkEntry[] {
+  const methods = filter.methods?.map(method => method.toUpperCase());
+  
+  return entries.filter(entry =>
+    (!filter.resourceTypes || filter.resourceTypes.includes(entry.resourceType)) &&
+    (!filter.urlPattern || matchesUrlPattern(entry.url, filter.urlPattern)) &&
+    (!methods || methods.includes(entry.method.toUpperCase())) &&
+    (filter.statusMin === undefined || entry.status >= filter.statusMin) &&
+    (filter.statusMax === undefined || entry.status <= filter.statusMax) &&
+    (!filter.failedOnly || entry.failure !== undefined || entry.status >= 400)
+  );
+}
+
+/**
+ * Convert recorded network entries to a HAR 1.2 log
+ * @param entries The entries
+ * @param creator The name and version of the recording tool
+ * @returns The HAR document
+ */
+export function toHar(
+  entries: NetworkEntry[],
+  creator: { name: string; version: string }
+): { log: Record<string, any> } {
+  const toHeaderList = (headers: Record<string, string>) =>
+    Object.entries(headers).map(([name, value]) => ({ name, value }));
+  
+  return {
+    log: {
+      version: '1.2',
+      creator,
+      entries: entries.map(entry => {
+        let queryString: { name: string; value: string }[] = [];
+        try {
+          queryString = Array.from(new URL(entry.url).searchParams.entries()).map(([name, value]) => ({ name, value }));
+        } catch {
+          // Leave the query string empty for URLs that do not parse
+        }
+        
+        return {
+          startedDateTime: entry.startedDateTime,
+          time: entry.time,
+          request: {
+            method: entry.method,
+            url: entry.url,
+            httpVersion: '',
+            cookies: [],
+            headers: toHeaderList(entry.requestHeaders),
+            queryString,
+            ...(entry.requestBody !== undefined
+              ? { postData: { mimeType: entry.requestHeaders['content-type'] || '', text: entry.requestBody } }
+              : {}),
+            headersSize: -1,
+            bodySize: entry.requestBody !== undefined ? Buffer.byteLength(entry.requestBody) : 0,
+          },
+          response: {
+            status: entry.status,
+            statusText: entry.statusText,
+            httpVersion: '',
+            cookies: [],
+            headers: toHeaderList(entry.responseHeaders),
+            content: {
+              size: entry.responseBodySize,
+              mimeType: entry.mimeType,
+              ...(entry.responseBody !== undefined ? { text: entry.responseBody } : {}),
+              ...(entry.responseBodyEncoding ? { encoding: entry.responseBodyEncoding } : {}),
+            },
+            redirectURL: entry.responseHeaders.location || '',
+            headersSize: -1,
+            bodySize: entry.responseBodySize,
+          },
+          cache: {},
+          timings: entry.timings,
+          ...(entry.remoteAddress ? { serverIPAddress: entry.remoteAddress } : {}),
+          _resourceType: entry.resourceType,
+          ...(entry.failure ? { _error: entry.failure } : {}),
+        };
+      }),
+    },
+  };
+}
+
+export default NetworkRecorder;
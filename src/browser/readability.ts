@@ -0,0 +1,322 @@
+/**
+ * Type for article metadata found in the page head and markup
+ */
+export interface ArticleMetadata {
+  byline?: string;
+  publishedDate?: string;
+  leadImage?: string;
+  excerpt?: string;
+  siteName?: string;
+}
+
+/**
+ * Find the main content of the current document, in the spirit of Mozilla
+ * Readability: paragraphs score their ancestors, the best-scoring block wins,
+ * related siblings are merged in and boilerplate is stripped from the result.
+ * Runs inside the page through page.evaluateHandle, so it must stay
+ * self-contained.
+ * @returns A detached, cleaned copy of the main content (or of the body)
+ */
+export function extractMainContent(): Element {
+  const unlikelyPattern = /-ad-|ai2html|banner|breadcrumbs|combx|comment|community|cookie|consent|cover-wrap|disqus|extra|footer|gdpr|header|legends|menu|related|remark|replies|rss|shoutbox|sidebar|skyscraper|social|sponsor|supplemental|ad-break|agegate|pagination|pager|popup|yom-remote|newsletter|subscribe|modal|share/i;
+  const maybeCandidatePattern = /and|article|body|column|content|main|shadow/i;
+  const positivePattern = /article|body|content|entry|hentry|h-entry|main|page|post|text|blog|story/i;
+  const negativePattern = /-ad-|hidden|^hid$| hid$| hid |^hid |banner|combx|comment|com-|contact|foot|footer|footnote|gdpr|masthead|media|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|tool|widget|nav|menu|cookie|consent|subscribe|newsletter/i;
+  const boilerplateTags = ['nav', 'aside', 'footer', 'form', 'script', 'style', 'noscript', 'iframe', 'button', 'input', 'select', 'textarea', 'svg', 'template'];
+  const boilerplateRoles = ['navigation', 'banner', 'contentinfo', 'complementary', 'search', 'dialog', 'alertdialog', 'menu', 'menubar'];
+  const hiddenMarker = 'data-mcp-hidden';
+  
+  const scores = new Map<Element, number>();
+  
+  const textLength = (el: Element): number => (el.textContent || '').replace(/\s+/g, ' ').trim().length;
+  
+  const isHidden = (el: Element): boolean => {
+    if ((el as HTMLElement).hidden || el.getAttribute('aria-hidden') === 'true') return true;
+    const style = window.getComputedStyle(el);
+    return style.display === 'none' || style.visibility === 'hidden';
+  };
+  
+  const classWeight = (el: Element): number => {
+    let weight = 0;
+    for (const value of [el.getAttribute('class') || '', el.id]) {
+      if (!value) continue;
+      if (negativePattern.test(value)) weight -= 25;
+      if (positivePattern.test(value)) weight += 25;
+    }
+    return weight;
+  };
+  
+  const linkDensity = (el: Element): number => {
+    const length = textLength(el);
+    if (length === 0) return 0;
+    let linkLength = 0;
+    el.querySelectorAll('a').forEach(link => {
+      const href = link.getAttribute('href') || '';
+      // In-page anchors count for less than links away from the page
+      linkLength += textLength(link) * (href.startsWith('#') ? 0.3 : 1);
+    });
+    return linkLength / length;
+  };
+  
+  const isBoilerplate = (el: Element): boolean => {
+    const tag = el.tagName.toLowerCase();
+    const role = el.getAttribute('role') || '';
+    if (boilerplateTags.includes(tag) || boilerplateRoles.includes(role)) return true;
+    const matchString = `${el.getAttribute('class') || ''} ${el.id}`;
+    return unlikelyPattern.test(matchString) && !maybeCandidatePattern.test(matchString) && tag !== 'body' && tag !== 'a';
+  };
+  
+  const initialScore = (el: Element): number => {
+    let score = 0;
+    switch (el.tagName.toLowerCase()) {
+      case 'div':
+      case 'article':
+      case 'section':
+      case 'main':
+        score += 5;
+        break;
+      case 'pre':
+      case 'td':
+      case 'blockquote':
+        score += 3;
+        break;
+      case 'address':
+      case 'ol':
+      case 'ul':
+      case 'dl':
+      case 'dd':
+      case 'dt':
+      case 'li':
+      case 'form':
+        score -= 3;
+        break;
+      case 'h1':
+      case 'h2':
+      case 'h3':
+      case 'h4':
+      case 'h5':
+      case 'h6':
+      case 'th':
+        score -= 5;
+        break;
+    }
+    if (el.tagName.toLowerCase() === 'article' || el.tagName.toLowerCase() === 'main') score += 10;
+    return score + classWeight(el);
+  };
+  
+  // Collect scorable paragraphs, skipping boilerplate and hidden subtrees
+  const paragraphs: Element[] = [];
+  const walk = (el: Element): void => {
+    for (const child of Array.from(el.children)) {
+      if (isBoilerplate(child) || isHidden(child)) continue;
+      const tag = child.tagName.toLowerCase();
+      if (tag === 'p' || tag === 'pre' || tag === 'td' || tag === 'blockquote') {
+        paragraphs.push(child);
+      } else if (tag === 'div' && !child.querySelector('div, p, pre, table, ul, ol, blockquote, section, article')) {
+        // Divs used as paragraphs
+        paragraphs.push(child);
+      }
+      walk(child);
+    }
+  };
+  walk(document.body);
+  
+  // Score each paragraph into its ancestors
+  for (const paragraph of paragraphs) {
+    const text = (paragraph.textContent || '').replace(/\s+/g, ' ').trim();
+    if (text.length < 25) continue;
+    
+    // One point for the paragraph, one per comma and one per 100 characters (up to 3)
+    const commas = text.split(/[,，、]/).length - 1;
+    const contentScore = 1 + commas + Math.min(Math.floor(text.length / 100), 3);
+    
+    let ancestor = paragraph.parentElement;
+    let level = 0;
+    while (ancestor && level < 5) {
+      if (!scores.has(ancestor)) {
+        scores.set(ancestor, initialScore(ancestor));
+      }
+      const divider = level === 0 ? 1 : level === 1 ? 2 : level * 3;
+      scores.set(ancestor, (scores.get(ancestor) || 0) + contentScore / divider);
+      if (ancestor === document.body) break;
+      ancestor = ancestor.parentElement;
+      level++;
+    }
+  }
+  
+  // Pick the best candidate, discounting link-heavy blocks
+  let topCandidate: Element | null = null;
+  let topScore = 0;
+  for (const [candidate, score] of scores.entries()) {
+    const finalScore = score * (1 - linkDensity(candidate));
+    scores.set(candidate, finalScore);
+    if (finalScore > topScore) {
+      topCandidate = candidate;
+      topScore = finalScore;
+    }
+  }
+  
+  if (!topCandidate) {
+    topCandidate = document.body;
+  }
+  
+  // Merge in siblings that look like part of the same article
+  const parts: Element[] = [];
+  const parent = topCandidate.parentElement;
+  if (parent && topCandidate !== document.body) {
+    const threshold = Math.max(10, topScore * 0.2);
+    for (const sibling of Array.from(parent.children)) {
+      if (sibling === topCandidate) {
+        parts.push(sibling);
+        continue;
+      }
+      if (isBoilerplate(sibling) || isHidden(sibling)) continue;
+      
+      let bonus = 0;
+      if (sibling.className && sibling.className === topCandidate.className) {
+        bonus += topScore * 0.2;
+      }
+      const siblingScore = (scores.get(sibling) || 0) + bonus;
+      const length = textLength(sibling);
+      const density = linkDensity(sibling);
+      if (
+        siblingScore >= threshold ||
+        (sibling.tagName.toLowerCase() === 'p' && ((length > 80 && density < 0.25) ||
+          (length > 0 && density === 0 && /\.( |$)/.test(sibling.textContent || ''))))
+      ) {
+        parts.push(sibling);
+      }
+    }
+  } else {
+    parts.push(topCandidate);
+  }
+  
+  // Copy the content, dropping hidden elements along the way
+  const container = document.createElement('div');
+  for (const part of parts) {
+    const hidden = Array.from(part.querySelectorAll('*')).filter(isHidden);
+    hidden.forEach(el => el.setAttribute(hiddenMarker, ''));
+    const copy = part.cloneNode(true) as Element;
+    hidden.forEach(el => el.removeAttribute(hiddenMarker));
+    copy.querySelectorAll(`[${hiddenMarker}]`).forEach(el => el.remove());
+    container.appendChild(copy);
+  }
+  
+  // Strip boilerplate from the copy
+  container.querySelectorAll('*').forEach(el => {
+    if (container.contains(el) && isBoilerplate(el)) {
+      el.remove();
+    }
+  });
+  
+  // Remove link-heavy or negatively weighted blocks that survived, deepest first
+  const blocks = Array.from(container.querySelectorAll('div, section, ul, ol, table, dl')).reverse();
+  for (const el of blocks) {
+    if (!container.contains(el)) continue;
+    const weight = classWeight(el);
+    const commas = (el.textContent || '').split(',').length - 1;
+    if (commas >= 10) continue;
+    
+    const density = linkDensity(el);
+    const length = textLength(el);
+    const images = el.querySelectorAll('img').length;
+    const isList = el.tagName.toLowerCase() === 'ul' || el.tagName.toLowerCase() === 'ol';
+    
+    if (
+      weight < 0 ||
+      (weight < 25 && density > (isList ? 0.5 : 0.2) && length < 1000) ||
+      (weight >= 25 && density > 0.5) ||
+      (length < 25 && images === 0 && !el.querySelector('pre, code, table'))
+    ) {
+      el.remove();
+    }
+  }
+  
+  return container;
+}
+
+/**
+ * Read article metadata (byline, dates, lead image) from meta tags, JSON-LD
+ * and common markup. Runs inside the page through page.evaluate, so it must
+ * stay self-contained.
+ * @returns The article metadata
+ */
+export function extractArticleMetadata(): ArticleMetadata {
+  const meta = (...names: string[]): string | undefined => {
+    for (const name of names) {
+      const el = document.querySelector(`meta[property="${name}"], meta[name="${name}"], meta[itemprop="${name}"]`);
+      const content = el?.getAttribute('content')?.trim();
+      if (content) return content;
+    }
+    return undefined;
+  };
+  
+  // Collect JSON-LD article objects
+  const linkedData: Record<string, unknown>[] = [];
+  document.querySelectorAll('script[type="application/ld+json"]').forEach(script => {
+    try {
+      const parsed: unknown = JSON.parse(script.textContent || '');
+      const graph = parsed && typeof parsed === 'object' && '@graph' in parsed ? parsed['@graph'] : undefined;
+      const items: unknown[] = Array.isArray(parsed) ? parsed : Array.isArray(graph) ? graph : [parsed];
+      for (const item of items) {
+        if (item && typeof item === 'object' && !Array.isArray(item)) linkedData.push(item as Record<string, unknown>);
+      }
+    } catch {
+      // Ignore malformed JSON-LD
+    }
+  });
+  const article = linkedData.find(item => /Article|Posting|Report|Blog/i.test(String(item['@type'])));
+  
+  const nameOf = (value: unknown): string | undefined => {
+    if (!value) return undefined;
+    if (typeof value === 'string') return value;
+    if (Array.isArray(value)) return value.map(nameOf).filter(Boolean).join(', ') || undefined;
+    return typeof value === 'object' && 'name' in value && typeof value.name === 'string' ? value.name : undefined;
+  };
+  
+  const textOf = (selector: string): string | undefined => {
+    const text = document.querySelector(selector)?.textContent?.replace(/\s+/g, ' ').trim();
+    return text && text.length < 200 ? text : undefined;
+  };
+  
+  const byline = nameOf(article?.author)
+    || meta('author', 'article:author', 'byl', 'dc.creator', 'sailthru.author')
+    || textOf('[rel="author"]')
+    || textOf('[itemprop="author"]')
+    || textOf('.byline, .author, [class*="byline"]');
+  
+  const timeElement = document.querySelector('article time[datetime], time[datetime][pubdate], time[datetime]');
+  const publishedDate = (typeof article?.datePublished === 'string' ? article.datePublished : undefined)
+    || meta('article:published_time', 'datePublished', 'date', 'dc.date', 'dcterms.created', 'pubdate', 'publish-date')
+    || timeElement?.getAttribute('datetime')
+    || undefined;
+  
+  const imageOf = (value: unknown): string | undefined => {
+    if (!value) return undefined;
+    if (typeof value === 'string') return value;
+    if (Array.isArray(value)) return imageOf(value[0]);
+    return typeof value === 'object' && 'url' in value && typeof value.url === 'string' ? value.url : undefined;
+  };
+  const leadImageUrl = meta('og:image', 'og:image:url', 'twitter:image', 'twitter:image:src') || imageOf(article?.image);
+  let leadImage: string | undefined;
+  if (leadImageUrl) {
+    try {
+      leadImage = new URL(leadImageUrl, document.baseURI).href;
+    } catch {
+      leadImage = leadImageUrl;
+    }
+  }
+  
+  return {
+    byline: byline ? byline.replace(/^by\s+/i, '').trim() : undefined,
+    publishedDate,
+    leadImage,
+    excerpt: meta('og:description', 'description', 'twitter:description'),
+    siteName: meta('og:site_name', 'application-name'),
+  };
+}
+
+export default {
+  extractMainContent,
+  extractArticleMetadata,
+};
@@ -0,0 +1,245 @@
+import puppeteer from 'puppeteer';
+import { matchesUrlPattern } from './networkFilter.js';
+
+/**
+ * Conditions to wait for. Waiting ends as soon as any one of them is met.
+ */
+export interface WaitConditions {
+  selector?: string;
+  /** Whether the selector should become visible or hidden; defaults to visible */
+  state?: 'visible' | 'hidden';
+  /** Text that should appear in the page */
+  text?: string;
+  /** URL pattern the page URL should match; * matches any characters, patterns without * match anywhere */
+  urlPattern?: string;
+  /** Wait for a window of this many milliseconds without network requests */
+  networkIdleTime?: number;
+  /** URL pattern of a response to wait for */
+  responseUrlPattern?: string;
+  /** JavaScript expression evaluated in the page until it is truthy */
+  predicate?: string;
+}
+
+/**
+ * Name of a wait condition
+ */
+export type WaitConditionName = 'selector' | 'text' | 'url' | 'networkIdle' | 'response' | 'predicate';
+
+/**
+ * Type for the condition that ended the wait
+ */
+export interface WaitResult {
+  condition: WaitConditionName;
+  /** What was observed, such as the matched URL */
+  detail: string;
+  /** HTTP status of the matched response */
+  status?: number;
+  elapsedMs: number;
+}
+
+/**
+ * Check whether any condition is set
+ * @param conditions The conditions
+ * @returns True if there is something to wait for
+ */
+export function hasWaitCondition(conditions: WaitConditions): boolean {
+  return conditions.selector !== undefined ||
+    conditions.text !== undefined ||
+    conditions.urlPattern !== undefined ||
+    conditions.networkIdleTime !== undefined ||
+    conditions.responseUrlPattern !== undefined ||
+    conditions.predicate !== undefined;
+}
+
+/**
+ * Describe the conditions for log and result messages
+ * @param conditions The conditions
+ * @returns The description, such as selector "#results" to be visible or text "Done"
+ */
+export function describeWaitConditions(conditions: WaitConditions): string {
+  const parts: string[] = [];
+  if (conditions.selector !== undefined) parts.push(`selector "${conditions.selector}" to be ${conditions.state || 'visible'}`);
+  if (conditions.text !== undefined) parts.push(`text "${conditions.text}"`);
+  if (conditions.urlPattern !== undefined) parts.push(`URL matching "${conditions.urlPattern}"`);
+  if (conditions.networkIdleTime !== undefined) parts.push(`${conditions.networkIdleTime}ms of network idle`);
+  if (conditions.responseUrlPattern !== undefined) parts.push(`response matching "${conditions.responseUrlPattern}"`);
+  if (conditions.predicate !== undefined) parts.push(`predicate ${conditions.predicate}`);
+  return parts.join(' or ');
+}
+
+/**
+ * Resolve once the page URL matches a pattern, including URL changes made with pushState
+ */
+function waitForUrl(page: puppeteer.Page, pattern: string, signal: AbortSignal): Promise<string> {
+  return new Promise(resolve => {
+    const check = () => {
+      if (matchesUrlPattern(page.url(), pattern)) {
+        page.off('framenavigated', check);
+        resolve(page.url());
+      }
+    };
+    page.on('framenavigated', check);
+    signal.addEventListener('abort', () => page.off('framenavigated', check));
+    check();
+  });
+}
+
+/**
+ * Resolve once a response whose URL matches a pattern arrives
+ */
+function waitForMatchingResponse(
+  page: puppeteer.Page,
+  pattern: string,
+  signal: AbortSignal
+): Promise<puppeteer.HTTPResponse> {
+  return new Promise(resolve => {
+    const onResponse = (response: puppeteer.HTTPResponse) => {
+      if (matchesUrlPattern(response.url(), pattern)) {
+        page.off('response', onResponse);
+        resolve(response);
+      }
+    };
+    page.on('response', onResponse);
+    signal.addEventListener('abort', () => page.off('response', onResponse));
+  });
+}
+
+/**
+ * Resolve once no request has been in flight for the idle time. Requests that
+ * started before waiting began are not known, as with page.waitForNetworkIdle.
+ */
+function waitForIdleNetwork(page: puppeteer.Page, idleTime: number, signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const inFlight = new Set<puppeteer.HTTPRequest>();
+    let idleTimer: NodeJS.Timeout | undefined;
+    
+    const stop = () => {
+      clearTimeout(idleTimer);
+      page.off('request', onRequest);
+      page.off('requestfinished', onDone);
+      page.off('requestfailed', onDone);
+    };
+    const armIdleTimer = () => {
+      clearTimeout(idleTimer);
+      if (inFlight.size === 0) {
+        idleTimer = setTimeout(() => {
+          stop();
+          resolve();
+        }, idleTime);
+      }
+    };
+    const onRequest = (request: puppeteer.HTTPRequest) => {
+      inFlight.add(request);
+      armIdleTimer();
+    };
+    const onDone = (request: puppeteer.HTTPRequest) => {
+      inFlight.delete(request);
+      armIdleTimer();
+    };
+    
+    page.on('request', onRequest);
+    page.on('requestfinished', onDone);
+    page.on('requestfailed', onDone);
+    signal.addEventListener('abort', stop);
+    armIdleTimer();
+  });
+}
+
+/**
+ * Wait until any of the conditions is met
+ * @param page The page
+ * @param conditions The conditions
+ * @param timeout How long to wait in milliseconds
+ * @returns The condition that was met first
+ * @throws If no condition is met within the timeout, or a condition cannot be checked
+ */
+export async function waitForAnyCondition(
+  page: puppeteer.Page,
+  conditions: WaitConditions,
+  timeout = 30000
+): Promise<WaitResult> {
+  if (!hasWaitCondition(conditions)) {
+    throw new Error('At least one condition to wait for must be provided');
+  }
+  
+  const startedAt = Date.now();
+  const controller = new AbortController();
+  const { signal } = controller;
+  const waiters: Array<Promise<Omit<WaitResult, 'elapsedMs'>>> = [];
+  
+  if (conditions.selector !== undefined) {
+    const state = conditions.state || 'visible';
+    waiters.push(
+      page.waitForSelector(conditions.selector, { visible: state === 'visible', hidden: state === 'hidden', timeout: 0, signal })
+        .then(element => {
+          void element?.dispose();
+          return { condition: 'selector', detail: `"${conditions.selector}" is ${state}` };
+        })
+    );
+  }
+  
+  if (conditions.text !== undefined) {
+    waiters.push(
+      page.waitForFunction(
+        (text: string) => (document.body?.innerText || '').includes(text),
+        { polling: 100, timeout: 0, signal },
+        conditions.text
+      ).then(() => ({ condition: 'text', detail: `"${conditions.text}" appeared` }))
+    );
+  }
+  
+  if (conditions.urlPattern !== undefined) {
+    waiters.push(
+      waitForUrl(page, conditions.urlPattern, signal).then(url => ({ condition: 'url', detail: url }))
+    );
+  }
+  
+  if (conditions.networkIdleTime !== undefined) {
+    const idleTime = conditions.networkIdleTime;
+    waiters.push(
+      waitForIdleNetwork(page, idleTime, signal)
+        .then(() => ({ condition: 'networkIdle', detail: `no requests for ${idleTime}ms` }))
+    );
+  }
+  
+  if (conditions.responseUrlPattern !== undefined) {
+    waiters.push(
+      waitForMatchingResponse(page, conditions.responseUrlPattern, signal)
+        .then(response => ({ condition: 'response', detail: response.url(), status: response.status() }))
+    );
+  }
+  
+  if (conditions.predicate !== undefined) {
+    waiters.push(
+      page.waitForFunction(conditions.predicate, { polling: 100, timeout: 0, signal })
+        .then(handle => {
+          void handle.dispose();
+          return { condition: 'predicate', detail: `${conditions.predicate} is truthy` };
+        })
+    );
+  }
+  
+  let timer: NodeJS.Timeout | undefined;
+  const timedOut = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new Error(`Timed out after ${timeout}ms waiting for ${describeWaitConditions(conditions)}`)),
+      timeout
+    );
+  });
+  
+  try {
+    const result = await Promise.race([...waiters, timedOut]);
+    return { ...result, elapsedMs: Date.now() - startedAt };
+  } finally {
+    clearTimeout(timer);
+    // Stop the conditions that did not fire; their abort rejections are expected
+    controller.abort();
+    waiters.forEach(waiter => waiter.catch(() => {}));
+  }
+}
+
+export default {
+  hasWaitCondition,
+  describeWaitConditions,
+  waitForAnyCondition,
+};
@@ -1,4 +1,8 @@
 // Configuration module that loads settings from environment variables
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { BLOCKABLE_RESOURCE_TYPES, BlockableResourceType } from '../browser/networkFilter.js';
+import { parseDialogPolicy } from '../browser/dialogs.js';
 
 export const Config = {
   server: {
@@ -12,11 +16,30 @@ export const Config = {
     userDataDir: process.env.CHROME_USER_DATA || '',
     debuggingPort: parseInt(process.env.CHROME_DEBUGGING_PORT || '9222', 10),
     debuggingHost: process.env.CHROME_DEBUGGING_HOST || 'localhost',
+    connectExisting: process.env.CHROME_CONNECT_EXISTING === 'true',
+    wsEndpoint: process.env.CHROME_WS_ENDPOINT || '',
     persistentSession: process.env.CHROME_PERSISTENT_SESSION === 'true',
     headless: process.env.BROWSER_HEADLESS === 'true',
     disableSecurity: process.env.BROWSER_DISABLE_SECURITY === 'true',
     windowWidth: parseInt(process.env.BROWSER_WINDOW_WIDTH || '1280', 10),
     windowHeight: parseInt(process.env.BROWSER_WINDOW_HEIGHT || '720', 10),
+    isolateSessions: process.env.BROWSER_ISOLATE_SESSIONS === 'true',
+    sessionTimeoutMinutes: parseInt(process.env.BROWSER_SESSION_TIMEOUT_MINUTES || '30', 10),
+    blockResourceTypes: (process.env.BROWSER_BLOCK_RESOURCE_TYPES || '')
+      .split(',')
+      .map(type => type.trim().toLowerCase())
+      .filter((type): type is BlockableResourceType => (BLOCKABLE_RESOURCE_TYPES as readonly string[]).includes(type)),
+    blockAds: process.env.BROWSER_BLOCK_ADS === 'true',
+    dialogPolicy: parseDialogPolicy(process.env.BROWSER_DIALOG_POLICY),
+    downloadDir: process.env.BROWSER_DOWNLOAD_DIR || join(tmpdir(), 'browser-mcp-downloads'),
+  },
+  search: {
+    provider: (process.env.SEARCH_PROVIDER || 'duckduckgo').toLowerCase(),
+    fallbackProviders: (process.env.SEARCH_FALLBACK_PROVIDERS || 'duckduckgo,bing,searxng,google')
+      .split(',')
+      .map(name => name.trim().toLowerCase())
+      .filter(name => name.length > 0),
+    searxngUrl: process.env.SEARXNG_URL || '',
   },
   ai: {
     provider: (process.env.MCP_MODEL_PROVIDER || 'GEMINI').toUpperCase(),
@@ -35,6 +58,10 @@ export const Config = {
       apiKey: process.env.OPENAI_API_KEY || '',
       modelName: process.env.OPENAI_MODEL_NAME || 'gpt-4o',
     },
+    // Scripted responses for running without an API key
+    mock: {
+      responsesFile: process.env.MOCK_AI_RESPONSES_FILE || '',
+    },
   },
 };
 
@@ -62,6 +89,8 @@ export function validateConfig(): void {
         throw new Error('Missing OpenAI API key. Set OPENAI_API_KEY environment variable.');
       }
       break;
+    case 'MOCK':
+      break;
     default:
       throw new Error(`Unsupported AI provider: ${Config.ai.provider}`);
   }
@@ -36,11 +36,19 @@ async function runExample() {
     userDataDir: '',
     debuggingPort: 9222,
     debuggingHost: 'localhost',
+    connectExisting: false,
+    wsEndpoint: '',
     persistentSession: false,
     headless: false,
     disableSecurity: false,
     windowWidth: 1280,
     windowHeight: 720,
+    isolateSessions: false,
+    sessionTimeoutMinutes: 30,
+    blockResourceTypes: [],
+    blockAds: false,
+    dialogPolicy: 'accept' as const,
+    downloadDir: Config.browser.downloadDir,
   };
   
   const browserManager = new BrowserManager(browserConfig);
@@ -0,0 +1,77 @@
+import { SearchProvider, SearchResultItem } from './searchProvider.js';
+
+/**
+ * Parse the results of a Bing results page.
+ * Runs inside the page, so it must stay self-contained.
+ * @param root The document element of the results page
+ * @param limit The maximum number of results
+ * @returns The search results
+ */
+export function parseBingResults(root: Element, limit: number): SearchResultItem[] {
+  const clean = (text: string | null | undefined): string => (text || '').replace(/\s+/g, ' ').trim();
+  const results: SearchResultItem[] = [];
+  
+  for (const element of Array.from(root.querySelectorAll('#b_results > li.b_algo'))) {
+    if (results.length >= limit) break;
+    
+    const link = element.querySelector('h2 a');
+    const href = link?.getAttribute('href');
+    if (!link || !href) continue;
+    
+    // Tracked links carry the target base64url-encoded in the u parameter, prefixed with "a1"
+    let url: string;
+    try {
+      const parsed = new URL(href, root.ownerDocument.baseURI);
+      const encoded = parsed.searchParams.get('u');
+      if (parsed.hostname.endsWith('bing.com') && parsed.pathname === '/ck/a' && encoded && encoded.startsWith('a1')) {
+        const base64 = encoded.substring(2).replace(/-/g, '+').replace(/_/g, '/');
+        url = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+      } else {
+        url = parsed.href;
+      }
+    } catch {
+      continue;
+    }
+    
+    const title = clean(link.textContent);
+    if (!title) continue;
+    
+    results.push({
+      title,
+      url,
+      snippet: clean(element.querySelector('.b_caption p, .b_lineclamp2, .b_lineclamp3, .b_algoSlug')?.textContent),
+    });
+  }
+  
+  return results;
+}
+
+/**
+ * Detect the Bing CAPTCHA page.
+ * Runs inside the page, so it must stay self-contained.
+ * @param root The document element of the results page
+ * @returns Whether the search was blocked
+ */
+export function isBingBlocked(root: Element): boolean {
+  return root.querySelector('#b_captcha, .b_captcha, form[action*="captcha"]') !== null;
+}
+
+/**
+ * Search provider for Bing
+ */
+export class BingProvider implements SearchProvider {
+  readonly name = 'bing' as const;
+  parseResults = parseBingResults;
+  isBlocked = isBingBlocked;
+  
+  /**
+   * Build the URL of the results page
+   * @param query The search query
+   * @returns The results page URL
+   */
+  buildSearchUrl(query: string): string {
+    return `https://www.bing.com/search?q=${encodeURIComponent(query)}`;
+  }
+}
+
+export default BingProvider;
@@ -0,0 +1,74 @@
+import { SearchProvider, SearchResultItem } from './searchProvider.js';
+
+/**
+ * Parse the results of a DuckDuckGo HTML results page.
+ * Runs inside the page, so it must stay self-contained.
+ * @param root The document element of the results page
+ * @param limit The maximum number of results
+ * @returns The search results
+ */
+export function parseDuckDuckGoResults(root: Element, limit: number): SearchResultItem[] {
+  const clean = (text: string | null | undefined): string => (text || '').replace(/\s+/g, ' ').trim();
+  const results: SearchResultItem[] = [];
+  
+  for (const element of Array.from(root.querySelectorAll('.result'))) {
+    if (results.length >= limit) break;
+    if (element.classList.contains('result--ad')) continue;
+    
+    const link = element.querySelector('a.result__a');
+    const href = link?.getAttribute('href');
+    if (!link || !href) continue;
+    
+    // Result links go through a redirect that carries the target in the uddg parameter
+    let url: string;
+    try {
+      const parsed = new URL(href, root.ownerDocument.baseURI);
+      url = parsed.pathname === '/l/' && parsed.searchParams.get('uddg')
+        ? parsed.searchParams.get('uddg') as string
+        : parsed.href;
+    } catch {
+      continue;
+    }
+    
+    const title = clean(link.textContent);
+    if (!title) continue;
+    
+    results.push({
+      title,
+      url,
+      snippet: clean(element.querySelector('.result__snippet')?.textContent),
+    });
+  }
+  
+  return results;
+}
+
+/**
+ * Detect the DuckDuckGo bot challenge page.
+ * Runs inside the page, so it must stay self-contained.
+ * @param root The document element of the results page
+ * @returns Whether the search was blocked
+ */
+export function isDuckDuckGoBlocked(root: Element): boolean {
+  return root.querySelector('.anomaly-modal__title, .anomaly-modal__modal, form#challenge-form') !== null;
+}
+
+/**
+ * Search provider for the JavaScript-free DuckDuckGo HTML endpoint
+ */
+export class DuckDuckGoProvider implements SearchProvider {
+  readonly name = 'duckduckgo' as const;
+  parseResults = parseDuckDuckGoResults;
+  isBlocked = isDuckDuckGoBlocked;
+  
+  /**
+   * Build the URL of the results page
+   * @param query The search query
+   * @returns The results page URL
+   */
+  buildSearchUrl(query: string): string {
+    return `https://html.duckduckgo.com/html/?q=${encodeURIComponent(query)}`;
+  }
+}
+
+export default DuckDuckGoProvider;
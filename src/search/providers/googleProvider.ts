@@ -0,0 +1,79 @@
+import { SearchProvider, SearchResultItem } from './searchProvider.js';
+
+/**
+ * Parse the results of a Google results page.
+ * Runs inside the page, so it must stay self-contained.
+ * @param root The document element of the results page
+ * @param limit The maximum number of results
+ * @returns The search results
+ */
+export function parseGoogleResults(root: Element, limit: number): SearchResultItem[] {
+  const clean = (text: string | null | undefined): string => (text || '').replace(/\s+/g, ' ').trim();
+  const results: SearchResultItem[] = [];
+  
+  for (const element of Array.from(root.querySelectorAll('#search .g'))) {
+    if (results.length >= limit) break;
+    
+    // Skip containers whose results are listed separately as nested .g elements
+    if (element.querySelector('.g')) continue;
+    
+    const titleElement = element.querySelector('h3');
+    const link = titleElement?.closest('a') || element.querySelector('a');
+    const href = link?.getAttribute('href');
+    if (!titleElement || !href) continue;
+    
+    // Older markup routes result links through /url?q=
+    let url: string;
+    try {
+      const parsed = new URL(href, root.ownerDocument.baseURI);
+      url = parsed.pathname === '/url' && parsed.searchParams.get('q')
+        ? parsed.searchParams.get('q') as string
+        : parsed.href;
+    } catch {
+      continue;
+    }
+    
+    const title = clean(titleElement.textContent);
+    if (!title) continue;
+    
+    results.push({
+      title,
+      url,
+      snippet: clean(element.querySelector('.VwiC3b, [data-sncf], .IsZvec')?.textContent),
+    });
+  }
+  
+  return results;
+}
+
+/**
+ * Detect the Google CAPTCHA and consent pages.
+ * Runs inside the page, so it must stay self-contained.
+ * @param root The document element of the results page
+ * @returns Whether the search was blocked
+ */
+export function isGoogleBlocked(root: Element): boolean {
+  const location = root.ownerDocument.location?.href || '';
+  return /\/sorry\/|consent\.google\./.test(location) ||
+    root.querySelector('#captcha-form, form[action*="/sorry/"], form[action*="consent.google"]') !== null;
+}
+
+/**
+ * Search provider for Google
+ */
+export class GoogleProvider implements SearchProvider {
+  readonly name = 'google' as const;
+  parseResults = parseGoogleResults;
+  isBlocked = isGoogleBlocked;
+  
+  /**
+   * Build the URL of the results page
+   * @param query The search query
+   * @returns The results page URL
+   */
+  buildSearchUrl(query: string): string {
+    return `https://www.google.com/search?q=${encodeURIComponent(query)}&hl=en`;
+  }
+}
+
+export default GoogleProvider;
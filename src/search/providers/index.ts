@@ -0,0 +1,83 @@
+import { Config } from '../../config/index.js';
+import { setupLogger, createContextLogger } from '../../utils/logger.js';
+import { SearchProvider, SearchProviderName, SEARCH_PROVIDER_NAMES } from './searchProvider.js';
+import DuckDuckGoProvider from './duckDuckGoProvider.js';
+import BingProvider from './bingProvider.js';
+import SearxngProvider from './searxngProvider.js';
+import GoogleProvider from './googleProvider.js';
+
+// Logger
+const logger = createContextLogger(setupLogger(), 'SearchProviderFactory');
+
+export { SearchProvider, SearchProviderName, SearchResultItem, SEARCH_PROVIDER_NAMES } from './searchProvider.js';
+
+/**
+ * Factory to create search providers and the order to fall back through them
+ */
+export class SearchProviderFactory {
+  /**
+   * Create a search provider instance
+   * @param name The provider name
+   * @returns An instance of the search provider
+   */
+  static createProvider(name: SearchProviderName): SearchProvider {
+    switch (name) {
+      case 'duckduckgo':
+        return new DuckDuckGoProvider();
+      case 'bing':
+        return new BingProvider();
+      case 'searxng':
+        return new SearxngProvider(Config.search.searxngUrl);
+      case 'google':
+        return new GoogleProvider();
+      default:
+        logger.error(`Unsupported search provider: ${name}`);
+        throw new Error(`Unsupported search provider: ${name}`);
+    }
+  }
+  
+  /**
+   * Get the providers to try, starting with the preferred one.
+   * Providers that are unknown or not configured are skipped.
+   * @param preferred The provider to try first, defaults to the configured provider
+   * @param fallback Whether to fall back to the other providers
+   * @returns The providers in the order to try them
+   * @throws If no provider can be created
+   */
+  static getProviderChain(preferred?: SearchProviderName, fallback = true): SearchProvider[] {
+    const first = preferred || Config.search.provider as SearchProviderName;
+    const chain: SearchProvider[] = [];
+    let firstError: unknown;
+    
+    try {
+      chain.push(SearchProviderFactory.createProvider(first));
+    } catch (error) {
+      firstError = error;
+      logger.warn(`Skipping search provider ${first}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    
+    if (!fallback) {
+      if (firstError) throw firstError;
+      return chain;
+    }
+    
+    for (const name of Config.search.fallbackProviders) {
+      if (name === first || chain.some(provider => provider.name === name)) continue;
+      
+      if (!SEARCH_PROVIDER_NAMES.includes(name as SearchProviderName)) {
+        logger.warn(`Ignoring unknown fallback search provider: ${name}`);
+        continue;
+      }
+      if (name === 'searxng' && !Config.search.searxngUrl) continue;
+      
+      chain.push(SearchProviderFactory.createProvider(name as SearchProviderName));
+    }
+    
+    if (chain.length === 0) {
+      throw new Error(`No search provider is available: ${firstError instanceof Error ? firstError.message : String(firstError)}`);
+    }
+    return chain;
+  }
+}
+
+export default SearchProviderFactory;
@@ -0,0 +1,30 @@
+/**
+ * Names of the supported search providers
+ */
+export type SearchProviderName = 'duckduckgo' | 'bing' | 'searxng' | 'google';
+
+/**
+ * All supported search providers, in the default fallback order
+ */
+export const SEARCH_PROVIDER_NAMES: SearchProviderName[] = ['duckduckgo', 'bing', 'searxng', 'google'];
+
+/**
+ * Type for a search result item
+ */
+export interface SearchResultItem {
+  title: string;
+  url: string;
+  snippet: string;
+}
+
+/**
+ * Common interface for all search providers.
+ * parseResults and isBlocked run inside the page through ElementHandle.evaluate
+ * on the document element, so they must be self-contained functions.
+ */
+export interface SearchProvider {
+  readonly name: SearchProviderName;
+  buildSearchUrl(query: string): string;
+  parseResults: (root: Element, limit: number) => SearchResultItem[];
+  isBlocked: (root: Element) => boolean;
+}
@@ -0,0 +1,82 @@
+import { SearchProvider, SearchResultItem } from './searchProvider.js';
+
+/**
+ * Parse the results of a SearXNG results page.
+ * Runs inside the page, so it must stay self-contained.
+ * @param root The document element of the results page
+ * @param limit The maximum number of results
+ * @returns The search results
+ */
+export function parseSearxngResults(root: Element, limit: number): SearchResultItem[] {
+  const clean = (text: string | null | undefined): string => (text || '').replace(/\s+/g, ' ').trim();
+  const results: SearchResultItem[] = [];
+  
+  for (const element of Array.from(root.querySelectorAll('#urls article.result, #urls div.result'))) {
+    if (results.length >= limit) break;
+    
+    const link = element.querySelector('h3 a, h4 a');
+    const href = link?.getAttribute('href');
+    if (!link || !href) continue;
+    
+    let url: string;
+    try {
+      url = new URL(href, root.ownerDocument.baseURI).href;
+    } catch {
+      continue;
+    }
+    
+    const title = clean(link.textContent);
+    if (!title) continue;
+    
+    results.push({
+      title,
+      url,
+      snippet: clean(element.querySelector('.content')?.textContent),
+    });
+  }
+  
+  return results;
+}
+
+/**
+ * Detect the SearXNG rate limiter page.
+ * Runs inside the page, so it must stay self-contained.
+ * @param root The document element of the results page
+ * @returns Whether the search was blocked
+ */
+export function isSearxngBlocked(root: Element): boolean {
+  return /too many requests/i.test(root.querySelector('title')?.textContent || '');
+}
+
+/**
+ * Search provider for a SearXNG instance
+ */
+export class SearxngProvider implements SearchProvider {
+  readonly name = 'searxng' as const;
+  parseResults = parseSearxngResults;
+  isBlocked = isSearxngBlocked;
+  private baseUrl: string;
+  
+  /**
+   * Constructor
+   * @param baseUrl The base URL of the SearXNG instance
+   */
+  constructor(baseUrl: string) {
+    if (!baseUrl) {
+      throw new Error('No SearXNG instance configured. Set the SEARXNG_URL environment variable.');
+    }
+    
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+  
+  /**
+   * Build the URL of the results page
+   * @param query The search query
+   * @returns The results page URL
+   */
+  buildSearchUrl(query: string): string {
+    return `${this.baseUrl}/search?q=${encodeURIComponent(query)}&categories=general`;
+  }
+}
+
+export default SearxngProvider;
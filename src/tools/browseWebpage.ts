@@ -1,5 +1,7 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { BrowserManager } from '../browser/browserManager.js';
+import { elementToMarkdown } from '../browser/domToMarkdown.js';
+import { extractMainContent, extractArticleMetadata } from '../browser/readability.js';
 import { z } from 'zod';
 import { setupLogger, createContextLogger } from '../utils/logger.js';
 
@@ -12,14 +14,18 @@ const logger = createContextLogger(setupLogger(), 'BrowseWebpageTool');
 const BrowseWebpageInputSchema = z.object({
   url: z.string().url('A valid URL is required'),
   waitForSelector: z.string().optional(),
+  outputFormat: z.enum(['text', 'markdown', 'html']).default('text').optional(),
+  mainContentOnly: z.boolean().default(true).optional(),
+  includeErrors: z.boolean().default(true).optional(),
   timeout: z.number().optional(),
   sessionId: z.string().optional(),
+  isolated: z.boolean().optional(),
 });
 
 /**
  * Type for browse webpage tool input
  */
-type BrowseWebpageInput = z.infer<typeof BrowseWebpageInputSchema>;
+export type BrowseWebpageInput = z.infer<typeof BrowseWebpageInputSchema>;
 
 /**
  * Output schema for browse webpage tool
@@ -28,13 +34,128 @@ const BrowseWebpageOutputSchema = z.object({
   title: z.string(),
   url: z.string(),
   content: z.string(),
+  format: z.enum(['text', 'markdown', 'html']),
+  byline: z.string().optional(),
+  publishedDate: z.string().optional(),
+  leadImage: z.string().optional(),
+  excerpt: z.string().optional(),
+  wordCount: z.number(),
+  errors: z.array(z.object({
+    source: z.enum(['console', 'pageerror', 'network']),
+    text: z.string(),
+    url: z.string().optional(),
+  })).optional(),
   sessionId: z.string(),
 });
 
 /**
  * Type for browse webpage tool output
  */
-type BrowseWebpageOutput = z.infer<typeof BrowseWebpageOutputSchema>;
+export type BrowseWebpageOutput = z.infer<typeof BrowseWebpageOutputSchema>;
+
+/**
+ * Navigate to a webpage and extract its content
+ * @param browserManager The browser manager instance
+ * @param params The tool input
+ * @returns The tool output
+ */
+export async function browseWebpage(
+  browserManager: BrowserManager,
+  params: BrowseWebpageInput
+): Promise<BrowseWebpageOutput> {
+  logger.info(`Browsing webpage: ${params.url}`);
+  
+  try {
+    // Get page from browser manager
+    const { page, sessionId } = await browserManager.getPage(params.sessionId, { isolated: params.isolated });
+    const consoleCursor = browserManager.getConsoleCursor(sessionId);
+    
+    // Navigate to the URL
+    const timeout = params.timeout || 30000;
+    const response = await page.goto(params.url, {
+      waitUntil: 'networkidle2',
+      timeout,
+    });
+    
+    if (!response) {
+      throw new Error(`Failed to load: ${params.url}`);
+    }
+    
+    if (!response.ok()) {
+      throw new Error(`HTTP error: ${response.status()} ${response.statusText()}`);
+    }
+    
+    // Wait for selector if specified
+    if (params.waitForSelector) {
+      await page.waitForSelector(params.waitForSelector, { timeout });
+    }
+    
+    // Extract page information
+    const title = await page.title();
+    const currentUrl = page.url();
+    
+    // Find the main content of the page, stripped of navigation and other boilerplate
+    const contentElement = params.mainContentOnly === false
+      ? await page.evaluateHandle(() => document.body)
+      : await page.evaluateHandle(extractMainContent);
+    const metadata = await page.evaluate(extractArticleMetadata);
+    
+    // Extract content in the requested format
+    const format = params.outputFormat || 'text';
+    let content: string;
+    
+    if (format === 'markdown') {
+      content = await contentElement.evaluate(elementToMarkdown);
+    } else if (format === 'html') {
+      content = await contentElement.evaluate(el => el.outerHTML);
+    } else {
+      const text = await contentElement.evaluate(el => el.textContent || '');
+      
+      // Clean up the content
+      content = text
+        .replace(/\s+/g, ' ')
+        .trim();
+    }
+    
+    // Count words and fall back to the first content image for the lead image
+    const { wordCount, firstImage } = await contentElement.evaluate(el => ({
+      wordCount: (el.textContent || '').split(/\s+/).filter(word => word.length > 0).length,
+      firstImage: (el.querySelector('img') as HTMLImageElement | null)?.src || undefined,
+    }));
+    await contentElement.dispose();
+    
+    // Record the visit in the session history
+    const history = browserManager.getSessionData(sessionId)?.data.history || [];
+    browserManager.updateSessionData(sessionId, {
+      history: [...history, { url: currentUrl, title, visitedAt: new Date().toISOString() }].slice(-50),
+    });
+    
+    // Report errors the page raised while loading
+    const errors = params.includeErrors === false
+      ? []
+      : browserManager.getConsoleLogs(sessionId, { minLevel: 'error', sinceId: consoleCursor, limit: 20 }).entries
+        .map(({ source, text, url }) => ({ source, text, url }));
+    
+    logger.info(`Successfully browsed webpage: ${params.url}`);
+    
+    return {
+      title,
+      url: currentUrl,
+      content,
+      format,
+      byline: metadata.byline,
+      publishedDate: metadata.publishedDate,
+      leadImage: metadata.leadImage || firstImage,
+      excerpt: metadata.excerpt,
+      wordCount,
+      errors: errors.length > 0 ? errors : undefined,
+      sessionId,
+    };
+  } catch (error) {
+    logger.error(`Error browsing webpage: ${error instanceof Error ? error.message : String(error)}`);
+    throw error;
+  }
+}
 
 /**
  * Register the browse webpage tool with the MCP server
@@ -49,88 +170,14 @@ export function registerBrowseWebpageTool(
   
   server.registerToolDefinition({
     name: 'browse_webpage',
-    description: 'Navigate to a webpage and extract its content',
+    description: 'Navigate to a webpage and extract its content as plain text, Markdown or HTML; ' +
+      'set isolated when starting a session to give it its own cookies and storage',
     parameters: BrowseWebpageInputSchema,
   });
   
   server.registerToolImplementation({
     name: 'browse_webpage',
-    handler: async (params: BrowseWebpageInput): Promise<BrowseWebpageOutput> => {
-      logger.info(`Browsing webpage: ${params.url}`);
-      
-      try {
-        // Get page from browser manager
-        const { page, sessionId } = await browserManager.getPage(params.sessionId);
-        
-        // Navigate to the URL
-        const timeout = params.timeout || 30000;
-        const response = await page.goto(params.url, {
-          waitUntil: 'networkidle2',
-          timeout,
-        });
-        
-        if (!response) {
-          throw new Error(`Failed to load: ${params.url}`);
-        }
-        
-        if (!response.ok()) {
-          throw new Error(`HTTP error: ${response.status()} ${response.statusText()}`);
-        }
-        
-        // Wait for selector if specified
-        if (params.waitForSelector) {
-          await page.waitForSelector(params.waitForSelector, { timeout });
-        }
-        
-        // Extract page information
-        const title = await page.title();
-        const currentUrl = page.url();
-        
-        // Extract content from the page
-        const content = await page.evaluate(() => {
-          // Main content selectors to try
-          const mainSelectors = [
-            'main',
-            'article',
-            '#main',
-            '#content',
-            '.main',
-            '.content',
-            '.article',
-          ];
-          
-          // Try to find main content
-          for (const selector of mainSelectors) {
-            const element = document.querySelector(selector);
-            if (element && element.textContent && element.textContent.trim().length > 500) {
-              return element.textContent.trim();
-            }
-          }
-          
-          // Fallback to body content
-          const bodyText = document.body.textContent || '';
-          return bodyText.trim();
-        });
-        
-        // Clean up the content
-        const cleanedContent = content
-          .replace(/\\s+/g, ' ')
-          .replace(/\\n+/g, '\\n')
-          .trim();
-        
-        logger.info(`Successfully browsed webpage: ${params.url}`);
-        
-        return {
-          title,
-          url: currentUrl,
-          content: cleanedContent,
-          sessionId,
-        };
-      } catch (error) {
-        logger.error(`Error browsing webpage: ${error instanceof Error ? error.message : String(error)}`);
-        throw error;
-      }
-    },
+    handler: async (params: BrowseWebpageInput): Promise<BrowseWebpageOutput> => browseWebpage(browserManager, params),
   });
 }
 
@@ -1,5 +1,8 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { BrowserManager } from '../browser/browserManager.js';
+import { getElementByIndex } from '../browser/interactiveElements.js';
+import { settleAfterAction, describeChanges, ActionChanges } from '../browser/actionSettler.js';
+import { waitForElement, describeFrame, FrameInfo } from '../browser/elementLocator.js';
 import { z } from 'zod';
 import { setupLogger, createContextLogger } from '../utils/logger.js';
 
@@ -12,22 +15,25 @@ const logger = createContextLogger(setupLogger(), 'ClickElementTool');
 const ClickElementInputSchema = z.object({
   text: z.string().optional(),
   selector: z.string().optional(),
+  elementIndex: z.number().int().min(0).optional(),
   index: z.number().min(0).default(0).optional(),
   waitForNavigation: z.boolean().default(true).optional(),
+  switchToNewTab: z.boolean().default(false).optional(),
+  includeErrors: z.boolean().default(true).optional(),
   timeout: z.number().min(1000).default(30000).optional(),
   sessionId: z.string().optional(),
 }).refine(
-  data => data.text !== undefined || data.selector !== undefined,
+  data => data.text !== undefined || data.selector !== undefined || data.elementIndex !== undefined,
   {
-    message: 'Either text or selector must be provided',
-    path: ['text', 'selector'],
+    message: 'Either text, selector or elementIndex must be provided',
+    path: ['text', 'selector', 'elementIndex'],
   }
 );
 
 /**
  * Type for click element tool input
  */
-type ClickElementInput = z.infer<typeof ClickElementInputSchema>;
+export type ClickElementInput = z.infer<typeof ClickElementInputSchema>;
 
 /**
  * Output schema for click element tool
@@ -37,13 +43,197 @@ const ClickElementOutputSchema = z.object({
   message: z.string(),
   newUrl: z.string().optional(),
   newTitle: z.string().optional(),
+  frame: z.object({
+    url: z.string(),
+    name: z.string(),
+    isMainFrame: z.boolean(),
+  }).optional(),
+  newTab: z.object({
+    tabId: z.string(),
+    url: z.string(),
+    title: z.string(),
+  }).optional(),
+  changes: z.object({
+    navigated: z.boolean(),
+    urlChanged: z.boolean(),
+    previousUrl: z.string().optional(),
+    domMutations: z.number(),
+    requests: z.number(),
+    pendingRequests: z.number(),
+    dialogOpened: z.boolean(),
+    dialog: z.object({
+      type: z.string(),
+      message: z.string(),
+      action: z.enum(['accepted', 'dismissed', 'pending']),
+    }).optional(),
+    settled: z.boolean(),
+    elapsedMs: z.number(),
+  }).optional(),
+  downloads: z.array(z.object({
+    id: z.string(),
+    fileName: z.string(),
+    mimeType: z.string(),
+    state: z.enum(['inProgress', 'completed', 'canceled']),
+  })).optional(),
+  errors: z.array(z.object({
+    source: z.enum(['console', 'pageerror', 'network']),
+    text: z.string(),
+    url: z.string().optional(),
+  })).optional(),
   sessionId: z.string(),
 });
 
 /**
  * Type for click element tool output
  */
-type ClickElementOutput = z.infer<typeof ClickElementOutputSchema>;
+export type ClickElementOutput = z.infer<typeof ClickElementOutputSchema>;
+
+/**
+ * Click on an element by text content, CSS selector or element index
+ * @param browserManager The browser manager instance
+ * @param params The tool input
+ * @returns The tool output
+ */
+export async function clickElement(
+  browserManager: BrowserManager,
+  params: ClickElementInput
+): Promise<ClickElementOutput> {
+  const selectorInfo = params.elementIndex !== undefined
+    ? `element index ${params.elementIndex}`
+    : params.text 
+      ? `text "${params.text}"` 
+      : `selector "${params.selector}"`;
+  
+  logger.info(`Clicking element with ${selectorInfo}`);
+  
+  try {
+    // Get page from browser manager
+    const { page, sessionId } = await browserManager.getPage(params.sessionId);
+    const consoleCursor = browserManager.getConsoleCursor(sessionId);
+    const downloadCount = browserManager.listDownloads(sessionId).downloads.length;
+    
+    // Navigate to the URL (fallback to current url if not specified)
+    let element;
+    let frame: FrameInfo | undefined;
+    const timeout = params.timeout || 30000;
+    
+    if (params.elementIndex !== undefined) {
+      // Find element from the interactive element map
+      element = await getElementByIndex(page, params.elementIndex);
+    } else if (params.text) {
+      // Find element by text content
+      await page.waitForFunction(
+        (text) => {
+          const elements = [...document.querySelectorAll('a, button, [role="button"], input[type="submit"], input[type="button"]')];
+          return elements.some(el => el.textContent && el.textContent.trim().includes(text));
+        },
+        { timeout },
+        params.text
+      );
+      
+      // Get all matching elements
+      const elements = await page.evaluateHandle((text) => {
+        const matches = [];
+        const allElements = document.querySelectorAll('a, button, [role="button"], input[type="submit"], input[type="button"]');
+        
+        allElements.forEach(el => {
+          if (el.textContent && el.textContent.trim().includes(text)) {
+            matches.push(el);
+          }
+        });
+        
+        return matches;
+      }, params.text);
+      
+      // Get the element at the specified index
+      const index = params.index || 0;
+      const elementHandle = await elements.evaluateHandle((elements, idx) => elements[idx], index);
+      
+      if ((await elementHandle.evaluate(el => el === undefined || el === null))) {
+        throw new Error(`Element with text "${params.text}" at index ${index} not found`);
+      }
+      
+      element = elementHandle;
+    } else if (params.selector) {
+      // Find element by selector in any frame, including inside open shadow roots
+      const located = await waitForElement(page, params.selector, params.index || 0, timeout);
+      element = located.element;
+      frame = located.frameInfo;
+    } else {
+      throw new Error('Either text, selector or elementIndex must be provided');
+    }
+    
+    // Click the element and wait for the page to settle, returning early if nothing happens,
+    // watching for a tab or popup opened by the click until then
+    const clickTarget = element;
+    const click = () => clickTarget.click();
+    const stopWatchingTabs = browserManager.watchForNewTab(sessionId);
+    const changes: ActionChanges = await settleAfterAction(page, click, {
+      timeout,
+      // Without waiting for navigation, still wait briefly so dialogs and tabs opened by the click are reported
+      maxQuietWait: params.waitForNavigation ? undefined : 1000,
+      waitForNavigation: Boolean(params.waitForNavigation),
+      dialogPolicy: browserManager.getDialogPolicy(sessionId),
+    });
+    
+    // Report the new tab, switching to it if requested
+    let newTab;
+    const newTabId = stopWatchingTabs();
+    if (newTabId) {
+      const tab = params.switchToNewTab
+        ? await browserManager.switchTab(sessionId, newTabId)
+        : (await browserManager.listTabs(sessionId)).find(t => t.tabId === newTabId);
+      if (tab) {
+        newTab = { tabId: tab.tabId, url: tab.url, title: tab.title };
+      }
+    }
+    
+    // Get updated page info
+    const activePage = newTab && params.switchToNewTab
+      ? (await browserManager.getPage(sessionId)).page
+      : page;
+    const newUrl = activePage.url();
+    const newTitle = changes.dialog?.action === 'pending' && activePage === page ? undefined : await activePage.title();
+    
+    // Report errors the page raised in response to the click
+    const errors = params.includeErrors === false
+      ? []
+      : browserManager.getConsoleLogs(sessionId, { minLevel: 'error', sinceId: consoleCursor, limit: 20 }).entries
+        .map(({ source, text, url }) => ({ source, text, url }));
+    
+    // Report files the click started downloading; get_download returns their content
+    const downloads = browserManager.listDownloads(sessionId).downloads.slice(downloadCount)
+      .map(({ id, fileName, mimeType, state }) => ({ id, fileName, mimeType, state }));
+    
+    logger.info(`Successfully clicked element with ${selectorInfo}`);
+    
+    const details = `; ${describeChanges(changes)}` +
+      (downloads.length > 0 ? `; started downloading ${downloads.map(download => download.fileName).join(', ')}` : '');
+    
+    return {
+      success: true,
+      message: newTab
+        ? `Successfully clicked element with ${selectorInfo}; it opened a new tab ${newTab.tabId} (${newTab.url})${details}`
+        : `Successfully clicked element with ${selectorInfo}${frame && !frame.isMainFrame ? ` in ${describeFrame(frame)}` : ''}${details}`,
+      newUrl,
+      newTitle,
+      frame,
+      newTab,
+      changes,
+      downloads: downloads.length > 0 ? downloads : undefined,
+      errors: errors.length > 0 ? errors : undefined,
+      sessionId,
+    };
+  } catch (error) {
+    logger.error(`Error clicking element: ${error instanceof Error ? error.message : String(error)}`);
+    
+    return {
+      success: false,
+      message: `Failed to click element: ${error instanceof Error ? error.message : String(error)}`,
+      sessionId: params.sessionId || '',
+    };
+  }
+}
 
 /**
  * Register the click element tool with the MCP server
@@ -58,117 +248,17 @@ export function registerClickElementTool(
   
   server.registerToolDefinition({
     name: 'click_element',
-    description: 'Click on an element on the webpage by text content or CSS selector',
+    description: 'Click on an element on the webpage by text content, CSS selector or index from get_interactive_elements; ' +
+      'selectors also match inside iframes and open shadow roots and can be frame-qualified, as in ' +
+      '"iframe#checkout >> button.pay"; ' +
+      'waits until the page settles (a navigation loads, requests finish and the DOM stops changing) and reports what changed, ' +
+      'including files the click started downloading',
     parameters: ClickElementInputSchema,
   });
   
   server.registerToolImplementation({
     name: 'click_element',
-    handler: async (params: ClickElementInput): Promise<ClickElementOutput> => {
-      const selectorInfo = params.text 
-        ? `text "${params.text}"` 
-        : `selector "${params.selector}"`;
-      
-      logger.info(`Clicking element with ${selectorInfo}`);
-      
-      try {
-        // Get page from browser manager
-        const { page, sessionId } = await browserManager.getPage(params.sessionId);
-        
-        // Navigate to the URL (fallback to current url if not specified)
-        let element;
-        const timeout = params.timeout || 30000;
-        
-        if (params.text) {
-          // Find element by text content
-          await page.waitForFunction(
-            (text) => {
-              const elements = [...document.querySelectorAll('a, button, [role="button"], input[type="submit"], input[type="button"]')];
-              return elements.some(el => el.textContent && el.textContent.trim().includes(text));
-            },
-            { timeout },
-            params.text
-          );
-          
-          // Get all matching elements
-          const elements = await page.evaluateHandle((text) => {
-            const matches = [];
-            const allElements = document.querySelectorAll('a, button, [role="button"], input[type="submit"], input[type="button"]');
-            
-            allElements.forEach(el => {
-              if (el.textContent && el.textContent.trim().includes(text)) {
-                matches.push(el);
-              }
-            });
-            
-            return matches;
-          }, params.text);
-          
-          // Get the element at the specified index
-          const index = params.index || 0;
-          const elementHandle = await elements.evaluateHandle((elements, idx) => elements[idx], index);
-          
-          if ((await elementHandle.evaluate(el => el === undefined || el === null))) {
-            throw new Error(`Element with text "${params.text}" at index ${index} not found`);
-          }
-          
-          element = elementHandle;
-        } else if (params.selector) {
-          // Find element by selector
-          await page.waitForSelector(params.selector, { timeout });
-          
-          // Get all matching elements
-          const elements = await page.$$(params.selector);
-          const index = params.index || 0;
-          
-          if (index >= elements.length) {
-            throw new Error(`Element with selector "${params.selector}" at index ${index} not found`);
-          }
-          
-          element = elements[index];
-        } else {
-          throw new Error('Either text or selector must be provided');
-        }
-        
-        // Setup navigation promise if waiting for navigation
-        let navigationPromise;
-        if (params.waitForNavigation) {
-          navigationPromise = page.waitForNavigation({ timeout });
-        }
-        
-        // Click the element
-        await element.click();
-        
-        // Wait for navigation if enabled
-        if (navigationPromise) {
-          await navigationPromise.catch(() => {
-            logger.warn('Navigation did not occur after click');
-          });
-        }
-        
-        // Get updated page info
-        const newUrl = page.url();
-        const newTitle = await page.title();
-        
-        logger.info(`Successfully clicked element with ${selectorInfo}`);
-        
-        return {
-          success: true,
-          message: `Successfully clicked element with ${selectorInfo}`,
-          newUrl,
-          newTitle,
-          sessionId,
-        };
-      } catch (error) {
-        logger.error(`Error clicking element: ${error instanceof Error ? error.message : String(error)}`);
-        
-        return {
-          success: false,
-          message: `Failed to click element: ${error instanceof Error ? error.message : String(error)}`,
-          sessionId: params.sessionId || '',
-        };
-      }
-    },
+    handler: async (params: ClickElementInput): Promise<ClickElementOutput> => clickElement(browserManager, params),
   });
 }
 
@@ -0,0 +1,76 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { BrowserManager } from '../browser/browserManager.js';
+import { z } from 'zod';
+import { setupLogger, createContextLogger } from '../utils/logger.js';
+
+// Logger
+const logger = createContextLogger(setupLogger(), 'CloseSessionTool');
+
+/**
+ * Input schema for close session tool
+ */
+const CloseSessionInputSchema = z.object({
+  sessionId: z.string().min(1, 'A session ID is required'),
+});
+
+/**
+ * Type for close session tool input
+ */
+type CloseSessionInput = z.infer<typeof CloseSessionInputSchema>;
+
+/**
+ * Output schema for close session tool
+ */
+const CloseSessionOutputSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  sessionId: z.string(),
+});
+
+/**
+ * Type for close session tool output
+ */
+type CloseSessionOutput = z.infer<typeof CloseSessionOutputSchema>;
+
+/**
+ * Register the close session tool with the MCP server
+ * @param server The MCP server instance
+ * @param browserManager The browser manager instance
+ */
+export function registerCloseSessionTool(
+  server: Server,
+  browserManager: BrowserManager
+): void {
+  logger.info('Registering close_session tool');
+  
+  server.registerToolDefinition({
+    name: 'close_session',
+    description: 'Close a browser session and its page',
+    parameters: CloseSessionInputSchema,
+  });
+  
+  server.registerToolImplementation({
+    name: 'close_session',
+    handler: async (params: CloseSessionInput): Promise<CloseSessionOutput> => {
+      logger.info(`Closing session ${params.sessionId}`);
+      
+      if (!browserManager.hasSession(params.sessionId)) {
+        return {
+          success: false,
+          message: `Session ${params.sessionId} not found`,
+          sessionId: params.sessionId,
+        };
+      }
+      
+      await browserManager.closePage(params.sessionId);
+      
+      return {
+        success: true,
+        message: `Closed session ${params.sessionId}`,
+        sessionId: params.sessionId,
+      };
+    },
+  });
+}
+
+export default registerCloseSessionTool;
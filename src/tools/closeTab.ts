@@ -0,0 +1,82 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { BrowserManager } from '../browser/browserManager.js';
+import { z } from 'zod';
+import { setupLogger, createContextLogger } from '../utils/logger.js';
+
+// Logger
+const logger = createContextLogger(setupLogger(), 'CloseTabTool');
+
+/**
+ * Input schema for close tab tool
+ */
+const CloseTabInputSchema = z.object({
+  tabId: z.string().min(1, 'A tab ID is required'),
+  sessionId: z.string().min(1, 'A session ID is required'),
+});
+
+/**
+ * Type for close tab tool input
+ */
+type CloseTabInput = z.infer<typeof CloseTabInputSchema>;
+
+/**
+ * Output schema for close tab tool
+ */
+const CloseTabOutputSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  sessionClosed: z.boolean(),
+  sessionId: z.string(),
+});
+
+/**
+ * Type for close tab tool output
+ */
+type CloseTabOutput = z.infer<typeof CloseTabOutputSchema>;
+
+/**
+ * Register the close tab tool with the MCP server
+ * @param server The MCP server instance
+ * @param browserManager The browser manager instance
+ */
+export function registerCloseTabTool(
+  server: Server,
+  browserManager: BrowserManager
+): void {
+  logger.info('Registering close_tab tool');
+  
+  server.registerToolDefinition({
+    name: 'close_tab',
+    description: 'Close a single tab of a browser session. Closing the last tab ends the session',
+    parameters: CloseTabInputSchema,
+  });
+  
+  server.registerToolImplementation({
+    name: 'close_tab',
+    handler: async (params: CloseTabInput): Promise<CloseTabOutput> => {
+      logger.info(`Closing tab ${params.tabId} of session ${params.sessionId}`);
+      
+      try {
+        await browserManager.closeTab(params.sessionId, params.tabId);
+        
+        return {
+          success: true,
+          message: `Closed tab ${params.tabId}`,
+          sessionClosed: !browserManager.hasSession(params.sessionId),
+          sessionId: params.sessionId,
+        };
+      } catch (error) {
+        logger.error(`Error closing tab: ${error instanceof Error ? error.message : String(error)}`);
+        
+        return {
+          success: false,
+          message: `Failed to close tab: ${error instanceof Error ? error.message : String(error)}`,
+          sessionClosed: false,
+          sessionId: params.sessionId,
+        };
+      }
+    },
+  });
+}
+
+export default registerCloseTabTool;
@@ -0,0 +1,218 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import puppeteer from 'puppeteer';
+import { BrowserManager } from '../browser/browserManager.js';
+import { resolveTarget, describeTarget, hasTarget, ResolvedTarget } from '../browser/elementTarget.js';
+import { settleAfterAction, describeChanges } from '../browser/actionSettler.js';
+import { z } from 'zod';
+import { setupLogger, createContextLogger } from '../utils/logger.js';
+
+// Logger
+const logger = createContextLogger(setupLogger(), 'DragAndDropTool');
+
+/**
+ * Schema for the element or point to drag from or drop onto
+ */
+const DragTargetSchema = z.object({
+  selector: z.string().optional(),
+  text: z.string().optional(),
+  elementIndex: z.number().int().min(0).optional(),
+  index: z.number().min(0).default(0).optional(),
+  x: z.number().optional(),
+  y: z.number().optional(),
+}).refine(
+  data => hasTarget(data),
+  {
+    message: 'Either text, selector, elementIndex or x and y must be provided',
+    path: ['text', 'selector', 'elementIndex', 'x', 'y'],
+  }
+);
+
+/**
+ * Input schema for drag and drop tool
+ */
+const DragAndDropInputSchema = z.object({
+  source: DragTargetSchema,
+  target: DragTargetSchema,
+  steps: z.number().int().min(1).max(100).default(10).optional(),
+  timeout: z.number().min(1000).default(30000).optional(),
+  sessionId: z.string().optional(),
+});
+
+/**
+ * Type for drag and drop tool input
+ */
+export type DragAndDropInput = z.infer<typeof DragAndDropInputSchema>;
+
+/**
+ * Output schema for drag and drop tool
+ */
+const DragAndDropOutputSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  mode: z.enum(['html5', 'mouse']).optional(),
+  changes: z.object({
+    navigated: z.boolean(),
+    urlChanged: z.boolean(),
+    previousUrl: z.string().optional(),
+    domMutations: z.number(),
+    requests: z.number(),
+    pendingRequests: z.number(),
+    dialogOpened: z.boolean(),
+    dialog: z.object({
+      type: z.string(),
+      message: z.string(),
+      action: z.enum(['accepted', 'dismissed', 'pending']),
+    }).optional(),
+    settled: z.boolean(),
+    elapsedMs: z.number(),
+  }).optional(),
+  sessionId: z.string(),
+});
+
+/**
+ * Type for drag and drop tool output
+ */
+export type DragAndDropOutput = z.infer<typeof DragAndDropOutputSchema>;
+
+/**
+ * Scroll the page so the source and target elements are both in the viewport, or
+ * center the source if they are too far apart to fit, and measure them again
+ * @param page The page
+ * @param source The resolved source
+ * @param target The resolved target
+ * @returns The points to drag from and to, in CSS pixels relative to the viewport
+ */
+async function dragPoints(
+  page: puppeteer.Page,
+  source: ResolvedTarget,
+  target: ResolvedTarget
+): Promise<{ start: puppeteer.Point; end: puppeteer.Point }> {
+  const sourceBox = await source.element?.boundingBox();
+  const targetBox = await target.element?.boundingBox();
+  
+  if (sourceBox && targetBox) {
+    await page.evaluate((from, to) => {
+      const inView = (box: typeof from) =>
+        box.x >= 0 && box.y >= 0 && box.x + box.width <= window.innerWidth && box.y + box.height <= window.innerHeight;
+      if (inView(from) && inView(to)) {
+        return;
+      }
+      
+      // Center both boxes together along an axis, or the source alone if they do not fit
+      const offset = (fromStart: number, fromSize: number, toStart: number, toSize: number, viewport: number) => {
+        const first = Math.min(fromStart, toStart);
+        const last = Math.max(fromStart + fromSize, toStart + toSize);
+        const center = last - first <= viewport ? (first + last) / 2 : fromStart + fromSize / 2;
+        return center - viewport / 2;
+      };
+      window.scrollBy(
+        offset(from.x, from.width, to.x, to.width, window.innerWidth),
+        offset(from.y, from.height, to.y, to.height, window.innerHeight)
+      );
+    }, sourceBox, targetBox);
+  }
+  
+  const centerOf = async (resolved: ResolvedTarget): Promise<puppeteer.Point> => {
+    const box = await resolved.element?.boundingBox();
+    return box ? { x: box.x + box.width / 2, y: box.y + box.height / 2 } : { x: resolved.x, y: resolved.y };
+  };
+  
+  return { start: await centerOf(source), end: await centerOf(target) };
+}
+
+/**
+ * Drag an element or point onto another element or point. Elements that use
+ * the HTML5 drag and drop API (draggable) get native drag events; everything
+ * else, such as sortable lists built on mouse events, gets a mouse drag in steps.
+ * @param browserManager The browser manager instance
+ * @param params The tool input
+ * @returns The tool output
+ */
+export async function dragAndDrop(
+  browserManager: BrowserManager,
+  params: DragAndDropInput
+): Promise<DragAndDropOutput> {
+  const dragInfo = `${describeTarget(params.source)} to ${describeTarget(params.target)}`;
+  
+  logger.info(`Dragging ${dragInfo}`);
+  
+  try {
+    // Get page from browser manager
+    const { page, sessionId } = await browserManager.getPage(params.sessionId);
+    const timeout = params.timeout || 30000;
+    
+    const source = await resolveTarget(page, params.source, timeout);
+    const target = await resolveTarget(page, params.target, timeout);
+    
+    // Resolving the target may have scrolled the source out of view
+    const { start, end } = await dragPoints(page, source, target);
+    
+    const html5 = source.element
+      ? await source.element.evaluate(el => el.closest('[draggable="true"]') !== null)
+      : false;
+    
+    const changes = await settleAfterAction(page, async () => {
+      if (html5) {
+        // Native drag events are only dispatched while drag interception is enabled
+        await page.setDragInterception(true);
+        try {
+          await page.mouse.dragAndDrop(start, end, { delay: 50 });
+        } finally {
+          await page.setDragInterception(false);
+        }
+      } else {
+        await page.mouse.move(start.x, start.y);
+        await page.mouse.down();
+        await page.mouse.move(end.x, end.y, { steps: params.steps || 10 });
+        await page.mouse.up();
+      }
+    }, { timeout, dialogPolicy: browserManager.getDialogPolicy(sessionId) });
+    
+    await source.element?.dispose();
+    await target.element?.dispose();
+    
+    logger.info(`Successfully dragged ${dragInfo}`);
+    
+    return {
+      success: true,
+      message: `Dragged ${dragInfo}; ${describeChanges(changes)}`,
+      mode: html5 ? 'html5' : 'mouse',
+      changes,
+      sessionId,
+    };
+  } catch (error) {
+    logger.error(`Error dragging element: ${error instanceof Error ? error.message : String(error)}`);
+    
+    return {
+      success: false,
+      message: `Failed to drag element: ${error instanceof Error ? error.message : String(error)}`,
+      sessionId: params.sessionId || '',
+    };
+  }
+}
+
+/**
+ * Register the drag and drop tool with the MCP server
+ * @param server The MCP server instance
+ * @param browserManager The browser manager instance
+ */
+export function registerDragAndDropTool(
+  server: Server,
+  browserManager: BrowserManager
+): void {
+  logger.info('Registering drag_and_drop tool');
+  
+  server.registerToolDefinition({
+    name: 'drag_and_drop',
+    description: 'Drag an element onto another element, for sortable lists, sliders and kanban boards; ' +
+      'source and target are each found by selector, text, element index or x/y coordinates',
+    parameters: DragAndDropInputSchema,
+  });
+  
+  server.registerToolImplementation({
+    name: 'drag_and_drop',
+    handler: async (params: DragAndDropInput): Promise<DragAndDropOutput> => dragAndDrop(browserManager, params),
+  });
+}
+
+export default registerDragAndDropTool;
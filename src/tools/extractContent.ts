@@ -1,5 +1,6 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { BrowserManager } from '../browser/browserManager.js';
+import { findElement, FrameInfo } from '../browser/elementLocator.js';
 import { z } from 'zod';
 import { setupLogger, createContextLogger } from '../utils/logger.js';
 
@@ -21,7 +22,7 @@ const ExtractContentInputSchema = z.object({
 /**
  * Type for extract content tool input
  */
-type ExtractContentInput = z.infer<typeof ExtractContentInputSchema>;
+export type ExtractContentInput = z.infer<typeof ExtractContentInputSchema>;
 
 /**
  * Type for a link item
@@ -51,6 +52,11 @@ const ExtractContentOutputSchema = z.object({
   url: z.string(),
   title: z.string(),
   elements: z.record(z.any()),
+  frames: z.record(z.object({
+    url: z.string(),
+    name: z.string(),
+    isMainFrame: z.boolean(),
+  })).optional(),
   text: z.string().optional(),
   html: z.string().optional(),
   links: z.array(z.object({
@@ -67,7 +73,128 @@ const ExtractContentOutputSchema = z.object({
 /**
  * Type for extract content tool output
  */
-type ExtractContentOutput = z.infer<typeof ExtractContentOutputSchema>;
+export type ExtractContentOutput = z.infer<typeof ExtractContentOutputSchema>;
+
+/**
+ * Extract specific content from the current page
+ * @param browserManager The browser manager instance
+ * @param params The tool input
+ * @returns The tool output
+ */
+export async function extractContent(
+  browserManager: BrowserManager,
+  params: ExtractContentInput
+): Promise<ExtractContentOutput> {
+  logger.info('Extracting content from webpage');
+  
+  try {
+    // Get page from browser manager
+    const { page, sessionId } = await browserManager.getPage(params.sessionId);
+    
+    // Get current page info
+    const url = page.url();
+    const title = await page.title();
+    
+    // Extract content based on selectors
+    const elements: Record<string, string> = {};
+    const frames: Record<string, FrameInfo> = {};
+    
+    if (params.selectors) {
+      for (const [name, selector] of Object.entries(params.selectors)) {
+        try {
+          // Look in every frame and inside open shadow roots
+          const located = await findElement(page, selector);
+          
+          if (located) {
+            const text = await located.element.evaluate(el => el.textContent || '');
+            await located.element.dispose();
+            if (!located.frameInfo.isMainFrame) {
+              frames[name] = located.frameInfo;
+            }
+            elements[name] = text.trim();
+            logger.debug(`Extracted "${name}": ${text.substring(0, 50)}${text.length > 50 ? '...' : ''}`);
+          } else {
+            logger.warn(`Selector "${selector}" for "${name}" not found`);
+            elements[name] = '';
+          }
+        } catch (error) {
+          logger.error(`Error extracting "${name}": ${error instanceof Error ? error.message : String(error)}`);
+          elements[name] = '';
+        }
+      }
+    }
+    
+    // Result object
+    const result: ExtractContentOutput = {
+      url,
+      title,
+      elements,
+      frames: Object.keys(frames).length > 0 ? frames : undefined,
+      sessionId,
+    };
+    
+    // Extract full page text if requested
+    if (params.extractText) {
+      const text = await page.evaluate(() => {
+        return document.body.innerText || '';
+      });
+      result.text = text;
+    }
+    
+    // Extract full page HTML if requested
+    if (params.extractHtml) {
+      const html = await page.evaluate(() => {
+        return document.documentElement.outerHTML || '';
+      });
+      result.html = html;
+    }
+    
+    // Extract links if requested
+    if (params.extractLinks) {
+      const links = await page.evaluate(() => {
+        const linkElements = Array.from(document.querySelectorAll('a[href]'));
+        return linkElements.map(el => ({
+          text: el.textContent?.trim() || '',
+          url: el.getAttribute('href') || '',
+        }));
+      });
+      result.links = links as LinkItem[];
+    }
+    
+    // Extract tables if requested
+    if (params.extractTables) {
+      const tables = await page.evaluate(() => {
+        const tableElements = Array.from(document.querySelectorAll('table'));
+        return tableElements.map(table => {
+          // Extract headers
+          const headerRow = table.querySelector('thead tr');
+          const headers = headerRow
+            ? Array.from(headerRow.querySelectorAll('th')).map(th => th.textContent?.trim() || '')
+            : Array.from(table.querySelectorAll('tr:first-child th, tr:first-child td')).map(cell => cell.textContent?.trim() || '');
+          
+          // Extract rows
+          const rows = Array.from(table.querySelectorAll('tbody tr, tr:not(:first-child)')).map(row => {
+            return Array.from(row.querySelectorAll('td')).map(cell => cell.textContent?.trim() || '');
+          });
+          
+          return { headers, rows };
+        });
+      });
+      result.tables = tables as TableData[];
+    }
+    
+    // Keep the latest extraction with the session
+    browserManager.updateSessionData(sessionId, {
+      lastExtraction: { url, title, elements, extractedAt: new Date().toISOString() },
+    });
+    
+    logger.info('Successfully extracted content');
+    return result;
+  } catch (error) {
+    logger.error(`Error extracting content: ${error instanceof Error ? error.message : String(error)}`);
+    throw error;
+  }
+}
 
 /**
  * Register the extract content tool with the MCP server
@@ -82,111 +209,14 @@ export function registerExtractContentTool(
   
   server.registerToolDefinition({
     name: 'extract_content',
-    description: 'Extract specific content from a webpage',
+    description: 'Extract specific content from a webpage; selectors also match inside iframes and open shadow roots ' +
+      'and can be frame-qualified, as in "iframe#reviews >> .rating"',
     parameters: ExtractContentInputSchema,
   });
   
   server.registerToolImplementation({
     name: 'extract_content',
-    handler: async (params: ExtractContentInput): Promise<ExtractContentOutput> => {
-      logger.info('Extracting content from webpage');
-      
-      try {
-        // Get page from browser manager
-        const { page, sessionId } = await browserManager.getPage(params.sessionId);
-        
-        // Get current page info
-        const url = page.url();
-        const title = await page.title();
-        
-        // Extract content based on selectors
-        const elements: Record<string, string> = {};
-        
-        if (params.selectors) {
-          for (const [name, selector] of Object.entries(params.selectors)) {
-            try {
-              const element = await page.$(selector);
-              
-              if (element) {
-                const text = await page.evaluate((el) => el.textContent || '', element);
-                elements[name] = text.trim();
-                logger.debug(`Extracted "${name}": ${text.substring(0, 50)}${text.length > 50 ? '...' : ''}`);
-              } else {
-                logger.warn(`Selector "${selector}" for "${name}" not found`);
-                elements[name] = '';
-              }
-            } catch (error) {
-              logger.error(`Error extracting "${name}": ${error instanceof Error ? error.message : String(error)}`);
-              elements[name] = '';
-            }
-          }
-        }
-        
-        // Result object
-        const result: ExtractContentOutput = {
-          url,
-          title,
-          elements,
-          sessionId,
-        };
-        
-        // Extract full page text if requested
-        if (params.extractText) {
-          const text = await page.evaluate(() => {
-            return document.body.innerText || '';
-          });
-          result.text = text;
-        }
-        
-        // Extract full page HTML if requested
-        if (params.extractHtml) {
-          const html = await page.evaluate(() => {
-            return document.documentElement.outerHTML || '';
-          });
-          result.html = html;
-        }
-        
-        // Extract links if requested
-        if (params.extractLinks) {
-          const links = await page.evaluate(() => {
-            const linkElements = Array.from(document.querySelectorAll('a[href]'));
-            return linkElements.map(el => ({
-              text: el.textContent?.trim() || '',
-              url: el.getAttribute('href') || '',
-            }));
-          });
-          result.links = links as LinkItem[];
-        }
-        
-        // Extract tables if requested
-        if (params.extractTables) {
-          const tables = await page.evaluate(() => {
-            const tableElements = Array.from(document.querySelectorAll('table'));
-            return tableElements.map(table => {
-              // Extract headers
-              const headerRow = table.querySelector('thead tr');
-              const headers = headerRow
-                ? Array.from(headerRow.querySelectorAll('th')).map(th => th.textContent?.trim() || '')
-                : Array.from(table.querySelectorAll('tr:first-child th, tr:first-child td')).map(cell => cell.textContent?.trim() || '');
-              
-              // Extract rows
-              const rows = Array.from(table.querySelectorAll('tbody tr, tr:not(:first-child)')).map(row => {
-                return Array.from(row.querySelectorAll('td')).map(cell => cell.textContent?.trim() || '');
-              });
-              
-              return { headers, rows };
-            });
-          });
-          result.tables = tables as TableData[];
-        }
-        
-        logger.info('Successfully extracted content');
-        return result;
-      } catch (error) {
-        logger.error(`Error extracting content: ${error instanceof Error ? error.message : String(error)}`);
-        throw error;
-      }
-    },
+    handler: async (params: ExtractContentInput): Promise<ExtractContentOutput> => extractContent(browserManager, params),
   });
 }
 
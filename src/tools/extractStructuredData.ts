@@ -0,0 +1,254 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { BrowserManager } from '../browser/browserManager.js';
+import { elementToMarkdown } from '../browser/domToMarkdown.js';
+import { extractMainContent } from '../browser/readability.js';
+import { AIIntegrationHelper } from '../ai/integrationHelper.js';
+import { validateJsonSchema, checkJsonSchema, JsonSchema } from '../utils/jsonSchema.js';
+import { z } from 'zod';
+import { setupLogger, createContextLogger } from '../utils/logger.js';
+
+// Logger
+const logger = createContextLogger(setupLogger(), 'ExtractStructuredDataTool');
+
+/**
+ * Maximum length of the page content sent to the model
+ */
+const MAX_CONTENT_LENGTH = 15000;
+
+/**
+ * Input schema for extract structured data tool
+ */
+const ExtractStructuredDataInputSchema = z.object({
+  schema: z.record(z.any()),
+  url: z.string().url().optional(),
+  instructions: z.string().optional(),
+  mainContentOnly: z.boolean().default(false).optional(),
+  maxRetries: z.number().int().min(0).max(5).default(2).optional(),
+  sessionId: z.string().optional(),
+});
+
+/**
+ * Type for extract structured data tool input
+ */
+export type ExtractStructuredDataInput = z.infer<typeof ExtractStructuredDataInputSchema>;
+
+/**
+ * Output schema for extract structured data tool
+ */
+const ExtractStructuredDataOutputSchema = z.object({
+  url: z.string(),
+  title: z.string(),
+  data: z.any(),
+  valid: z.boolean(),
+  validationErrors: z.array(z.string()),
+  attempts: z.number(),
+  fields: z.record(z.object({
+    confidence: z.number(),
+    source: z.string().optional(),
+    sourceFound: z.boolean(),
+  })),
+  sessionId: z.string(),
+});
+
+/**
+ * Type for extract structured data tool output
+ */
+export type ExtractStructuredDataOutput = z.infer<typeof ExtractStructuredDataOutputSchema>;
+
+/**
+ * Normalize text for comparing source snippets with the page content
+ * @param text The text to normalize
+ * @returns The normalized text
+ */
+function normalizeForMatch(text: string): string {
+  return text.replace(/[*_`#>|[\]()]/g, ' ').replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/**
+ * Check whether a model response has the { data, fields } shape the model was asked
+ * for, rather than being the bare data of a schema that has its own data property
+ * @param response The parsed model response
+ * @param schema The schema of the data
+ * @returns True if the response wraps the data
+ */
+function isExtractionWrapper(response: object, schema: JsonSchema): boolean {
+  const wrapped = response as { data?: unknown; fields?: unknown };
+  if (Array.isArray(response) || !('data' in wrapped) ||
+    Object.keys(wrapped).some(key => key !== 'data' && key !== 'fields')) {
+    return false;
+  }
+  
+  if (wrapped.fields !== undefined) {
+    return typeof wrapped.fields === 'object' && wrapped.fields !== null && !Array.isArray(wrapped.fields);
+  }
+  
+  // Without field evidence, only a schema without its own data property tells the shapes apart
+  return schema.properties?.data === undefined;
+}
+
+/**
+ * Split a model response into the extracted data and its per-field evidence,
+ * checking that each source snippet actually occurs in the page content
+ * @param response The parsed model response
+ * @param content The page content the data was extracted from
+ * @param schema The schema of the data
+ * @returns The data and per-field evidence
+ */
+function parseExtraction(
+  response: object,
+  content: string,
+  schema: JsonSchema
+): { data: unknown; fields: ExtractStructuredDataOutput['fields'] } {
+  if (!isExtractionWrapper(response, schema)) {
+    return { data: response, fields: {} };
+  }
+  const wrapped = response as { data?: unknown; fields?: unknown };
+  
+  const normalizedContent = normalizeForMatch(content);
+  const fields: ExtractStructuredDataOutput['fields'] = {};
+  
+  if (wrapped.fields && typeof wrapped.fields === 'object') {
+    for (const [path, evidence] of Object.entries(wrapped.fields as Record<string, any>)) {
+      if (!evidence || typeof evidence !== 'object') continue;
+      
+      const confidence = Number(evidence.confidence);
+      const source = typeof evidence.source === 'string' && evidence.source.trim() ? evidence.source.trim() : undefined;
+      fields[path] = {
+        confidence: Number.isFinite(confidence) ? Math.min(1, Math.max(0, confidence)) : 0,
+        source,
+        sourceFound: source !== undefined && normalizedContent.includes(normalizeForMatch(source)),
+      };
+    }
+  }
+  
+  return { data: wrapped.data, fields };
+}
+
+/**
+ * Extract data matching a JSON Schema from the current page with AI,
+ * retrying with the validation errors until the output matches the schema
+ * @param browserManager The browser manager instance
+ * @param params The tool input
+ * @returns The tool output
+ */
+export async function extractStructuredData(
+  browserManager: BrowserManager,
+  params: ExtractStructuredDataInput
+): Promise<ExtractStructuredDataOutput> {
+  logger.info('Extracting structured data');
+  
+  try {
+    // Reject schemas that cannot be validated before loading the page and calling the model
+    const schema = params.schema as JsonSchema;
+    const schemaErrors = checkJsonSchema(schema);
+    if (schemaErrors.length > 0) {
+      throw new Error(`Invalid schema: ${schemaErrors.join('; ')}`);
+    }
+    
+    // Get page from browser manager
+    const { page, sessionId } = await browserManager.getPage(params.sessionId);
+    
+    // Navigate to URL if provided
+    if (params.url) {
+      await page.goto(params.url, {
+        waitUntil: 'networkidle2',
+        timeout: 30000,
+      });
+    }
+    
+    const url = page.url();
+    const title = await page.title();
+    
+    // Convert the cleaned page content to Markdown, which keeps tables and lists intact
+    const contentElement = params.mainContentOnly
+      ? await page.evaluateHandle(extractMainContent)
+      : await page.evaluateHandle(() => document.body);
+    let content = await contentElement.evaluate(elementToMarkdown);
+    await contentElement.dispose();
+    
+    if (content.length > MAX_CONTENT_LENGTH) {
+      content = content.substring(0, MAX_CONTENT_LENGTH) + '... [content truncated]';
+    }
+    
+    const maxAttempts = (params.maxRetries ?? 2) + 1;
+    let data: unknown = null;
+    let fields: ExtractStructuredDataOutput['fields'] = {};
+    let validationErrors: string[] = [];
+    let attempts = 0;
+    
+    while (attempts < maxAttempts) {
+      attempts++;
+      
+      let response: object;
+      try {
+        response = await AIIntegrationHelper.extractStructuredData(content, schema, {
+          instructions: params.instructions,
+          includeFieldSources: true,
+          previousResult: attempts > 1 ? data : undefined,
+          validationErrors: attempts > 1 ? validationErrors : undefined,
+        });
+      } catch (error) {
+        validationErrors = [`$: ${error instanceof Error ? error.message : String(error)}`];
+        logger.warn(`Attempt ${attempts} failed: ${validationErrors[0]}`);
+        continue;
+      }
+      
+      ({ data, fields } = parseExtraction(response, content, schema));
+      validationErrors = validateJsonSchema(data, schema);
+      
+      if (validationErrors.length === 0) {
+        break;
+      }
+      
+      logger.warn(`Attempt ${attempts} did not match the schema: ${validationErrors.join('; ')}`);
+    }
+    
+    const valid = validationErrors.length === 0;
+    if (valid) {
+      logger.info(`Successfully extracted structured data after ${attempts} attempt(s)`);
+    } else {
+      logger.warn(`Structured data still does not match the schema after ${attempts} attempt(s)`);
+    }
+    
+    return {
+      url,
+      title,
+      data,
+      valid,
+      validationErrors,
+      attempts,
+      fields,
+      sessionId,
+    };
+  } catch (error) {
+    logger.error(`Error extracting structured data: ${error instanceof Error ? error.message : String(error)}`);
+    throw error;
+  }
+}
+
+/**
+ * Register the extract structured data tool with the MCP server
+ * @param server The MCP server instance
+ * @param browserManager The browser manager instance
+ */
+export function registerExtractStructuredDataTool(
+  server: Server,
+  browserManager: BrowserManager
+): void {
+  logger.info('Registering extract_structured_data tool');
+  
+  server.registerToolDefinition({
+    name: 'extract_structured_data',
+    description: 'Extract data matching a JSON Schema from the current page with AI, validated against the schema, ' +
+      'with a confidence and source snippet per field',
+    parameters: ExtractStructuredDataInputSchema,
+  });
+  
+  server.registerToolImplementation({
+    name: 'extract_structured_data',
+    handler: async (params: ExtractStructuredDataInput): Promise<ExtractStructuredDataOutput> =>
+      extractStructuredData(browserManager, params),
+  });
+}
+
+export default registerExtractStructuredDataTool;
@@ -1,27 +1,64 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { BrowserManager } from '../browser/browserManager.js';
+import { getElementByIndex } from '../browser/interactiveElements.js';
+import { resolveField } from '../browser/fieldResolver.js';
+import { findElement } from '../browser/elementLocator.js';
+import { fillControl } from '../browser/formFiller.js';
+import { settleAfterAction, describeChanges, ActionChanges } from '../browser/actionSettler.js';
 import { z } from 'zod';
 import { setupLogger, createContextLogger } from '../utils/logger.js';
 
 // Logger
 const logger = createContextLogger(setupLogger(), 'FillFormTool');
 
+/**
+ * Schema for a file to upload, from a local path or base64 content
+ */
+const FileUploadSchema = z.object({
+  path: z.string().optional(),
+  content: z.string().optional(),
+  fileName: z.string().optional(),
+}).refine(
+  data => data.path !== undefined || data.content !== undefined,
+  { message: 'A file upload needs a path or base64 content' }
+);
+
+/**
+ * Schema for a field value: text, a list of options for multi-selects, or files
+ */
+const FieldValueSchema = z.union([
+  z.string(),
+  z.array(z.string()),
+  FileUploadSchema,
+  z.array(FileUploadSchema),
+]);
+
 /**
  * Input schema for fill form tool
  */
 const FillFormInputSchema = z.object({
-  fields: z.record(z.string()),
+  fields: z.record(FieldValueSchema).default({}),
+  indexedFields: z.array(z.object({
+    elementIndex: z.number().int().min(0),
+    value: FieldValueSchema,
+  })).optional(),
   submit: z.boolean().default(false).optional(),
   submitSelector: z.string().optional(),
   waitForNavigation: z.boolean().default(true).optional(),
   timeout: z.number().min(1000).default(30000).optional(),
   sessionId: z.string().optional(),
-});
+}).refine(
+  data => Object.keys(data.fields).length > 0 || (data.indexedFields?.length ?? 0) > 0,
+  {
+    message: 'Either fields or indexedFields must be provided',
+    path: ['fields', 'indexedFields'],
+  }
+);
 
 /**
  * Type for fill form tool input
  */
-type FillFormInput = z.infer<typeof FillFormInputSchema>;
+export type FillFormInput = z.infer<typeof FillFormInputSchema>;
 
 /**
  * Output schema for fill form tool
@@ -31,200 +68,235 @@ const FillFormOutputSchema = z.object({
   message: z.string(),
   filledFields: z.array(z.string()),
   skippedFields: z.array(z.string()),
+  fieldMatches: z.array(z.object({
+    field: z.string(),
+    strategy: z.enum([
+      'name', 'id', 'label', 'aria-labelledby', 'aria-label', 'placeholder', 'title', 'selector', 'fuzzy', 'index',
+    ]),
+    matchedText: z.string(),
+    score: z.number(),
+    frame: z.object({
+      url: z.string(),
+      name: z.string(),
+      isMainFrame: z.boolean(),
+    }).optional(),
+  })),
   submitted: z.boolean(),
   newUrl: z.string().optional(),
+  changes: z.object({
+    navigated: z.boolean(),
+    urlChanged: z.boolean(),
+    previousUrl: z.string().optional(),
+    domMutations: z.number(),
+    requests: z.number(),
+    pendingRequests: z.number(),
+    dialogOpened: z.boolean(),
+    dialog: z.object({
+      type: z.string(),
+      message: z.string(),
+      action: z.enum(['accepted', 'dismissed', 'pending']),
+    }).optional(),
+    settled: z.boolean(),
+    elapsedMs: z.number(),
+  }).optional(),
   sessionId: z.string(),
 });
 
 /**
  * Type for fill form tool output
  */
-type FillFormOutput = z.infer<typeof FillFormOutputSchema>;
+export type FillFormOutput = z.infer<typeof FillFormOutputSchema>;
 
 /**
- * Register the fill form tool with the MCP server
- * @param server The MCP server instance
+ * Fill out form fields on the current page
  * @param browserManager The browser manager instance
+ * @param params The tool input
+ * @returns The tool output
  */
-export function registerFillFormTool(
-  server: Server,
-  browserManager: BrowserManager
-): void {
-  logger.info('Registering fill_form tool');
-  
-  server.registerToolDefinition({
-    name: 'fill_form',
-    description: 'Fill out form fields on a webpage',
-    parameters: FillFormInputSchema,
-  });
+export async function fillForm(
+  browserManager: BrowserManager,
+  params: FillFormInput
+): Promise<FillFormOutput> {
+  const fieldCount = Object.keys(params.fields).length + (params.indexedFields?.length ?? 0);
+  logger.info(`Filling form with ${fieldCount} fields`);
   
-  server.registerToolImplementation({
-    name: 'fill_form',
-    handler: async (params: FillFormInput): Promise<FillFormOutput> => {
-      logger.info(`Filling form with ${Object.keys(params.fields).length} fields`);
-      
+  try {
+    // Get page from browser manager
+    const { page, sessionId } = await browserManager.getPage(params.sessionId);
+    
+    const timeout = params.timeout || 30000;
+    const uploadDirectory = browserManager.getUploadDirectory(sessionId);
+    const filledFields: string[] = [];
+    const skippedFields: string[] = [];
+    const fieldMatches: FillFormOutput['fieldMatches'] = [];
+    
+    // The form is submitted in the frame of the first field that was found
+    let formFrame = page.mainFrame();
+    let formFrameFound = false;
+    
+    // Process each field
+    for (const [fieldName, fieldValue] of Object.entries(params.fields)) {
       try {
-        // Get page from browser manager
-        const { page, sessionId } = await browserManager.getPage(params.sessionId);
+        // Find the control by name, id, label, placeholder or a fuzzy label match
+        const resolved = await resolveField(page, fieldName);
+        const elementFound = resolved !== null && await fillControl(resolved.element, fieldValue, uploadDirectory);
         
-        const timeout = params.timeout || 30000;
-        const filledFields: string[] = [];
-        const skippedFields: string[] = [];
-        
-        // Process each field
-        for (const [fieldName, fieldValue] of Object.entries(params.fields)) {
-          try {
-            // Try different selectors for the field
-            const selectors = [
-              `input[name="${fieldName}"]`,
-              `input#${fieldName}`,
-              `textarea[name="${fieldName}"]`,
-              `textarea#${fieldName}`,
-              `select[name="${fieldName}"]`,
-              `select#${fieldName}`,
-              `[name="${fieldName}"]`,
-              `#${fieldName}`,
-              `[aria-label="${fieldName}"]`,
-              `[placeholder="${fieldName}"]`,
-              `label:has-text("${fieldName}") + input`,
-              `label:has-text("${fieldName}") + textarea`,
-              `label:has-text("${fieldName}") + select`,
-            ];
-            
-            let elementFound = false;
-            
-            for (const selector of selectors) {
-              const element = await page.$(selector);
-              
-              if (element) {
-                // Get the tag name to determine how to interact with the element
-                const tagName = await page.evaluate(el => el.tagName.toLowerCase(), element);
-                
-                if (tagName === 'select') {
-                  // Handle select elements
-                  await page.select(selector, fieldValue);
-                  elementFound = true;
-                  break;
-                } else if (tagName === 'input') {
-                  // Get the input type
-                  const inputType = await page.evaluate(el => el.type, element);
-                  
-                  if (inputType === 'checkbox' || inputType === 'radio') {
-                    // Handle checkbox/radio inputs
-                    const currentValue = await page.evaluate(el => el.checked, element);
-                    const targetValue = fieldValue.toLowerCase() === 'true' || fieldValue === '1';
-                    
-                    if (currentValue !== targetValue) {
-                      await element.click();
-                    }
-                  } else {
-                    // Handle text/email/password/etc. inputs
-                    await element.click({ clickCount: 3 }); // Select all text
-                    await element.type(fieldValue);
-                  }
-                  
-                  elementFound = true;
-                  break;
-                } else if (tagName === 'textarea') {
-                  // Handle textarea elements
-                  await element.click({ clickCount: 3 }); // Select all text
-                  await element.type(fieldValue);
-                  elementFound = true;
-                  break;
-                }
-              }
-            }
-            
-            if (elementFound) {
-              filledFields.push(fieldName);
-              logger.debug(`Filled field: ${fieldName}`);
-            } else {
-              skippedFields.push(fieldName);
-              logger.warn(`Could not find field: ${fieldName}`);
-            }
-          } catch (error) {
-            logger.error(`Error filling field ${fieldName}: ${error instanceof Error ? error.message : String(error)}`);
-            skippedFields.push(fieldName);
+        if (resolved) {
+          logger.debug(`Matched field ${fieldName} by ${resolved.strategy}: ${resolved.matchedText}`);
+          if (!formFrameFound) {
+            formFrame = resolved.element.frame;
+            formFrameFound = true;
           }
+          fieldMatches.push({
+            field: fieldName,
+            strategy: resolved.strategy,
+            matchedText: resolved.matchedText,
+            score: resolved.score,
+            frame: resolved.frameInfo.isMainFrame ? undefined : resolved.frameInfo,
+          });
         }
         
-        // Handle form submission if requested
-        let submitted = false;
-        let newUrl = page.url();
+        if (elementFound) {
+          filledFields.push(fieldName);
+          logger.debug(`Filled field: ${fieldName}`);
+        } else {
+          skippedFields.push(fieldName);
+          logger.warn(resolved ? `Field is not a fillable control: ${fieldName}` : `Could not find field: ${fieldName}`);
+        }
+      } catch (error) {
+        logger.error(`Error filling field ${fieldName}: ${error instanceof Error ? error.message : String(error)}`);
+        skippedFields.push(fieldName);
+      }
+    }
+    
+    // Process fields addressed by index from get_interactive_elements
+    for (const { elementIndex, value } of params.indexedFields || []) {
+      const fieldName = `element[${elementIndex}]`;
+      
+      try {
+        const element = await getElementByIndex(page, elementIndex);
+        fieldMatches.push({ field: fieldName, strategy: 'index', matchedText: String(elementIndex), score: 1 });
         
-        if (params.submit) {
-          try {
-            // Setup navigation promise if waiting for navigation
-            let navigationPromise;
-            if (params.waitForNavigation) {
-              navigationPromise = page.waitForNavigation({ timeout });
-            }
-            
-            if (params.submitSelector) {
-              // Click the specified submit element
-              const submitElement = await page.$(params.submitSelector);
-              if (submitElement) {
-                await submitElement.click();
-                submitted = true;
-              } else {
-                logger.warn(`Submit selector not found: ${params.submitSelector}`);
-              }
+        if (await fillControl(element, value, uploadDirectory)) {
+          filledFields.push(fieldName);
+          logger.debug(`Filled field: ${fieldName}`);
+        } else {
+          skippedFields.push(fieldName);
+          logger.warn(`Element is not a fillable field: ${fieldName}`);
+        }
+      } catch (error) {
+        logger.error(`Error filling field ${fieldName}: ${error instanceof Error ? error.message : String(error)}`);
+        skippedFields.push(fieldName);
+      }
+    }
+    
+    // Handle form submission if requested
+    let submitted = false;
+    let newUrl = page.url();
+    let changes: ActionChanges | undefined;
+    
+    if (params.submit) {
+      try {
+        const submitForm = async () => {
+          if (params.submitSelector) {
+            // Click the specified submit element, in whichever frame it is
+            const submitElement = await findElement(page, params.submitSelector);
+            if (submitElement) {
+              await submitElement.element.click();
+              submitted = true;
             } else {
-              // Try standard submit methods
-              const submitButton = await page.$('input[type="submit"], button[type="submit"]');
-              if (submitButton) {
-                await submitButton.click();
-                submitted = true;
-              } else {
-                // Try to submit the form directly
-                await page.evaluate(() => {
-                  const form = document.querySelector('form');
-                  if (form) {
-                    form.submit();
-                    return true;
-                  }
-                  return false;
-                });
-                submitted = true;
-              }
+              logger.warn(`Submit selector not found: ${params.submitSelector}`);
             }
-            
-            // Wait for navigation if enabled
-            if (navigationPromise) {
-              await navigationPromise.catch(() => {
-                logger.warn('Navigation did not occur after form submission');
+          } else {
+            // Try standard submit methods
+            const submitButton = await formFrame.$('input[type="submit"], button[type="submit"]');
+            if (submitButton) {
+              await submitButton.click();
+              submitted = true;
+            } else {
+              // Try to submit the form directly
+              await formFrame.evaluate(() => {
+                const form = document.querySelector('form');
+                if (form) {
+                  form.submit();
+                  return true;
+                }
+                return false;
               });
+              submitted = true;
             }
-            
-            // Get the new URL
-            newUrl = page.url();
-          } catch (error) {
-            logger.error(`Error submitting form: ${error instanceof Error ? error.message : String(error)}`);
           }
+        };
+        
+        // Wait for the page to settle after submitting, returning early if nothing happens
+        if (params.waitForNavigation) {
+          changes = await settleAfterAction(page, submitForm, { timeout, dialogPolicy: browserManager.getDialogPolicy(sessionId) });
+        } else {
+          await submitForm();
         }
         
-        return {
-          success: filledFields.length > 0,
-          message: `Filled ${filledFields.length} fields, skipped ${skippedFields.length} fields`,
-          filledFields,
-          skippedFields,
-          submitted,
-          newUrl,
-          sessionId,
-        };
+        // Get the new URL
+        newUrl = page.url();
       } catch (error) {
-        logger.error(`Error filling form: ${error instanceof Error ? error.message : String(error)}`);
-        
-        return {
-          success: false,
-          message: `Failed to fill form: ${error instanceof Error ? error.message : String(error)}`,
-          filledFields: [],
-          skippedFields: Object.keys(params.fields),
-          submitted: false,
-          sessionId: params.sessionId || '',
-        };
+        logger.error(`Error submitting form: ${error instanceof Error ? error.message : String(error)}`);
       }
-    },
+    }
+    
+    return {
+      success: filledFields.length > 0,
+      message: `Filled ${filledFields.length} fields, skipped ${skippedFields.length} fields` +
+        (changes ? `; after submitting: ${describeChanges(changes)}` : ''),
+      filledFields,
+      skippedFields,
+      fieldMatches,
+      submitted,
+      newUrl,
+      changes,
+      sessionId,
+    };
+  } catch (error) {
+    logger.error(`Error filling form: ${error instanceof Error ? error.message : String(error)}`);
+    
+    return {
+      success: false,
+      message: `Failed to fill form: ${error instanceof Error ? error.message : String(error)}`,
+      filledFields: [],
+      skippedFields: [
+        ...Object.keys(params.fields),
+        ...(params.indexedFields || []).map(field => `element[${field.elementIndex}]`),
+      ],
+      fieldMatches: [],
+      submitted: false,
+      sessionId: params.sessionId || '',
+    };
+  }
+}
+
+/**
+ * Register the fill form tool with the MCP server
+ * @param server The MCP server instance
+ * @param browserManager The browser manager instance
+ */
+export function registerFillFormTool(
+  server: Server,
+  browserManager: BrowserManager
+): void {
+  logger.info('Registering fill_form tool');
+  
+  server.registerToolDefinition({
+    name: 'fill_form',
+    description: 'Fill out form fields on a webpage by visible label, name, id or placeholder, ' +
+      'or by index from get_interactive_elements; the result reports how each field was matched. ' +
+      'Handles text, date, time, color and range inputs, checkboxes, selects and custom dropdowns ' +
+      '(a list of values for multi-selects), rich-text editors, and file inputs ' +
+      '(a local path, or {fileName, content} with base64 content). Fields in iframes and open shadow roots ' +
+      'are found too; field names can be frame-qualified, as in "iframe#payment >> Card number"',
+    parameters: FillFormInputSchema,
+  });
+  
+  server.registerToolImplementation({
+    name: 'fill_form',
+    handler: async (params: FillFormInput): Promise<FillFormOutput> => fillForm(browserManager, params),
   });
 }
 
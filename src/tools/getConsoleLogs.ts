@@ -0,0 +1,105 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { BrowserManager } from '../browser/browserManager.js';
+import { z } from 'zod';
+import { setupLogger, createContextLogger } from '../utils/logger.js';
+
+// Logger
+const logger = createContextLogger(setupLogger(), 'GetConsoleLogsTool');
+
+/**
+ * Input schema for get console logs tool
+ */
+const GetConsoleLogsInputSchema = z.object({
+  sessionId: z.string().min(1, 'A session ID is required'),
+  minLevel: z.enum(['debug', 'info', 'warning', 'error']).optional(),
+  levels: z.array(z.enum(['debug', 'info', 'warning', 'error'])).optional(),
+  sources: z.array(z.enum(['console', 'pageerror', 'network'])).optional(),
+  sinceId: z.number().int().min(0).optional(),
+  limit: z.number().int().min(1).max(500).default(100).optional(),
+  clear: z.boolean().default(false).optional(),
+});
+
+/**
+ * Type for get console logs tool input
+ */
+type GetConsoleLogsInput = z.infer<typeof GetConsoleLogsInputSchema>;
+
+/**
+ * Output schema for get console logs tool
+ */
+const GetConsoleLogsOutputSchema = z.object({
+  entries: z.array(z.object({
+    id: z.number(),
+    tabId: z.string().optional(),
+    source: z.enum(['console', 'pageerror', 'network']),
+    level: z.enum(['debug', 'info', 'warning', 'error']),
+    type: z.string(),
+    text: z.string(),
+    url: z.string().optional(),
+    lineNumber: z.number().optional(),
+    columnNumber: z.number().optional(),
+    stack: z.string().optional(),
+    timestamp: z.string(),
+  })),
+  droppedEntries: z.number(),
+  lastId: z.number(),
+  sessionId: z.string(),
+});
+
+/**
+ * Type for get console logs tool output
+ */
+type GetConsoleLogsOutput = z.infer<typeof GetConsoleLogsOutputSchema>;
+
+/**
+ * Register the get console logs tool with the MCP server
+ * @param server The MCP server instance
+ * @param browserManager The browser manager instance
+ */
+export function registerGetConsoleLogsTool(
+  server: Server,
+  browserManager: BrowserManager
+): void {
+  logger.info('Registering get_console_logs tool');
+  
+  server.registerToolDefinition({
+    name: 'get_console_logs',
+    description: 'Get the console messages, uncaught page errors and failed requests captured in a session, ' +
+      'filtered by level and source; pass the returned lastId as sinceId to read only newer entries',
+    parameters: GetConsoleLogsInputSchema,
+  });
+  
+  server.registerToolImplementation({
+    name: 'get_console_logs',
+    handler: async (params: GetConsoleLogsInput): Promise<GetConsoleLogsOutput> => {
+      logger.info(`Getting console logs for session ${params.sessionId}`);
+      
+      try {
+        const { entries, droppedEntries } = browserManager.getConsoleLogs(params.sessionId, {
+          minLevel: params.minLevel,
+          levels: params.levels,
+          sources: params.sources,
+          sinceId: params.sinceId,
+          limit: params.limit ?? 100,
+        });
+        const lastId = browserManager.getConsoleCursor(params.sessionId);
+        
+        if (params.clear) {
+          browserManager.clearConsoleLogs(params.sessionId);
+        }
+        
+        return {
+          entries,
+          droppedEntries,
+          lastId,
+          sessionId: params.sessionId,
+        };
+      } catch (error) {
+        logger.error(`Error getting console logs: ${error instanceof Error ? error.message : String(error)}`);
+        throw error;
+      }
+    },
+  });
+}
+
+export default registerGetConsoleLogsTool;
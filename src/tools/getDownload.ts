@@ -0,0 +1,114 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { BrowserManager } from '../browser/browserManager.js';
+import { readFile } from 'fs/promises';
+import { z } from 'zod';
+import { setupLogger, createContextLogger } from '../utils/logger.js';
+
+// Logger
+const logger = createContextLogger(setupLogger(), 'GetDownloadTool');
+
+/**
+ * Input schema for get download tool
+ */
+const GetDownloadInputSchema = z.object({
+  sessionId: z.string().min(1, 'A session ID is required'),
+  downloadId: z.string().optional(),
+  encoding: z.enum(['base64', 'path']).default('base64').optional(),
+  maxSize: z.number().int().min(1).default(10 * 1024 * 1024).optional(),
+  timeout: z.number().min(0).default(30000).optional(),
+});
+
+/**
+ * Type for get download tool input
+ */
+export type GetDownloadInput = z.infer<typeof GetDownloadInputSchema>;
+
+/**
+ * Output schema for get download tool
+ */
+const GetDownloadOutputSchema = z.object({
+  id: z.string(),
+  url: z.string(),
+  fileName: z.string(),
+  mimeType: z.string(),
+  size: z.number(),
+  path: z.string(),
+  content: z.string().optional(),
+  encoding: z.enum(['base64', 'path']),
+  sessionId: z.string(),
+});
+
+/**
+ * Type for get download tool output
+ */
+export type GetDownloadOutput = z.infer<typeof GetDownloadOutputSchema>;
+
+/**
+ * Get a downloaded file, waiting for the download to finish. Returns the content
+ * as base64, or only the local path for files the client can read itself.
+ * @param browserManager The browser manager instance
+ * @param params The tool input
+ * @returns The tool output
+ */
+export async function getDownload(
+  browserManager: BrowserManager,
+  params: GetDownloadInput
+): Promise<GetDownloadOutput> {
+  const downloadInfo = params.downloadId ? `download ${params.downloadId}` : 'the latest download';
+  
+  logger.info(`Getting ${downloadInfo} of session ${params.sessionId}`);
+  
+  try {
+    const download = await browserManager.waitForDownload(params.sessionId, params.downloadId, params.timeout ?? 30000);
+    if (download.state !== 'completed' || !download.path) {
+      throw new Error(`Download of ${download.fileName} was canceled`);
+    }
+    
+    const encoding = params.encoding || 'base64';
+    const maxSize = params.maxSize || 10 * 1024 * 1024;
+    if (encoding === 'base64' && download.size > maxSize) {
+      throw new Error(`${download.fileName} is ${download.size} bytes, more than maxSize (${maxSize}); use encoding "path" to get its local path`);
+    }
+    
+    return {
+      id: download.id,
+      url: download.url,
+      fileName: download.fileName,
+      mimeType: download.mimeType,
+      size: download.size,
+      path: download.path,
+      content: encoding === 'base64' ? (await readFile(download.path)).toString('base64') : undefined,
+      encoding,
+      sessionId: params.sessionId,
+    };
+  } catch (error) {
+    logger.error(`Error getting download: ${error instanceof Error ? error.message : String(error)}`);
+    throw error;
+  }
+}
+
+/**
+ * Register the get download tool with the MCP server
+ * @param server The MCP server instance
+ * @param browserManager The browser manager instance
+ */
+export function registerGetDownloadTool(
+  server: Server,
+  browserManager: BrowserManager
+): void {
+  logger.info('Registering get_download tool');
+  
+  server.registerToolDefinition({
+    name: 'get_download',
+    description: 'Get a file a session downloaded, by download ID or the latest one, waiting for it to finish; ' +
+      'returns the file name, size, MIME type and the content as base64, or only the local path',
+    parameters: GetDownloadInputSchema,
+  });
+  
+  server.registerToolImplementation({
+    name: 'get_download',
+    handler: async (params: GetDownloadInput): Promise<GetDownloadOutput> => getDownload(browserManager, params),
+  });
+}
+
+export default registerGetDownloadTool;
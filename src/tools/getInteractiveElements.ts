@@ -0,0 +1,105 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { BrowserManager } from '../browser/browserManager.js';
+import { collectInteractiveElements } from '../browser/interactiveElements.js';
+import { z } from 'zod';
+import { setupLogger, createContextLogger } from '../utils/logger.js';
+
+// Logger
+const logger = createContextLogger(setupLogger(), 'GetInteractiveElementsTool');
+
+/**
+ * Input schema for get interactive elements tool
+ */
+const GetInteractiveElementsInputSchema = z.object({
+  includeHidden: z.boolean().default(false).optional(),
+  maxElements: z.number().min(1).max(2000).default(500).optional(),
+  sessionId: z.string().optional(),
+});
+
+/**
+ * Type for get interactive elements tool input
+ */
+type GetInteractiveElementsInput = z.infer<typeof GetInteractiveElementsInputSchema>;
+
+/**
+ * Output schema for get interactive elements tool
+ */
+const GetInteractiveElementsOutputSchema = z.object({
+  url: z.string(),
+  title: z.string(),
+  elements: z.array(z.object({
+    index: z.number(),
+    kind: z.enum(['clickable', 'typeable', 'selectable']),
+    role: z.string(),
+    name: z.string(),
+    tagName: z.string(),
+    type: z.string().optional(),
+    value: z.string().optional(),
+    disabled: z.boolean(),
+    inViewport: z.boolean(),
+    boundingBox: z.object({
+      x: z.number(),
+      y: z.number(),
+      width: z.number(),
+      height: z.number(),
+    }),
+    handle: z.string(),
+  })),
+  sessionId: z.string(),
+});
+
+/**
+ * Type for get interactive elements tool output
+ */
+type GetInteractiveElementsOutput = z.infer<typeof GetInteractiveElementsOutputSchema>;
+
+/**
+ * Register the get interactive elements tool with the MCP server
+ * @param server The MCP server instance
+ * @param browserManager The browser manager instance
+ */
+export function registerGetInteractiveElementsTool(
+  server: Server,
+  browserManager: BrowserManager
+): void {
+  logger.info('Registering get_interactive_elements tool');
+  
+  server.registerToolDefinition({
+    name: 'get_interactive_elements',
+    description: 'List every clickable, typeable and selectable element on the current page as a numbered map. ' +
+      'Pass an element index to click_element or fill_form instead of a selector',
+    parameters: GetInteractiveElementsInputSchema,
+  });
+  
+  server.registerToolImplementation({
+    name: 'get_interactive_elements',
+    handler: async (params: GetInteractiveElementsInput): Promise<GetInteractiveElementsOutput> => {
+      logger.info('Collecting interactive elements');
+      
+      try {
+        // Get page from browser manager
+        const { page, sessionId } = await browserManager.getPage(params.sessionId);
+        
+        // Walk the page and number its interactive elements
+        const elements = await collectInteractiveElements(page, {
+          includeHidden: params.includeHidden,
+          maxElements: params.maxElements,
+        });
+        
+        logger.info(`Found ${elements.length} interactive elements`);
+        
+        return {
+          url: page.url(),
+          title: await page.title(),
+          elements,
+          sessionId,
+        };
+      } catch (error) {
+        logger.error(`Error collecting interactive elements: ${error instanceof Error ? error.message : String(error)}`);
+        throw error;
+      }
+    },
+  });
+}
+
+export default registerGetInteractiveElementsTool;
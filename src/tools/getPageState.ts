@@ -0,0 +1,154 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { BrowserManager } from '../browser/browserManager.js';
+import { getNavigationHistory } from '../browser/navigation.js';
+import { z } from 'zod';
+import { setupLogger, createContextLogger } from '../utils/logger.js';
+
+// Logger
+const logger = createContextLogger(setupLogger(), 'GetPageStateTool');
+
+/**
+ * Input schema for get page state tool
+ */
+const GetPageStateInputSchema = z.object({
+  sessionId: z.string().min(1, 'A session ID is required'),
+});
+
+/**
+ * Type for get page state tool input
+ */
+export type GetPageStateInput = z.infer<typeof GetPageStateInputSchema>;
+
+/**
+ * Output schema for get page state tool
+ */
+const GetPageStateOutputSchema = z.object({
+  url: z.string(),
+  title: z.string(),
+  tabId: z.string(),
+  readyState: z.enum(['loading', 'interactive', 'complete']).optional(),
+  scroll: z.object({
+    x: z.number(),
+    y: z.number(),
+    maxX: z.number(),
+    maxY: z.number(),
+  }).optional(),
+  viewport: z.object({
+    width: z.number(),
+    height: z.number(),
+    devicePixelRatio: z.number(),
+  }).optional(),
+  history: z.object({
+    index: z.number(),
+    length: z.number(),
+    canGoBack: z.boolean(),
+    canGoForward: z.boolean(),
+  }),
+  dialogs: z.array(z.object({
+    type: z.string(),
+    message: z.string(),
+    defaultValue: z.string().optional(),
+    openedAt: z.string(),
+  })),
+  sessionId: z.string(),
+});
+
+/**
+ * Type for get page state tool output
+ */
+export type GetPageStateOutput = z.infer<typeof GetPageStateOutputSchema>;
+
+/**
+ * Describe where a session is: the URL, title, load and scroll state, viewport,
+ * history and open dialogs of its active tab, without changing anything
+ * @param browserManager The browser manager instance
+ * @param params The tool input
+ * @returns The tool output
+ */
+export async function getPageState(
+  browserManager: BrowserManager,
+  params: GetPageStateInput
+): Promise<GetPageStateOutput> {
+  logger.info(`Getting page state for session ${params.sessionId}`);
+  
+  try {
+    if (!browserManager.hasSession(params.sessionId)) {
+      throw new Error(`Session ${params.sessionId} not found`);
+    }
+    
+    // Get page from browser manager
+    const { page, sessionId } = await browserManager.getPage(params.sessionId);
+    const tabId = browserManager.getActiveTabId(sessionId);
+    const dialogs = browserManager.getOpenDialogs(sessionId, tabId)
+      .map(({ type, message, defaultValue, openedAt }) => ({ type, message, defaultValue, openedAt }));
+    const { currentIndex, entries } = await getNavigationHistory(page);
+    
+    // Scripts cannot run while a dialog blocks the page, so only report what the browser knows
+    const documentState = dialogs.length > 0
+      ? undefined
+      : await page.evaluate(() => {
+        const scrollingElement = document.scrollingElement || document.documentElement;
+        return {
+          title: document.title,
+          readyState: document.readyState,
+          scroll: {
+            x: Math.round(window.scrollX),
+            y: Math.round(window.scrollY),
+            maxX: Math.max(0, scrollingElement.scrollWidth - window.innerWidth),
+            maxY: Math.max(0, scrollingElement.scrollHeight - window.innerHeight),
+          },
+          viewport: {
+            width: window.innerWidth,
+            height: window.innerHeight,
+            devicePixelRatio: window.devicePixelRatio,
+          },
+        };
+      });
+    
+    return {
+      url: page.url(),
+      title: documentState ? documentState.title : entries[currentIndex]?.title || '',
+      tabId,
+      readyState: documentState?.readyState,
+      scroll: documentState?.scroll,
+      viewport: documentState?.viewport,
+      history: {
+        index: currentIndex,
+        length: entries.length,
+        canGoBack: currentIndex > 0,
+        canGoForward: currentIndex < entries.length - 1,
+      },
+      dialogs,
+      sessionId,
+    };
+  } catch (error) {
+    logger.error(`Error getting page state: ${error instanceof Error ? error.message : String(error)}`);
+    throw error;
+  }
+}
+
+/**
+ * Register the get page state tool with the MCP server
+ * @param server The MCP server instance
+ * @param browserManager The browser manager instance
+ */
+export function registerGetPageStateTool(
+  server: Server,
+  browserManager: BrowserManager
+): void {
+  logger.info('Registering get_page_state tool');
+  
+  server.registerToolDefinition({
+    name: 'get_page_state',
+    description: 'Get where a session is without changing anything: the URL, title, ready state, scroll position, ' +
+      'viewport, back/forward history and open dialogs of its active tab',
+    parameters: GetPageStateInputSchema,
+  });
+  
+  server.registerToolImplementation({
+    name: 'get_page_state',
+    handler: async (params: GetPageStateInput): Promise<GetPageStateOutput> => getPageState(browserManager, params),
+  });
+}
+
+export default registerGetPageStateTool;
@@ -0,0 +1,121 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { BrowserManager } from '../browser/browserManager.js';
+import { navigateHistory } from '../browser/navigation.js';
+import { z } from 'zod';
+import { setupLogger, createContextLogger } from '../utils/logger.js';
+
+// Logger
+const logger = createContextLogger(setupLogger(), 'GoBackTool');
+
+/**
+ * Input schema for go back tool
+ */
+const GoBackInputSchema = z.object({
+  sessionId: z.string().min(1, 'A session ID is required'),
+  waitUntil: z.enum(['load', 'domcontentloaded', 'networkidle0', 'networkidle2']).default('load').optional(),
+  timeout: z.number().min(1000).default(30000).optional(),
+});
+
+/**
+ * Type for go back tool input
+ */
+export type GoBackInput = z.infer<typeof GoBackInputSchema>;
+
+/**
+ * Output schema for go back tool
+ */
+const GoBackOutputSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  navigated: z.boolean(),
+  url: z.string().optional(),
+  title: z.string().optional(),
+  status: z.number().optional(),
+  sessionId: z.string(),
+});
+
+/**
+ * Type for go back tool output
+ */
+export type GoBackOutput = z.infer<typeof GoBackOutputSchema>;
+
+/**
+ * Go back to the previous page in the session history, keeping the session's form and single-page app state
+ * @param browserManager The browser manager instance
+ * @param params The tool input
+ * @returns The tool output
+ */
+export async function goBack(
+  browserManager: BrowserManager,
+  params: GoBackInput
+): Promise<GoBackOutput> {
+  logger.info(`Going back in session ${params.sessionId}`);
+  
+  try {
+    if (!browserManager.hasSession(params.sessionId)) {
+      throw new Error(`Session ${params.sessionId} not found`);
+    }
+    
+    // Get page from browser manager
+    const { page, sessionId } = await browserManager.getPage(params.sessionId);
+    
+    const { navigated, status } = await navigateHistory(page, -1, {
+      waitUntil: params.waitUntil,
+      timeout: params.timeout,
+    });
+    
+    const url = page.url();
+    const title = await page.title();
+    
+    if (navigated) {
+      logger.info(`Went back to ${url}`);
+    } else {
+      logger.warn('There is no previous page in the session history');
+    }
+    
+    return {
+      success: navigated,
+      message: navigated ? `Went back to ${url}` : 'There is no previous page in the session history',
+      navigated,
+      url,
+      title,
+      status,
+      sessionId,
+    };
+  } catch (error) {
+    logger.error(`Error going back: ${error instanceof Error ? error.message : String(error)}`);
+    
+    return {
+      success: false,
+      message: `Failed to go back: ${error instanceof Error ? error.message : String(error)}`,
+      navigated: false,
+      sessionId: params.sessionId,
+    };
+  }
+}
+
+/**
+ * Register the go back tool with the MCP server
+ * @param server The MCP server instance
+ * @param browserManager The browser manager instance
+ */
+export function registerGoBackTool(
+  server: Server,
+  browserManager: BrowserManager
+): void {
+  logger.info('Registering go_back tool');
+  
+  server.registerToolDefinition({
+    name: 'go_back',
+    description: 'Go back to the previous page of a session, like the browser\'s back button; ' +
+      'works for single-page app routes, and pages restored from the back/forward cache keep their form state',
+    parameters: GoBackInputSchema,
+  });
+  
+  server.registerToolImplementation({
+    name: 'go_back',
+    handler: async (params: GoBackInput): Promise<GoBackOutput> => goBack(browserManager, params),
+  });
+}
+
+export default registerGoBackTool;
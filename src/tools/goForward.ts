@@ -0,0 +1,120 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { BrowserManager } from '../browser/browserManager.js';
+import { navigateHistory } from '../browser/navigation.js';
+import { z } from 'zod';
+import { setupLogger, createContextLogger } from '../utils/logger.js';
+
+// Logger
+const logger = createContextLogger(setupLogger(), 'GoForwardTool');
+
+/**
+ * Input schema for go forward tool
+ */
+const GoForwardInputSchema = z.object({
+  sessionId: z.string().min(1, 'A session ID is required'),
+  waitUntil: z.enum(['load', 'domcontentloaded', 'networkidle0', 'networkidle2']).default('load').optional(),
+  timeout: z.number().min(1000).default(30000).optional(),
+});
+
+/**
+ * Type for go forward tool input
+ */
+export type GoForwardInput = z.infer<typeof GoForwardInputSchema>;
+
+/**
+ * Output schema for go forward tool
+ */
+const GoForwardOutputSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  navigated: z.boolean(),
+  url: z.string().optional(),
+  title: z.string().optional(),
+  status: z.number().optional(),
+  sessionId: z.string(),
+});
+
+/**
+ * Type for go forward tool output
+ */
+export type GoForwardOutput = z.infer<typeof GoForwardOutputSchema>;
+
+/**
+ * Go forward to the next page in the session history, keeping the session's form and single-page app state
+ * @param browserManager The browser manager instance
+ * @param params The tool input
+ * @returns The tool output
+ */
+export async function goForward(
+  browserManager: BrowserManager,
+  params: GoForwardInput
+): Promise<GoForwardOutput> {
+  logger.info(`Going forward in session ${params.sessionId}`);
+  
+  try {
+    if (!browserManager.hasSession(params.sessionId)) {
+      throw new Error(`Session ${params.sessionId} not found`);
+    }
+    
+    // Get page from browser manager
+    const { page, sessionId } = await browserManager.getPage(params.sessionId);
+    
+    const { navigated, status } = await navigateHistory(page, 1, {
+      waitUntil: params.waitUntil,
+      timeout: params.timeout,
+    });
+    
+    const url = page.url();
+    const title = await page.title();
+    
+    if (navigated) {
+      logger.info(`Went forward to ${url}`);
+    } else {
+      logger.warn('There is no next page in the session history');
+    }
+    
+    return {
+      success: navigated,
+      message: navigated ? `Went forward to ${url}` : 'There is no next page in the session history',
+      navigated,
+      url,
+      title,
+      status,
+      sessionId,
+    };
+  } catch (error) {
+    logger.error(`Error going forward: ${error instanceof Error ? error.message : String(error)}`);
+    
+    return {
+      success: false,
+      message: `Failed to go forward: ${error instanceof Error ? error.message : String(error)}`,
+      navigated: false,
+      sessionId: params.sessionId,
+    };
+  }
+}
+
+/**
+ * Register the go forward tool with the MCP server
+ * @param server The MCP server instance
+ * @param browserManager The browser manager instance
+ */
+export function registerGoForwardTool(
+  server: Server,
+  browserManager: BrowserManager
+): void {
+  logger.info('Registering go_forward tool');
+  
+  server.registerToolDefinition({
+    name: 'go_forward',
+    description: 'Go forward to the next page of a session, like the browser\'s forward button, after go_back',
+    parameters: GoForwardInputSchema,
+  });
+  
+  server.registerToolImplementation({
+    name: 'go_forward',
+    handler: async (params: GoForwardInput): Promise<GoForwardOutput> => goForward(browserManager, params),
+  });
+}
+
+export default registerGoForwardTool;
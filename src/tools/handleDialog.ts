@@ -0,0 +1,143 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { BrowserManager, OpenDialog } from '../browser/browserManager.js';
+import { DIALOG_POLICIES, describeDialog } from '../browser/dialogs.js';
+import { z } from 'zod';
+import { setupLogger, createContextLogger } from '../utils/logger.js';
+
+// Logger
+const logger = createContextLogger(setupLogger(), 'HandleDialogTool');
+
+/**
+ * Input schema for handle dialog tool
+ */
+const HandleDialogInputSchema = z.object({
+  sessionId: z.string().min(1, 'A session ID is required'),
+  action: z.enum(['accept', 'dismiss']).optional(),
+  promptText: z.string().optional(),
+  tabId: z.string().optional(),
+  policy: z.enum(DIALOG_POLICIES).optional(),
+}).refine(
+  data => data.action !== undefined || data.policy !== undefined,
+  {
+    message: 'Either action or policy must be provided',
+    path: ['action', 'policy'],
+  }
+);
+
+/**
+ * Type for handle dialog tool input
+ */
+export type HandleDialogInput = z.infer<typeof HandleDialogInputSchema>;
+
+/**
+ * Output schema for handle dialog tool
+ */
+const HandleDialogOutputSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  dialog: z.object({
+    tabId: z.string(),
+    type: z.string(),
+    message: z.string(),
+    defaultValue: z.string().optional(),
+    url: z.string(),
+    openedAt: z.string(),
+  }).optional(),
+  policy: z.enum(DIALOG_POLICIES).optional(),
+  pendingDialogs: z.number().optional(),
+  sessionId: z.string(),
+});
+
+/**
+ * Type for handle dialog tool output
+ */
+export type HandleDialogOutput = z.infer<typeof HandleDialogOutputSchema>;
+
+/**
+ * Answer the oldest dialog waiting in a session, and/or change how the session
+ * answers dialogs from now on. The policy is changed first, so switching to
+ * accept or dismiss also answers the dialogs already waiting.
+ * @param browserManager The browser manager instance
+ * @param params The tool input
+ * @returns The tool output
+ */
+export async function handleDialog(
+  browserManager: BrowserManager,
+  params: HandleDialogInput
+): Promise<HandleDialogOutput> {
+  logger.info(`Handling dialog in session ${params.sessionId}`);
+  
+  try {
+    if (!browserManager.hasSession(params.sessionId)) {
+      throw new Error(`Session ${params.sessionId} not found`);
+    }
+    
+    const sessionId = params.sessionId;
+    const parts: string[] = [];
+    let answered: OpenDialog | undefined;
+    
+    if (params.policy) {
+      const flushed = await browserManager.setDialogPolicy(sessionId, params.policy);
+      parts.push(`Dialog policy set to ${params.policy}`);
+      if (flushed.length > 0) {
+        parts.push(`${params.policy === 'accept' ? 'accepted' : 'dismissed'} ${flushed.length} waiting dialogs`);
+      }
+    }
+    
+    if (params.action) {
+      const accept = params.action === 'accept';
+      answered = await browserManager.handleDialog(sessionId, {
+        accept,
+        promptText: params.promptText,
+        tabId: params.tabId,
+      });
+      parts.push(`${accept ? 'Accepted' : 'Dismissed'} ${describeDialog(answered.type, answered.message)}`);
+    }
+    
+    const pendingDialogs = browserManager.getOpenDialogs(sessionId).length;
+    logger.info(`Handled dialog in session ${sessionId}`);
+    
+    return {
+      success: true,
+      message: `${parts.join('; ')}${pendingDialogs > 0 ? `; ${pendingDialogs} dialogs still waiting` : ''}`,
+      dialog: answered,
+      policy: browserManager.getDialogPolicy(sessionId),
+      pendingDialogs,
+      sessionId,
+    };
+  } catch (error) {
+    logger.error(`Error handling dialog: ${error instanceof Error ? error.message : String(error)}`);
+    
+    return {
+      success: false,
+      message: `Failed to handle dialog: ${error instanceof Error ? error.message : String(error)}`,
+      sessionId: params.sessionId || '',
+    };
+  }
+}
+
+/**
+ * Register the handle dialog tool with the MCP server
+ * @param server The MCP server instance
+ * @param browserManager The browser manager instance
+ */
+export function registerHandleDialogTool(
+  server: Server,
+  browserManager: BrowserManager
+): void {
+  logger.info('Registering handle_dialog tool');
+  
+  server.registerToolDefinition({
+    name: 'handle_dialog',
+    description: 'Answer a JavaScript dialog (alert, confirm, prompt or beforeunload) that blocks a session, ' +
+      'optionally with text for a prompt, or set whether the session accepts, dismisses or queues dialogs for this tool',
+    parameters: HandleDialogInputSchema,
+  });
+  
+  server.registerToolImplementation({
+    name: 'handle_dialog',
+    handler: async (params: HandleDialogInput): Promise<HandleDialogOutput> => handleDialog(browserManager, params),
+  });
+}
+
+export default registerHandleDialogTool;
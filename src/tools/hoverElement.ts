@@ -0,0 +1,140 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { BrowserManager } from '../browser/browserManager.js';
+import { resolveTarget, describeTarget, hasTarget } from '../browser/elementTarget.js';
+import { settleAfterAction, describeChanges } from '../browser/actionSettler.js';
+import { z } from 'zod';
+import { setupLogger, createContextLogger } from '../utils/logger.js';
+
+// Logger
+const logger = createContextLogger(setupLogger(), 'HoverElementTool');
+
+/**
+ * Input schema for hover element tool
+ */
+const HoverElementInputSchema = z.object({
+  selector: z.string().optional(),
+  text: z.string().optional(),
+  elementIndex: z.number().int().min(0).optional(),
+  index: z.number().min(0).default(0).optional(),
+  x: z.number().optional(),
+  y: z.number().optional(),
+  waitForSelector: z.string().optional(),
+  timeout: z.number().min(1000).default(30000).optional(),
+  sessionId: z.string().optional(),
+}).refine(
+  data => hasTarget(data),
+  {
+    message: 'Either text, selector, elementIndex or x and y must be provided',
+    path: ['text', 'selector', 'elementIndex', 'x', 'y'],
+  }
+);
+
+/**
+ * Type for hover element tool input
+ */
+export type HoverElementInput = z.infer<typeof HoverElementInputSchema>;
+
+/**
+ * Output schema for hover element tool
+ */
+const HoverElementOutputSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  changes: z.object({
+    navigated: z.boolean(),
+    urlChanged: z.boolean(),
+    previousUrl: z.string().optional(),
+    domMutations: z.number(),
+    requests: z.number(),
+    pendingRequests: z.number(),
+    dialogOpened: z.boolean(),
+    dialog: z.object({
+      type: z.string(),
+      message: z.string(),
+      action: z.enum(['accepted', 'dismissed', 'pending']),
+    }).optional(),
+    settled: z.boolean(),
+    elapsedMs: z.number(),
+  }).optional(),
+  sessionId: z.string(),
+});
+
+/**
+ * Type for hover element tool output
+ */
+export type HoverElementOutput = z.infer<typeof HoverElementOutputSchema>;
+
+/**
+ * Move the mouse over an element or point, for menus and tooltips that open on hover
+ * @param browserManager The browser manager instance
+ * @param params The tool input
+ * @returns The tool output
+ */
+export async function hoverElement(
+  browserManager: BrowserManager,
+  params: HoverElementInput
+): Promise<HoverElementOutput> {
+  const targetInfo = describeTarget(params);
+  
+  logger.info(`Hovering over ${targetInfo}`);
+  
+  try {
+    // Get page from browser manager
+    const { page, sessionId } = await browserManager.getPage(params.sessionId);
+    const timeout = params.timeout || 30000;
+    
+    const { element, x, y } = await resolveTarget(page, params, timeout);
+    const changes = await settleAfterAction(page, () => page.mouse.move(x, y), { timeout, dialogPolicy: browserManager.getDialogPolicy(sessionId) });
+    await element?.dispose();
+    
+    // Wait for the menu or tooltip the hover opens
+    if (params.waitForSelector) {
+      await page.waitForSelector(params.waitForSelector, { visible: true, timeout });
+    }
+    
+    logger.info(`Successfully hovered over ${targetInfo}`);
+    
+    return {
+      success: true,
+      message: params.waitForSelector
+        ? `Hovered over ${targetInfo}; ${params.waitForSelector} is visible`
+        : `Hovered over ${targetInfo}; ${describeChanges(changes)}`,
+      changes,
+      sessionId,
+    };
+  } catch (error) {
+    logger.error(`Error hovering over element: ${error instanceof Error ? error.message : String(error)}`);
+    
+    return {
+      success: false,
+      message: `Failed to hover over element: ${error instanceof Error ? error.message : String(error)}`,
+      sessionId: params.sessionId || '',
+    };
+  }
+}
+
+/**
+ * Register the hover element tool with the MCP server
+ * @param server The MCP server instance
+ * @param browserManager The browser manager instance
+ */
+export function registerHoverElementTool(
+  server: Server,
+  browserManager: BrowserManager
+): void {
+  logger.info('Registering hover_element tool');
+  
+  server.registerToolDefinition({
+    name: 'hover_element',
+    description: 'Move the mouse over an element found by selector, text, element index or x/y coordinates, ' +
+      'to open menus and tooltips that appear on hover; optionally wait for a selector to become visible',
+    parameters: HoverElementInputSchema,
+  });
+  
+  server.registerToolImplementation({
+    name: 'hover_element',
+    handler: async (params: HoverElementInput): Promise<HoverElementOutput> => hoverElement(browserManager, params),
+  });
+}
+
+export default registerHoverElementTool;
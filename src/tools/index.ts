@@ -1,12 +1,39 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { BrowserManager } from '../browser/browserManager.js';
 import { registerBrowseWebpageTool } from './browseWebpage.js';
+import { registerGoBackTool } from './goBack.js';
+import { registerGoForwardTool } from './goForward.js';
+import { registerReloadTool } from './reload.js';
+import { registerGetPageStateTool } from './getPageState.js';
+import { registerWaitForTool } from './waitFor.js';
+import { registerHandleDialogTool } from './handleDialog.js';
 import { registerSearchWebTool } from './searchWeb.js';
 import { registerTakeScreenshotTool } from './takeScreenshot.js';
 import { registerClickElementTool } from './clickElement.js';
+import { registerTypeTextTool } from './typeText.js';
+import { registerPressKeyTool } from './pressKey.js';
+import { registerHoverElementTool } from './hoverElement.js';
+import { registerScrollTool } from './scroll.js';
+import { registerDragAndDropTool } from './dragAndDrop.js';
 import { registerFillFormTool } from './fillForm.js';
+import { registerInspectFormsTool } from './inspectForms.js';
+import { registerSmartFillFormTool } from './smartFillForm.js';
 import { registerExtractContentTool } from './extractContent.js';
 import { registerAnalyzeContentTool } from './analyzeContent.js';
+import { registerExtractStructuredDataTool } from './extractStructuredData.js';
+import { registerGetInteractiveElementsTool } from './getInteractiveElements.js';
+import { registerRunBrowserTaskTool } from './runBrowserTask.js';
+import { registerListSessionsTool } from './listSessions.js';
+import { registerCloseSessionTool } from './closeSession.js';
+import { registerListTabsTool } from './listTabs.js';
+import { registerSwitchTabTool } from './switchTab.js';
+import { registerCloseTabTool } from './closeTab.js';
+import { registerSetNetworkRulesTool } from './setNetworkRules.js';
+import { registerStartNetworkCaptureTool } from './startNetworkCapture.js';
+import { registerStopNetworkCaptureTool } from './stopNetworkCapture.js';
+import { registerGetConsoleLogsTool } from './getConsoleLogs.js';
+import { registerListDownloadsTool } from './listDownloads.js';
+import { registerGetDownloadTool } from './getDownload.js';
 import { setupLogger, createContextLogger } from '../utils/logger.js';
 
 // Logger
@@ -22,12 +49,39 @@ export function setupTools(server: Server, browserManager: BrowserManager): void
   
   // Register all the tools
   registerBrowseWebpageTool(server, browserManager);
+  registerGoBackTool(server, browserManager);
+  registerGoForwardTool(server, browserManager);
+  registerReloadTool(server, browserManager);
+  registerGetPageStateTool(server, browserManager);
+  registerWaitForTool(server, browserManager);
+  registerHandleDialogTool(server, browserManager);
   registerSearchWebTool(server, browserManager);
   registerTakeScreenshotTool(server, browserManager);
   registerClickElementTool(server, browserManager);
+  registerTypeTextTool(server, browserManager);
+  registerPressKeyTool(server, browserManager);
+  registerHoverElementTool(server, browserManager);
+  registerScrollTool(server, browserManager);
+  registerDragAndDropTool(server, browserManager);
   registerFillFormTool(server, browserManager);
+  registerInspectFormsTool(server, browserManager);
+  registerSmartFillFormTool(server, browserManager);
   registerExtractContentTool(server, browserManager);
   registerAnalyzeContentTool(server, browserManager);
+  registerExtractStructuredDataTool(server, browserManager);
+  registerGetInteractiveElementsTool(server, browserManager);
+  registerRunBrowserTaskTool(server, browserManager);
+  registerListSessionsTool(server, browserManager);
+  registerCloseSessionTool(server, browserManager);
+  registerListTabsTool(server, browserManager);
+  registerSwitchTabTool(server, browserManager);
+  registerCloseTabTool(server, browserManager);
+  registerSetNetworkRulesTool(server, browserManager);
+  registerStartNetworkCaptureTool(server, browserManager);
+  registerStopNetworkCaptureTool(server, browserManager);
+  registerGetConsoleLogsTool(server, browserManager);
+  registerListDownloadsTool(server, browserManager);
+  registerGetDownloadTool(server, browserManager);
   
   logger.info('Tools setup complete');
 }
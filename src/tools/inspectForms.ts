@@ -0,0 +1,150 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { BrowserManager } from '../browser/browserManager.js';
+import { inspectForms as describePageForms } from '../browser/formInspector.js';
+import { z } from 'zod';
+import { setupLogger, createContextLogger } from '../utils/logger.js';
+
+// Logger
+const logger = createContextLogger(setupLogger(), 'InspectFormsTool');
+
+/**
+ * Input schema for inspect forms tool
+ */
+const InspectFormsInputSchema = z.object({
+  url: z.string().url().optional(),
+  selector: z.string().optional(),
+  includeHidden: z.boolean().default(false).optional(),
+  sessionId: z.string().optional(),
+});
+
+/**
+ * Type for inspect forms tool input
+ */
+export type InspectFormsInput = z.infer<typeof InspectFormsInputSchema>;
+
+/**
+ * Schema for a form field option
+ */
+const FormFieldOptionSchema = z.object({
+  value: z.string(),
+  label: z.string(),
+  selected: z.boolean(),
+});
+
+/**
+ * Output schema for inspect forms tool
+ */
+const InspectFormsOutputSchema = z.object({
+  url: z.string(),
+  title: z.string(),
+  forms: z.array(z.object({
+    index: z.number(),
+    formless: z.boolean(),
+    id: z.string().optional(),
+    name: z.string().optional(),
+    action: z.string().optional(),
+    method: z.string().optional(),
+    selector: z.string().optional(),
+    fields: z.array(z.object({
+      fieldName: z.string(),
+      tagName: z.string(),
+      type: z.string(),
+      name: z.string().optional(),
+      id: z.string().optional(),
+      label: z.string().optional(),
+      placeholder: z.string().optional(),
+      required: z.boolean(),
+      disabled: z.boolean(),
+      pattern: z.string().optional(),
+      minLength: z.number().optional(),
+      maxLength: z.number().optional(),
+      min: z.string().optional(),
+      max: z.string().optional(),
+      multiple: z.boolean().optional(),
+      value: z.string().optional(),
+      checked: z.boolean().optional(),
+      options: z.array(FormFieldOptionSchema).optional(),
+      selector: z.string(),
+    })),
+    submitButton: z.object({
+      text: z.string(),
+      selector: z.string(),
+    }).optional(),
+  })),
+  sessionId: z.string(),
+});
+
+/**
+ * Type for inspect forms tool output
+ */
+export type InspectFormsOutput = z.infer<typeof InspectFormsOutputSchema>;
+
+/**
+ * List the forms on the current page with their fields and submit buttons
+ * @param browserManager The browser manager instance
+ * @param params The tool input
+ * @returns The tool output
+ */
+export async function inspectForms(
+  browserManager: BrowserManager,
+  params: InspectFormsInput
+): Promise<InspectFormsOutput> {
+  logger.info('Inspecting forms');
+  
+  try {
+    // Get page from browser manager
+    const { page, sessionId } = await browserManager.getPage(params.sessionId);
+    
+    // Navigate to URL if provided
+    if (params.url) {
+      await page.goto(params.url, {
+        waitUntil: 'networkidle2',
+        timeout: 30000,
+      });
+    }
+    
+    const forms = await describePageForms(page, {
+      selector: params.selector,
+      includeHidden: params.includeHidden,
+    });
+    
+    logger.info(`Found ${forms.length} forms with ${forms.reduce((count, form) => count + form.fields.length, 0)} fields`);
+    
+    return {
+      url: page.url(),
+      title: await page.title(),
+      forms,
+      sessionId,
+    };
+  } catch (error) {
+    logger.error(`Error inspecting forms: ${error instanceof Error ? error.message : String(error)}`);
+    throw error;
+  }
+}
+
+/**
+ * Register the inspect forms tool with the MCP server
+ * @param server The MCP server instance
+ * @param browserManager The browser manager instance
+ */
+export function registerInspectFormsTool(
+  server: Server,
+  browserManager: BrowserManager
+): void {
+  logger.info('Registering inspect_forms tool');
+  
+  server.registerToolDefinition({
+    name: 'inspect_forms',
+    description: 'List every form on the page, including controls outside <form>, with each field\'s type, ' +
+      'label, constraints, current value and options, and the likely submit button; ' +
+      'pass a field\'s fieldName to fill_form',
+    parameters: InspectFormsInputSchema,
+  });
+  
+  server.registerToolImplementation({
+    name: 'inspect_forms',
+    handler: async (params: InspectFormsInput): Promise<InspectFormsOutput> => inspectForms(browserManager, params),
+  });
+}
+
+export default registerInspectFormsTool;
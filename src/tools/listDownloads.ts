@@ -0,0 +1,98 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { BrowserManager } from '../browser/browserManager.js';
+import { z } from 'zod';
+import { setupLogger, createContextLogger } from '../utils/logger.js';
+
+// Logger
+const logger = createContextLogger(setupLogger(), 'ListDownloadsTool');
+
+/**
+ * Input schema for list downloads tool
+ */
+const ListDownloadsInputSchema = z.object({
+  sessionId: z.string().min(1, 'A session ID is required'),
+  state: z.enum(['inProgress', 'completed', 'canceled']).optional(),
+});
+
+/**
+ * Type for list downloads tool input
+ */
+export type ListDownloadsInput = z.infer<typeof ListDownloadsInputSchema>;
+
+/**
+ * Output schema for list downloads tool
+ */
+const ListDownloadsOutputSchema = z.object({
+  downloads: z.array(z.object({
+    id: z.string(),
+    tabId: z.string().optional(),
+    url: z.string(),
+    fileName: z.string(),
+    mimeType: z.string(),
+    size: z.number(),
+    totalBytes: z.number(),
+    state: z.enum(['inProgress', 'completed', 'canceled']),
+    path: z.string().optional(),
+    startedAt: z.string(),
+    finishedAt: z.string().optional(),
+  })),
+  directory: z.string(),
+  sessionId: z.string(),
+});
+
+/**
+ * Type for list downloads tool output
+ */
+export type ListDownloadsOutput = z.infer<typeof ListDownloadsOutputSchema>;
+
+/**
+ * List the files a session downloaded or is downloading, oldest first
+ * @param browserManager The browser manager instance
+ * @param params The tool input
+ * @returns The tool output
+ */
+export async function listDownloads(
+  browserManager: BrowserManager,
+  params: ListDownloadsInput
+): Promise<ListDownloadsOutput> {
+  logger.info(`Listing downloads for session ${params.sessionId}`);
+  
+  try {
+    const { downloads, directory } = browserManager.listDownloads(params.sessionId);
+    
+    return {
+      downloads: params.state ? downloads.filter(download => download.state === params.state) : downloads,
+      directory,
+      sessionId: params.sessionId,
+    };
+  } catch (error) {
+    logger.error(`Error listing downloads: ${error instanceof Error ? error.message : String(error)}`);
+    throw error;
+  }
+}
+
+/**
+ * Register the list downloads tool with the MCP server
+ * @param server The MCP server instance
+ * @param browserManager The browser manager instance
+ */
+export function registerListDownloadsTool(
+  server: Server,
+  browserManager: BrowserManager
+): void {
+  logger.info('Registering list_downloads tool');
+  
+  server.registerToolDefinition({
+    name: 'list_downloads',
+    description: 'List the files a session downloaded, for example by clicking an export or invoice link, ' +
+      'with their file name, size, MIME type, state and local path',
+    parameters: ListDownloadsInputSchema,
+  });
+  
+  server.registerToolImplementation({
+    name: 'list_downloads',
+    handler: async (params: ListDownloadsInput): Promise<ListDownloadsOutput> => listDownloads(browserManager, params),
+  });
+}
+
+export default registerListDownloadsTool;
@@ -0,0 +1,71 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { BrowserManager } from '../browser/browserManager.js';
+import { z } from 'zod';
+import { setupLogger, createContextLogger } from '../utils/logger.js';
+
+// Logger
+const logger = createContextLogger(setupLogger(), 'ListSessionsTool');
+
+/**
+ * Input schema for list sessions tool
+ */
+const ListSessionsInputSchema = z.object({});
+
+/**
+ * Output schema for list sessions tool
+ */
+const ListSessionsOutputSchema = z.object({
+  sessions: z.array(z.object({
+    sessionId: z.string(),
+    url: z.string(),
+    title: z.string(),
+    tabCount: z.number(),
+    isolated: z.boolean(),
+    adopted: z.boolean(),
+    createdAt: z.string(),
+    lastActivity: z.string(),
+  })),
+});
+
+/**
+ * Type for list sessions tool output
+ */
+type ListSessionsOutput = z.infer<typeof ListSessionsOutputSchema>;
+
+/**
+ * Register the list sessions tool with the MCP server
+ * @param server The MCP server instance
+ * @param browserManager The browser manager instance
+ */
+export function registerListSessionsTool(
+  server: Server,
+  browserManager: BrowserManager
+): void {
+  logger.info('Registering list_sessions tool');
+  
+  server.registerToolDefinition({
+    name: 'list_sessions',
+    description: 'List the open browser sessions with their current page and last activity',
+    parameters: ListSessionsInputSchema,
+  });
+  
+  server.registerToolImplementation({
+    name: 'list_sessions',
+    handler: async (): Promise<ListSessionsOutput> => {
+      logger.info('Listing browser sessions');
+      
+      try {
+        const sessions = await browserManager.listSessions();
+        
+        logger.info(`Found ${sessions.length} open sessions`);
+        
+        return { sessions };
+      } catch (error) {
+        logger.error(`Error listing sessions: ${error instanceof Error ? error.message : String(error)}`);
+        throw error;
+      }
+    },
+  });
+}
+
+export default registerListSessionsTool;
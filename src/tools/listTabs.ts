@@ -0,0 +1,77 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { BrowserManager } from '../browser/browserManager.js';
+import { z } from 'zod';
+import { setupLogger, createContextLogger } from '../utils/logger.js';
+
+// Logger
+const logger = createContextLogger(setupLogger(), 'ListTabsTool');
+
+/**
+ * Input schema for list tabs tool
+ */
+const ListTabsInputSchema = z.object({
+  sessionId: z.string().min(1, 'A session ID is required'),
+});
+
+/**
+ * Type for list tabs tool input
+ */
+type ListTabsInput = z.infer<typeof ListTabsInputSchema>;
+
+/**
+ * Output schema for list tabs tool
+ */
+const ListTabsOutputSchema = z.object({
+  tabs: z.array(z.object({
+    tabId: z.string(),
+    index: z.number(),
+    url: z.string(),
+    title: z.string(),
+    active: z.boolean(),
+  })),
+  sessionId: z.string(),
+});
+
+/**
+ * Type for list tabs tool output
+ */
+type ListTabsOutput = z.infer<typeof ListTabsOutputSchema>;
+
+/**
+ * Register the list tabs tool with the MCP server
+ * @param server The MCP server instance
+ * @param browserManager The browser manager instance
+ */
+export function registerListTabsTool(
+  server: Server,
+  browserManager: BrowserManager
+): void {
+  logger.info('Registering list_tabs tool');
+  
+  server.registerToolDefinition({
+    name: 'list_tabs',
+    description: 'List the tabs and popups of a browser session, including tabs opened by clicks',
+    parameters: ListTabsInputSchema,
+  });
+  
+  server.registerToolImplementation({
+    name: 'list_tabs',
+    handler: async (params: ListTabsInput): Promise<ListTabsOutput> => {
+      logger.info(`Listing tabs of session ${params.sessionId}`);
+      
+      try {
+        const tabs = await browserManager.listTabs(params.sessionId);
+        
+        return {
+          tabs,
+          sessionId: params.sessionId,
+        };
+      } catch (error) {
+        logger.error(`Error listing tabs: ${error instanceof Error ? error.message : String(error)}`);
+        throw error;
+      }
+    },
+  });
+}
+
+export default registerListTabsTool;
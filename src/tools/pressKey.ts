@@ -0,0 +1,146 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { BrowserManager } from '../browser/browserManager.js';
+import { resolveTarget, describeTarget, hasTarget } from '../browser/elementTarget.js';
+import { parseKeySequence, pressChords } from '../browser/keyboard.js';
+import { settleAfterAction, describeChanges } from '../browser/actionSettler.js';
+import { z } from 'zod';
+import { setupLogger, createContextLogger } from '../utils/logger.js';
+
+// Logger
+const logger = createContextLogger(setupLogger(), 'PressKeyTool');
+
+/**
+ * Input schema for press key tool
+ */
+const PressKeyInputSchema = z.object({
+  keys: z.string().min(1, 'Keys are required'),
+  repeat: z.number().int().min(1).max(100).default(1).optional(),
+  selector: z.string().optional(),
+  text: z.string().optional(),
+  elementIndex: z.number().int().min(0).optional(),
+  index: z.number().min(0).default(0).optional(),
+  x: z.number().optional(),
+  y: z.number().optional(),
+  timeout: z.number().min(1000).default(30000).optional(),
+  sessionId: z.string().optional(),
+});
+
+/**
+ * Type for press key tool input
+ */
+export type PressKeyInput = z.infer<typeof PressKeyInputSchema>;
+
+/**
+ * Output schema for press key tool
+ */
+const PressKeyOutputSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  url: z.string().optional(),
+  changes: z.object({
+    navigated: z.boolean(),
+    urlChanged: z.boolean(),
+    previousUrl: z.string().optional(),
+    domMutations: z.number(),
+    requests: z.number(),
+    pendingRequests: z.number(),
+    dialogOpened: z.boolean(),
+    dialog: z.object({
+      type: z.string(),
+      message: z.string(),
+      action: z.enum(['accepted', 'dismissed', 'pending']),
+    }).optional(),
+    settled: z.boolean(),
+    elapsedMs: z.number(),
+  }).optional(),
+  sessionId: z.string(),
+});
+
+/**
+ * Type for press key tool output
+ */
+export type PressKeyOutput = z.infer<typeof PressKeyOutputSchema>;
+
+/**
+ * Press keys or key combinations, optionally focusing an element first
+ * @param browserManager The browser manager instance
+ * @param params The tool input
+ * @returns The tool output
+ */
+export async function pressKey(
+  browserManager: BrowserManager,
+  params: PressKeyInput
+): Promise<PressKeyOutput> {
+  const targetInfo = hasTarget(params) ? describeTarget(params) : 'the focused element';
+  
+  logger.info(`Pressing ${params.keys} on ${targetInfo}`);
+  
+  try {
+    // Get page from browser manager
+    const { page, sessionId } = await browserManager.getPage(params.sessionId);
+    const chords = parseKeySequence(params.keys);
+    
+    // Focus the target without clicking it, so the keys are the only interaction
+    if (hasTarget(params)) {
+      const { element, x, y } = await resolveTarget(page, params, params.timeout || 30000);
+      if (element) {
+        await element.focus();
+        await element.dispose();
+      } else {
+        await page.mouse.click(x, y);
+      }
+    }
+    
+    const repeat = params.repeat || 1;
+    const changes = await settleAfterAction(page, async () => {
+      for (let i = 0; i < repeat; i++) {
+        await pressChords(page, chords);
+      }
+    }, { timeout: params.timeout || 30000, dialogPolicy: browserManager.getDialogPolicy(sessionId) });
+    
+    logger.info(`Successfully pressed ${params.keys}`);
+    
+    return {
+      success: true,
+      message: `Pressed ${params.keys}${repeat > 1 ? ` ${repeat} times` : ''} on ${targetInfo}; ${describeChanges(changes)}`,
+      url: page.url(),
+      changes,
+      sessionId,
+    };
+  } catch (error) {
+    logger.error(`Error pressing keys: ${error instanceof Error ? error.message : String(error)}`);
+    
+    return {
+      success: false,
+      message: `Failed to press keys: ${error instanceof Error ? error.message : String(error)}`,
+      sessionId: params.sessionId || '',
+    };
+  }
+}
+
+/**
+ * Register the press key tool with the MCP server
+ * @param server The MCP server instance
+ * @param browserManager The browser manager instance
+ */
+export function registerPressKeyTool(
+  server: Server,
+  browserManager: BrowserManager
+): void {
+  logger.info('Registering press_key tool');
+  
+  server.registerToolDefinition({
+    name: 'press_key',
+    description: 'Press a key, a combination such as "Control+Shift+P", or a sequence of chords such as ' +
+      '"Control+K Control+C" ("ControlOrMeta" is Meta on macOS), on the focused element or on the element ' +
+      'found by selector, text, element index or x/y coordinates',
+    parameters: PressKeyInputSchema,
+  });
+  
+  server.registerToolImplementation({
+    name: 'press_key',
+    handler: async (params: PressKeyInput): Promise<PressKeyOutput> => pressKey(browserManager, params),
+  });
+}
+
+export default registerPressKeyTool;
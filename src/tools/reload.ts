@@ -0,0 +1,110 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { BrowserManager } from '../browser/browserManager.js';
+import { z } from 'zod';
+import { setupLogger, createContextLogger } from '../utils/logger.js';
+
+// Logger
+const logger = createContextLogger(setupLogger(), 'ReloadTool');
+
+/**
+ * Input schema for reload tool
+ */
+const ReloadInputSchema = z.object({
+  sessionId: z.string().min(1, 'A session ID is required'),
+  waitUntil: z.enum(['load', 'domcontentloaded', 'networkidle0', 'networkidle2']).default('load').optional(),
+  timeout: z.number().min(1000).default(30000).optional(),
+});
+
+/**
+ * Type for reload tool input
+ */
+export type ReloadInput = z.infer<typeof ReloadInputSchema>;
+
+/**
+ * Output schema for reload tool
+ */
+const ReloadOutputSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  url: z.string().optional(),
+  title: z.string().optional(),
+  status: z.number().optional(),
+  sessionId: z.string(),
+});
+
+/**
+ * Type for reload tool output
+ */
+export type ReloadOutput = z.infer<typeof ReloadOutputSchema>;
+
+/**
+ * Reload the current page of a session
+ * @param browserManager The browser manager instance
+ * @param params The tool input
+ * @returns The tool output
+ */
+export async function reload(
+  browserManager: BrowserManager,
+  params: ReloadInput
+): Promise<ReloadOutput> {
+  logger.info(`Reloading page in session ${params.sessionId}`);
+  
+  try {
+    if (!browserManager.hasSession(params.sessionId)) {
+      throw new Error(`Session ${params.sessionId} not found`);
+    }
+    
+    // Get page from browser manager
+    const { page, sessionId } = await browserManager.getPage(params.sessionId);
+    
+    const response = await page.reload({
+      waitUntil: params.waitUntil || 'load',
+      timeout: params.timeout || 30000,
+    });
+    
+    const url = page.url();
+    logger.info(`Reloaded ${url}`);
+    
+    return {
+      success: true,
+      message: `Reloaded ${url}`,
+      url,
+      title: await page.title(),
+      status: response?.status(),
+      sessionId,
+    };
+  } catch (error) {
+    logger.error(`Error reloading page: ${error instanceof Error ? error.message : String(error)}`);
+    
+    return {
+      success: false,
+      message: `Failed to reload page: ${error instanceof Error ? error.message : String(error)}`,
+      sessionId: params.sessionId,
+    };
+  }
+}
+
+/**
+ * Register the reload tool with the MCP server
+ * @param server The MCP server instance
+ * @param browserManager The browser manager instance
+ */
+export function registerReloadTool(
+  server: Server,
+  browserManager: BrowserManager
+): void {
+  logger.info('Registering reload tool');
+  
+  server.registerToolDefinition({
+    name: 'reload',
+    description: 'Reload the current page of a session, like the browser\'s reload button',
+    parameters: ReloadInputSchema,
+  });
+  
+  server.registerToolImplementation({
+    name: 'reload',
+    handler: async (params: ReloadInput): Promise<ReloadOutput> => reload(browserManager, params),
+  });
+}
+
+export default registerReloadTool;
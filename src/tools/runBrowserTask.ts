@@ -0,0 +1,97 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { BrowserManager } from '../browser/browserManager.js';
+import { BrowserAgent } from '../agent/browserAgent.js';
+import { AIService } from '../ai/aiService.js';
+import { z } from 'zod';
+import { setupLogger, createContextLogger } from '../utils/logger.js';
+
+// Logger
+const logger = createContextLogger(setupLogger(), 'RunBrowserTaskTool');
+
+/**
+ * Input schema for run browser task tool
+ */
+const RunBrowserTaskInputSchema = z.object({
+  goal: z.string().min(1, 'A goal is required'),
+  startUrl: z.string().url().optional(),
+  maxSteps: z.number().int().min(1).max(50).default(15).optional(),
+  useScreenshots: z.boolean().default(false).optional(),
+  sessionId: z.string().optional(),
+});
+
+/**
+ * Type for run browser task tool input
+ */
+type RunBrowserTaskInput = z.infer<typeof RunBrowserTaskInputSchema>;
+
+/**
+ * Output schema for run browser task tool
+ */
+const RunBrowserTaskOutputSchema = z.object({
+  goal: z.string(),
+  status: z.enum(['completed', 'failed', 'max_steps_reached']),
+  result: z.string(),
+  steps: z.array(z.object({
+    step: z.number(),
+    thought: z.string(),
+    action: z.record(z.any()).nullable(),
+    success: z.boolean(),
+    observation: z.string(),
+    url: z.string(),
+  })),
+  sessionId: z.string(),
+});
+
+/**
+ * Type for run browser task tool output
+ */
+type RunBrowserTaskOutput = z.infer<typeof RunBrowserTaskOutputSchema>;
+
+/**
+ * Register the run browser task tool with the MCP server
+ * @param server The MCP server instance
+ * @param browserManager The browser manager instance
+ */
+export function registerRunBrowserTaskTool(
+  server: Server,
+  browserManager: BrowserManager
+): void {
+  logger.info('Registering run_browser_task tool');
+  
+  server.registerToolDefinition({
+    name: 'run_browser_task',
+    description: 'Autonomously pursue a natural-language goal in the browser, choosing each action with AI, ' +
+      'and return the full action trace',
+    parameters: RunBrowserTaskInputSchema,
+  });
+  
+  server.registerToolImplementation({
+    name: 'run_browser_task',
+    handler: async (params: RunBrowserTaskInput): Promise<RunBrowserTaskOutput> => {
+      logger.info(`Running browser task: ${params.goal}`);
+      
+      try {
+        // Initialize AI service and agent
+        const aiService = new AIService();
+        const agent = new BrowserAgent(browserManager, aiService);
+        
+        // Run the observe-act loop
+        const result = await agent.run(params.goal, {
+          maxSteps: params.maxSteps,
+          useScreenshots: params.useScreenshots,
+          startUrl: params.startUrl,
+          sessionId: params.sessionId,
+        });
+        
+        logger.info(`Browser task finished with status ${result.status} after ${result.steps.length} steps`);
+        
+        return result;
+      } catch (error) {
+        logger.error(`Error running browser task: ${error instanceof Error ? error.message : String(error)}`);
+        throw error;
+      }
+    },
+  });
+}
+
+export default registerRunBrowserTaskTool;
@@ -0,0 +1,204 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { BrowserManager } from '../browser/browserManager.js';
+import { resolveTarget, describeTarget, hasTarget } from '../browser/elementTarget.js';
+import { settleAfterAction, describeChanges } from '../browser/actionSettler.js';
+import { z } from 'zod';
+import { setupLogger, createContextLogger } from '../utils/logger.js';
+
+// Logger
+const logger = createContextLogger(setupLogger(), 'ScrollTool');
+
+/**
+ * Input schema for scroll tool
+ */
+const ScrollInputSchema = z.object({
+  deltaX: z.number().optional(),
+  deltaY: z.number().optional(),
+  to: z.enum(['top', 'bottom']).optional(),
+  selector: z.string().optional(),
+  text: z.string().optional(),
+  elementIndex: z.number().int().min(0).optional(),
+  index: z.number().min(0).default(0).optional(),
+  x: z.number().optional(),
+  y: z.number().optional(),
+  timeout: z.number().min(1000).default(30000).optional(),
+  sessionId: z.string().optional(),
+}).refine(
+  data => data.deltaX !== undefined || data.deltaY !== undefined || data.to !== undefined ||
+    data.text !== undefined || data.selector !== undefined || data.elementIndex !== undefined,
+  {
+    message: 'Either deltaX/deltaY, to, or an element to scroll into view must be provided',
+    path: ['deltaX', 'deltaY', 'to'],
+  }
+);
+
+/**
+ * Type for scroll tool input
+ */
+export type ScrollInput = z.infer<typeof ScrollInputSchema>;
+
+/**
+ * Output schema for scroll tool
+ */
+const ScrollOutputSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  position: z.object({
+    scrollX: z.number(),
+    scrollY: z.number(),
+    maxScrollX: z.number(),
+    maxScrollY: z.number(),
+    atTop: z.boolean(),
+    atBottom: z.boolean(),
+  }).optional(),
+  changes: z.object({
+    navigated: z.boolean(),
+    urlChanged: z.boolean(),
+    previousUrl: z.string().optional(),
+    domMutations: z.number(),
+    requests: z.number(),
+    pendingRequests: z.number(),
+    dialogOpened: z.boolean(),
+    dialog: z.object({
+      type: z.string(),
+      message: z.string(),
+      action: z.enum(['accepted', 'dismissed', 'pending']),
+    }).optional(),
+    settled: z.boolean(),
+    elapsedMs: z.number(),
+  }).optional(),
+  sessionId: z.string(),
+});
+
+/**
+ * Type for scroll tool output
+ */
+export type ScrollOutput = z.infer<typeof ScrollOutputSchema>;
+
+/**
+ * Scroll the page or a scrollable element by pixels or to the top or bottom,
+ * or scroll an element into view
+ * @param browserManager The browser manager instance
+ * @param params The tool input
+ * @returns The tool output
+ */
+export async function scroll(
+  browserManager: BrowserManager,
+  params: ScrollInput
+): Promise<ScrollOutput> {
+  const byAmount = params.deltaX !== undefined || params.deltaY !== undefined || params.to !== undefined;
+  const targetInfo = hasTarget(params) ? describeTarget(params) : 'the page';
+  const scrollInfo = params.to
+    ? `to the ${params.to}`
+    : byAmount
+      ? `by (${params.deltaX || 0}, ${params.deltaY || 0})`
+      : 'into view';
+  
+  logger.info(`Scrolling ${targetInfo} ${scrollInfo}`);
+  
+  try {
+    // Get page from browser manager
+    const { page, sessionId } = await browserManager.getPage(params.sessionId);
+    
+    // An element target without an amount is scrolled into view, which resolving it does
+    const resolved = hasTarget(params) ? await resolveTarget(page, params, params.timeout || 30000) : null;
+    
+    // Scrolling can load more content, so wait for the page to settle; the position is read when scrolling
+    let position!: NonNullable<ScrollOutput['position']>;
+    const changes = await settleAfterAction(page, async () => {
+      position = await page.evaluate(
+        (element, point, deltaX, deltaY, to) => {
+          const scrollingElement = document.scrollingElement || document.documentElement;
+          
+          // Scroll the target element, the scrollable element under the point, or the page
+          const scrollableFrom = (start: Element | null): Element => {
+            for (let el = start; el && el !== document.body && el !== document.documentElement; el = el.parentElement) {
+              const style = getComputedStyle(el);
+              const scrollable = /(auto|scroll|overlay)/.test(style.overflowY + style.overflowX);
+              if (scrollable && (el.scrollHeight > el.clientHeight || el.scrollWidth > el.clientWidth)) {
+                return el;
+              }
+            }
+            return scrollingElement;
+          };
+          const container = element
+            ? scrollableFrom(element)
+            : point
+              ? scrollableFrom(document.elementFromPoint(point.x, point.y))
+              : scrollingElement;
+          
+          if (to === 'top') {
+            container.scrollTo({ top: 0, behavior: 'instant' as ScrollBehavior });
+          } else if (to === 'bottom') {
+            container.scrollTo({ top: container.scrollHeight, behavior: 'instant' as ScrollBehavior });
+          } else if (deltaX !== null || deltaY !== null) {
+            container.scrollBy({ left: deltaX || 0, top: deltaY || 0, behavior: 'instant' as ScrollBehavior });
+          }
+          
+          const maxScrollX = Math.max(0, container.scrollWidth - container.clientWidth);
+          const maxScrollY = Math.max(0, container.scrollHeight - container.clientHeight);
+          return {
+            scrollX: Math.round(container.scrollLeft),
+            scrollY: Math.round(container.scrollTop),
+            maxScrollX,
+            maxScrollY,
+            atTop: container.scrollTop <= 0,
+            atBottom: container.scrollTop >= maxScrollY - 1,
+          };
+        },
+        resolved?.element || null,
+        resolved && !resolved.element ? { x: resolved.x, y: resolved.y } : null,
+        params.deltaX ?? null,
+        params.deltaY ?? null,
+        params.to ?? null
+      );
+    }, { timeout: params.timeout || 30000, dialogPolicy: browserManager.getDialogPolicy(sessionId) });
+    await resolved?.element?.dispose();
+    
+    logger.info(`Successfully scrolled ${targetInfo} to (${position.scrollX}, ${position.scrollY})`);
+    
+    return {
+      success: true,
+      message: byAmount
+        ? `Scrolled ${targetInfo} ${scrollInfo}; now at (${position.scrollX}, ${position.scrollY}); ${describeChanges(changes)}`
+        : `Scrolled ${targetInfo} into view; ${describeChanges(changes)}`,
+      position,
+      changes,
+      sessionId,
+    };
+  } catch (error) {
+    logger.error(`Error scrolling: ${error instanceof Error ? error.message : String(error)}`);
+    
+    return {
+      success: false,
+      message: `Failed to scroll: ${error instanceof Error ? error.message : String(error)}`,
+      sessionId: params.sessionId || '',
+    };
+  }
+}
+
+/**
+ * Register the scroll tool with the MCP server
+ * @param server The MCP server instance
+ * @param browserManager The browser manager instance
+ */
+export function registerScrollTool(
+  server: Server,
+  browserManager: BrowserManager
+): void {
+  logger.info('Registering scroll tool');
+  
+  server.registerToolDefinition({
+    name: 'scroll',
+    description: 'Scroll the page by pixels (deltaX/deltaY) or to the top or bottom, or scroll an element into view; ' +
+      'with a selector, text, element index or x/y coordinates and an amount, the scrollable element there is scrolled',
+    parameters: ScrollInputSchema,
+  });
+  
+  server.registerToolImplementation({
+    name: 'scroll',
+    handler: async (params: ScrollInput): Promise<ScrollOutput> => scroll(browserManager, params),
+  });
+}
+
+export default registerScrollTool;
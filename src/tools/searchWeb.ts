@@ -1,11 +1,17 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { BrowserManager } from '../browser/browserManager.js';
+import { SearchProviderFactory, SearchResultItem } from '../search/providers/index.js';
 import { z } from 'zod';
 import { setupLogger, createContextLogger } from '../utils/logger.js';
 
 // Logger
 const logger = createContextLogger(setupLogger(), 'SearchWebTool');
 
+/**
+ * HTTP statuses that mean the search engine refused the request
+ */
+const BLOCKED_STATUSES = [403, 429, 503];
+
 /**
  * Input schema for search web tool
  */
@@ -13,129 +19,149 @@ const SearchWebInputSchema = z.object({
   query: z.string().min(1, 'Search query is required'),
   numResults: z.number().min(1).max(10).default(5).optional(),
   site: z.string().optional(),
+  provider: z.enum(['duckduckgo', 'bing', 'searxng', 'google']).optional(),
+  fallback: z.boolean().default(true).optional(),
   sessionId: z.string().optional(),
 });
 
 /**
  * Type for search web tool input
  */
-type SearchWebInput = z.infer<typeof SearchWebInputSchema>;
-
-/**
- * Type for a search result item
- */
-interface SearchResultItem {
-  title: string;
-  url: string;
-  snippet: string;
-}
+export type SearchWebInput = z.infer<typeof SearchWebInputSchema>;
 
 /**
  * Output schema for search web tool
  */
 const SearchWebOutputSchema = z.object({
   query: z.string(),
+  provider: z.string().nullable(),
   results: z.array(z.object({
     title: z.string(),
     url: z.string(),
     snippet: z.string(),
   })),
+  attempts: z.array(z.object({
+    provider: z.string(),
+    status: z.enum(['ok', 'empty', 'blocked', 'error']),
+    message: z.string().optional(),
+  })),
   sessionId: z.string(),
 });
 
 /**
  * Type for search web tool output
  */
-type SearchWebOutput = z.infer<typeof SearchWebOutputSchema>;
+export type SearchWebOutput = z.infer<typeof SearchWebOutputSchema>;
 
 /**
- * Register the search web tool with the MCP server
- * @param server The MCP server instance
+ * Search the web, falling back to the next provider when one is blocked or finds nothing
  * @param browserManager The browser manager instance
+ * @param params The tool input
+ * @returns The tool output
  */
-export function registerSearchWebTool(
-  server: Server,
-  browserManager: BrowserManager
-): void {
-  logger.info('Registering search_web tool');
-  
-  server.registerToolDefinition({
-    name: 'search_web',
-    description: 'Search the web for information',
-    parameters: SearchWebInputSchema,
-  });
+export async function searchWeb(
+  browserManager: BrowserManager,
+  params: SearchWebInput
+): Promise<SearchWebOutput> {
+  logger.info(`Searching web for: ${params.query}`);
   
-  server.registerToolImplementation({
-    name: 'search_web',
-    handler: async (params: SearchWebInput): Promise<SearchWebOutput> => {
-      logger.info(`Searching web for: ${params.query}`);
-      
+  try {
+    // Get page from browser manager
+    const { page, sessionId } = await browserManager.getPage(params.sessionId);
+    
+    // Add site restriction if specified
+    const query = params.site ? `${params.query} site:${params.site}` : params.query;
+    const numResults = params.numResults || 5;
+    
+    const providers = SearchProviderFactory.getProviderChain(params.provider, params.fallback !== false);
+    const attempts: SearchWebOutput['attempts'] = [];
+    
+    for (const provider of providers) {
       try {
-        // Get page from browser manager
-        const { page, sessionId } = await browserManager.getPage(params.sessionId);
-        
-        // Prepare the search URL
-        let searchUrl = `https://www.google.com/search?q=${encodeURIComponent(params.query)}`;
-        
-        // Add site restriction if specified
-        if (params.site) {
-          searchUrl += `+site:${encodeURIComponent(params.site)}`;
-        }
-        
         // Navigate to the search URL
-        await page.goto(searchUrl, {
+        const response = await page.goto(provider.buildSearchUrl(query), {
           waitUntil: 'networkidle2',
           timeout: 30000,
         });
         
-        // Wait for the search results to load
-        await page.waitForSelector('#search', { timeout: 10000 });
+        const root = await page.$('html');
+        if (!root) {
+          throw new Error('The results page has no document');
+        }
+        
+        // Detect CAPTCHA, consent and rate limit pages
+        const blocked = (response !== null && BLOCKED_STATUSES.includes(response.status())) ||
+          await root.evaluate(provider.isBlocked);
+        if (blocked) {
+          await root.dispose();
+          logger.warn(`Search provider ${provider.name} blocked the request`);
+          attempts.push({ provider: provider.name, status: 'blocked' });
+          continue;
+        }
         
         // Extract search results
-        const results = await page.evaluate((numResults: number) => {
-          const searchResults: SearchResultItem[] = [];
-          
-          // Find all search result items
-          const resultElements = document.querySelectorAll('#search .g');
-          
-          for (let i = 0; i < Math.min(resultElements.length, numResults); i++) {
-            const element = resultElements[i];
-            
-            // Extract title and URL
-            const titleElement = element.querySelector('h3');
-            const linkElement = element.querySelector('a');
-            const snippetElement = element.querySelector('.VwiC3b');
-            
-            if (titleElement && linkElement && snippetElement) {
-              const title = titleElement.textContent || '';
-              const url = linkElement.getAttribute('href') || '';
-              const snippet = snippetElement.textContent || '';
-              
-              if (title && url && snippet) {
-                searchResults.push({
-                  title,
-                  url,
-                  snippet,
-                });
-              }
-            }
-          }
-          
-          return searchResults;
-        }, params.numResults || 5);
+        const results: SearchResultItem[] = await root.evaluate(provider.parseResults, numResults);
+        await root.dispose();
         
-        logger.info(`Successfully searched web for: ${params.query} (Found ${results.length} results)`);
+        if (results.length === 0) {
+          logger.warn(`Search provider ${provider.name} returned no results`);
+          attempts.push({ provider: provider.name, status: 'empty' });
+          continue;
+        }
+        
+        attempts.push({ provider: provider.name, status: 'ok' });
+        logger.info(`Successfully searched web with ${provider.name} for: ${params.query} (Found ${results.length} results)`);
         
         return {
           query: params.query,
+          provider: provider.name,
           results,
+          attempts,
           sessionId,
         };
       } catch (error) {
-        logger.error(`Error searching web: ${error instanceof Error ? error.message : String(error)}`);
-        throw error;
+        const message = error instanceof Error ? error.message : String(error);
+        logger.warn(`Search provider ${provider.name} failed: ${message}`);
+        attempts.push({ provider: provider.name, status: 'error', message });
       }
-    },
+    }
+    
+    logger.warn(`No search provider returned results for: ${params.query}`);
+    
+    return {
+      query: params.query,
+      provider: null,
+      results: [],
+      attempts,
+      sessionId,
+    };
+  } catch (error) {
+    logger.error(`Error searching web: ${error instanceof Error ? error.message : String(error)}`);
+    throw error;
+  }
+}
+
+/**
+ * Register the search web tool with the MCP server
+ * @param server The MCP server instance
+ * @param browserManager The browser manager instance
+ */
+export function registerSearchWebTool(
+  server: Server,
+  browserManager: BrowserManager
+): void {
+  logger.info('Registering search_web tool');
+  
+  server.registerToolDefinition({
+    name: 'search_web',
+    description: 'Search the web for information with DuckDuckGo, Bing, SearXNG or Google, ' +
+      'falling back to the next provider when one is blocked or returns no results',
+    parameters: SearchWebInputSchema,
+  });
+  
+  server.registerToolImplementation({
+    name: 'search_web',
+    handler: async (params: SearchWebInput): Promise<SearchWebOutput> => searchWeb(browserManager, params),
   });
 }
 
@@ -0,0 +1,87 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { BrowserManager } from '../browser/browserManager.js';
+import { BLOCKABLE_RESOURCE_TYPES } from '../browser/networkFilter.js';
+import { z } from 'zod';
+import { setupLogger, createContextLogger } from '../utils/logger.js';
+
+// Logger
+const logger = createContextLogger(setupLogger(), 'SetNetworkRulesTool');
+
+/**
+ * Input schema for set network rules tool
+ */
+const SetNetworkRulesInputSchema = z.object({
+  blockResourceTypes: z.array(z.enum(BLOCKABLE_RESOURCE_TYPES)).optional(),
+  blockUrlPatterns: z.array(z.string().min(1)).optional(),
+  blockAdsAndTrackers: z.boolean().optional(),
+  sessionId: z.string().optional(),
+});
+
+/**
+ * Type for set network rules tool input
+ */
+type SetNetworkRulesInput = z.infer<typeof SetNetworkRulesInputSchema>;
+
+/**
+ * Output schema for set network rules tool
+ */
+const SetNetworkRulesOutputSchema = z.object({
+  blockResourceTypes: z.array(z.string()),
+  blockUrlPatterns: z.array(z.string()),
+  blockAdsAndTrackers: z.boolean(),
+  blockedRequests: z.number(),
+  sessionId: z.string(),
+});
+
+/**
+ * Type for set network rules tool output
+ */
+type SetNetworkRulesOutput = z.infer<typeof SetNetworkRulesOutputSchema>;
+
+/**
+ * Register the set network rules tool with the MCP server
+ * @param server The MCP server instance
+ * @param browserManager The browser manager instance
+ */
+export function registerSetNetworkRulesTool(
+  server: Server,
+  browserManager: BrowserManager
+): void {
+  logger.info('Registering set_network_rules tool');
+  
+  server.registerToolDefinition({
+    name: 'set_network_rules',
+    description: 'Block requests in a session by resource type, URL pattern (* wildcards) or the bundled ad and ' +
+      'tracker list; omitted rules keep their current value, so call it without rules to read them',
+    parameters: SetNetworkRulesInputSchema,
+  });
+  
+  server.registerToolImplementation({
+    name: 'set_network_rules',
+    handler: async (params: SetNetworkRulesInput): Promise<SetNetworkRulesOutput> => {
+      try {
+        // Get or create the session so rules can be set before the first navigation
+        const { sessionId } = await browserManager.getPage(params.sessionId);
+        
+        logger.info(`Setting network rules for session ${sessionId}`);
+        
+        const rules = await browserManager.setNetworkRules(sessionId, {
+          blockResourceTypes: params.blockResourceTypes,
+          blockUrlPatterns: params.blockUrlPatterns,
+          blockAdsAndTrackers: params.blockAdsAndTrackers,
+        });
+        
+        return {
+          ...rules,
+          blockedRequests: browserManager.getNetworkRules(sessionId).blockedRequests,
+          sessionId,
+        };
+      } catch (error) {
+        logger.error(`Error setting network rules: ${error instanceof Error ? error.message : String(error)}`);
+        throw error;
+      }
+    },
+  });
+}
+
+export default registerSetNetworkRulesTool;
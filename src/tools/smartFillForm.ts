@@ -0,0 +1,297 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { BrowserManager } from '../browser/browserManager.js';
+import { inspectForms, FormDescription, FormField } from '../browser/formInspector.js';
+import { AIIntegrationHelper } from '../ai/integrationHelper.js';
+import { fillForm, FillFormOutput } from './fillForm.js';
+import { z } from 'zod';
+import { setupLogger, createContextLogger } from '../utils/logger.js';
+
+// Logger
+const logger = createContextLogger(setupLogger(), 'SmartFillFormTool');
+
+/**
+ * Input schema for smart fill form tool
+ */
+const SmartFillFormInputSchema = z.object({
+  requirements: z.string().min(1, 'Requirements are required'),
+  url: z.string().url().optional(),
+  formIndex: z.number().int().min(0).optional(),
+  fill: z.boolean().default(false).optional(),
+  submit: z.boolean().default(false).optional(),
+  sessionId: z.string().optional(),
+});
+
+/**
+ * Type for smart fill form tool input
+ */
+export type SmartFillFormInput = z.infer<typeof SmartFillFormInputSchema>;
+
+/**
+ * Output schema for smart fill form tool
+ */
+const SmartFillFormOutputSchema = z.object({
+  url: z.string(),
+  title: z.string(),
+  formIndex: z.number(),
+  proposedValues: z.record(z.string()),
+  unsatisfiedFields: z.array(z.object({
+    fieldName: z.string(),
+    label: z.string().optional(),
+    required: z.boolean(),
+    reason: z.string(),
+  })),
+  filled: z.boolean(),
+  filledFields: z.array(z.string()),
+  submitted: z.boolean(),
+  newUrl: z.string().optional(),
+  changes: z.object({
+    navigated: z.boolean(),
+    urlChanged: z.boolean(),
+    previousUrl: z.string().optional(),
+    domMutations: z.number(),
+    requests: z.number(),
+    pendingRequests: z.number(),
+    dialogOpened: z.boolean(),
+    dialog: z.object({
+      type: z.string(),
+      message: z.string(),
+      action: z.enum(['accepted', 'dismissed', 'pending']),
+    }).optional(),
+    settled: z.boolean(),
+    elapsedMs: z.number(),
+  }).optional(),
+  sessionId: z.string(),
+});
+
+/**
+ * Type for smart fill form tool output
+ */
+export type SmartFillFormOutput = z.infer<typeof SmartFillFormOutputSchema>;
+
+/**
+ * Describe a field for the model: its type, label, constraints and options
+ * @param field The field
+ * @returns The description
+ */
+function describeField(field: FormField): string {
+  const details = [`type ${field.type}`];
+  
+  if (field.label) details.push(`label "${field.label}"`);
+  if (field.placeholder) details.push(`placeholder "${field.placeholder}"`);
+  if (field.required) details.push('required');
+  if (field.pattern) details.push(`pattern ${field.pattern}`);
+  if (field.maxLength !== undefined) details.push(`at most ${field.maxLength} characters`);
+  if (field.options) {
+    const options = field.options
+      .filter(option => option.value !== '')
+      .map(option => option.label && option.label !== option.value ? `${option.value} (${option.label})` : option.value);
+    details.push(`options: ${options.join(', ')}`);
+  }
+  
+  return details.join(', ');
+}
+
+/**
+ * Pick the form to fill: the requested one, or the one with the most fields
+ * so that search boxes in page headers are passed over
+ * @param forms The forms on the page
+ * @param formIndex The requested form index
+ * @returns The form
+ */
+function chooseForm(forms: FormDescription[], formIndex?: number): FormDescription {
+  if (formIndex !== undefined) {
+    const form = forms.find(candidate => candidate.index === formIndex);
+    if (!form) {
+      throw new Error(`Form ${formIndex} not found; the page has ${forms.length} forms`);
+    }
+    return form;
+  }
+  
+  const fillable = forms.filter(form => form.fields.some(field => !field.disabled));
+  if (fillable.length === 0) {
+    throw new Error('No fillable form found on the page');
+  }
+  
+  return fillable.reduce((best, form) => (form.fields.length > best.fields.length ? form : best));
+}
+
+/**
+ * Check a proposed value against a field's type and options, converting option
+ * labels to their values and checkbox answers to "true" or "false"
+ * @param field The field
+ * @param value The proposed value
+ * @returns The value to fill in, or the reason it cannot be used
+ */
+function normalizeValue(field: FormField, value: string): { value: string } | { reason: string } {
+  if (field.type === 'checkbox') {
+    if (/^(true|yes|on|1|checked)$/i.test(value) || value === field.value) return { value: 'true' };
+    if (/^(false|no|off|0|unchecked)$/i.test(value) || value === '') return { value: 'false' };
+    return { reason: `"${value}" is not a checkbox state` };
+  }
+  
+  if (field.options) {
+    const option =
+      field.options.find(candidate => candidate.value === value) ||
+      field.options.find(candidate => candidate.label.toLowerCase() === value.trim().toLowerCase());
+    return option ? { value: option.value } : { reason: `"${value}" is not one of the options` };
+  }
+  
+  return { value };
+}
+
+/**
+ * Fill a form from plain-language requirements: discover its fields, ask the
+ * model for a value per field, and either return the values for review or fill them in
+ * @param browserManager The browser manager instance
+ * @param params The tool input
+ * @returns The tool output
+ */
+export async function smartFillForm(
+  browserManager: BrowserManager,
+  params: SmartFillFormInput
+): Promise<SmartFillFormOutput> {
+  logger.info('Filling form from requirements');
+  
+  try {
+    // Get page from browser manager
+    const { page, sessionId } = await browserManager.getPage(params.sessionId);
+    
+    // Navigate to URL if provided
+    if (params.url) {
+      await page.goto(params.url, {
+        waitUntil: 'networkidle2',
+        timeout: 30000,
+      });
+    }
+    
+    const form = chooseForm(await inspectForms(page), params.formIndex);
+    const fields = form.fields.filter(field => !field.disabled);
+    
+    const fieldDetails: Record<string, string> = {};
+    for (const field of fields) {
+      fieldDetails[field.fieldName] = describeField(field);
+    }
+    
+    const strategy = await AIIntegrationHelper.generateFormFillingStrategy(
+      fields.map(field => field.fieldName),
+      params.requirements,
+      fieldDetails
+    );
+    
+    // Keep the values that fit their field, and report the fields that cannot be filled
+    const proposedValues: Record<string, string> = {};
+    const unsatisfiedFields: SmartFillFormOutput['unsatisfiedFields'] = [];
+    
+    for (const field of fields) {
+      const proposed = strategy[field.fieldName];
+      const unsatisfied = (reason: string) =>
+        unsatisfiedFields.push({ fieldName: field.fieldName, label: field.label, required: field.required, reason });
+      
+      if (proposed === undefined || proposed === null || String(proposed).trim() === '') {
+        if (field.required) {
+          unsatisfied('The requirements do not provide a value');
+        }
+        continue;
+      }
+      
+      const normalized = normalizeValue(field, String(proposed));
+      if ('reason' in normalized) {
+        unsatisfied(normalized.reason);
+      } else {
+        proposedValues[field.fieldName] = normalized.value;
+      }
+    }
+    
+    const unknownFields = Object.keys(strategy).filter(name => !fields.some(field => field.fieldName === name));
+    if (unknownFields.length > 0) {
+      logger.warn(`Ignoring values for unknown fields: ${unknownFields.join(', ')}`);
+    }
+    
+    let filledFields: string[] = [];
+    let submitted = false;
+    let newUrl: string | undefined;
+    let changes: FillFormOutput['changes'];
+    
+    if ((params.fill || params.submit) && Object.keys(proposedValues).length > 0) {
+      // Address each control by its selector, and each radio button by its value
+      const selectors: Record<string, string> = {};
+      const fieldNames: Record<string, string> = {};
+      for (const [fieldName, value] of Object.entries(proposedValues)) {
+        const field = fields.find(candidate => candidate.fieldName === fieldName)!;
+        const selector = field.type === 'radio'
+          ? `${field.selector}[value="${value.replace(/["\\]/g, '\\$&')}"]`
+          : field.selector;
+        selectors[selector] = field.type === 'radio' ? 'true' : value;
+        fieldNames[selector] = fieldName;
+      }
+      
+      const result = await fillForm(browserManager, {
+        fields: selectors,
+        submit: params.submit,
+        submitSelector: form.submitButton?.selector,
+        waitForNavigation: true,
+        sessionId,
+      });
+      
+      filledFields = result.filledFields.map(selector => fieldNames[selector]);
+      for (const selector of result.skippedFields) {
+        const field = fields.find(candidate => candidate.fieldName === fieldNames[selector])!;
+        unsatisfiedFields.push({
+          fieldName: field.fieldName,
+          label: field.label,
+          required: field.required,
+          reason: 'The control could not be filled',
+        });
+      }
+      submitted = result.submitted;
+      newUrl = result.newUrl;
+      changes = result.changes;
+    }
+    
+    logger.info(`Proposed ${Object.keys(proposedValues).length} values, ${unsatisfiedFields.length} fields unsatisfied`);
+    
+    return {
+      url: page.url(),
+      title: await page.title(),
+      formIndex: form.index,
+      proposedValues,
+      unsatisfiedFields,
+      filled: filledFields.length > 0,
+      filledFields,
+      submitted,
+      newUrl,
+      changes,
+      sessionId,
+    };
+  } catch (error) {
+    logger.error(`Error filling form from requirements: ${error instanceof Error ? error.message : String(error)}`);
+    throw error;
+  }
+}
+
+/**
+ * Register the smart fill form tool with the MCP server
+ * @param server The MCP server instance
+ * @param browserManager The browser manager instance
+ */
+export function registerSmartFillFormTool(
+  server: Server,
+  browserManager: BrowserManager
+): void {
+  logger.info('Registering smart_fill_form tool');
+  
+  server.registerToolDefinition({
+    name: 'smart_fill_form',
+    description: 'Fill a form from plain-language requirements with AI: discovers the form\'s fields, ' +
+      'proposes a value for each, and returns them for review or fills them in (fill: true), ' +
+      'reporting the fields it could not satisfy',
+    parameters: SmartFillFormInputSchema,
+  });
+  
+  server.registerToolImplementation({
+    name: 'smart_fill_form',
+    handler: async (params: SmartFillFormInput): Promise<SmartFillFormOutput> => smartFillForm(browserManager, params),
+  });
+}
+
+export default registerSmartFillFormTool;
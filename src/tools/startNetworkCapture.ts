@@ -0,0 +1,84 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { BrowserManager } from '../browser/browserManager.js';
+import { z } from 'zod';
+import { setupLogger, createContextLogger } from '../utils/logger.js';
+
+// Logger
+const logger = createContextLogger(setupLogger(), 'StartNetworkCaptureTool');
+
+/**
+ * Input schema for start network capture tool
+ */
+const StartNetworkCaptureInputSchema = z.object({
+  captureBodies: z.boolean().default(false).optional(),
+  maxBodySize: z.number().int().min(0).default(1048576).optional(),
+  maxEntries: z.number().int().min(1).max(20000).default(2000).optional(),
+  sessionId: z.string().optional(),
+});
+
+/**
+ * Type for start network capture tool input
+ */
+type StartNetworkCaptureInput = z.infer<typeof StartNetworkCaptureInputSchema>;
+
+/**
+ * Output schema for start network capture tool
+ */
+const StartNetworkCaptureOutputSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  sessionId: z.string(),
+});
+
+/**
+ * Type for start network capture tool output
+ */
+type StartNetworkCaptureOutput = z.infer<typeof StartNetworkCaptureOutputSchema>;
+
+/**
+ * Register the start network capture tool with the MCP server
+ * @param server The MCP server instance
+ * @param browserManager The browser manager instance
+ */
+export function registerStartNetworkCaptureTool(
+  server: Server,
+  browserManager: BrowserManager
+): void {
+  logger.info('Registering start_network_capture tool');
+  
+  server.registerToolDefinition({
+    name: 'start_network_capture',
+    description: 'Start recording every request and response made in a session, optionally with bodies; ' +
+      'call stop_network_capture to get the log',
+    parameters: StartNetworkCaptureInputSchema,
+  });
+  
+  server.registerToolImplementation({
+    name: 'start_network_capture',
+    handler: async (params: StartNetworkCaptureInput): Promise<StartNetworkCaptureOutput> => {
+      try {
+        // Get or create the session so capture can start before the first navigation
+        const { sessionId } = await browserManager.getPage(params.sessionId);
+        
+        logger.info(`Starting network capture for session ${sessionId}`);
+        
+        await browserManager.startNetworkCapture(sessionId, {
+          captureBodies: params.captureBodies,
+          maxBodySize: params.maxBodySize,
+          maxEntries: params.maxEntries,
+        });
+        
+        return {
+          success: true,
+          message: `Recording network traffic${params.captureBodies ? ' with bodies' : ''}`,
+          sessionId,
+        };
+      } catch (error) {
+        logger.error(`Error starting network capture: ${error instanceof Error ? error.message : String(error)}`);
+        throw error;
+      }
+    },
+  });
+}
+
+export default registerStartNetworkCaptureTool;
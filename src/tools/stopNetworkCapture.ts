@@ -0,0 +1,145 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { writeFile } from 'fs/promises';
+import { BrowserManager } from '../browser/browserManager.js';
+import { filterNetworkEntries, toHar } from '../browser/networkRecorder.js';
+import { Config } from '../config/index.js';
+import { z } from 'zod';
+import { setupLogger, createContextLogger } from '../utils/logger.js';
+
+// Logger
+const logger = createContextLogger(setupLogger(), 'StopNetworkCaptureTool');
+
+/**
+ * Input schema for stop network capture tool
+ */
+const StopNetworkCaptureInputSchema = z.object({
+  sessionId: z.string().min(1, 'A session ID is required'),
+  filter: z.object({
+    resourceTypes: z.array(z.string()).optional(),
+    urlPattern: z.string().optional(),
+    methods: z.array(z.string()).optional(),
+    statusMin: z.number().int().optional(),
+    statusMax: z.number().int().optional(),
+    failedOnly: z.boolean().optional(),
+  }).optional(),
+  includeHar: z.boolean().default(false).optional(),
+  harPath: z.string().optional(),
+});
+
+/**
+ * Type for stop network capture tool input
+ */
+type StopNetworkCaptureInput = z.infer<typeof StopNetworkCaptureInputSchema>;
+
+/**
+ * Output schema for stop network capture tool
+ */
+const StopNetworkCaptureOutputSchema = z.object({
+  totalEntries: z.number(),
+  droppedEntries: z.number(),
+  entries: z.array(z.object({
+    id: z.number(),
+    tabId: z.string().optional(),
+    url: z.string(),
+    method: z.string(),
+    resourceType: z.string(),
+    requestHeaders: z.record(z.string()),
+    requestBody: z.string().optional(),
+    status: z.number(),
+    statusText: z.string(),
+    responseHeaders: z.record(z.string()),
+    mimeType: z.string(),
+    fromCache: z.boolean(),
+    remoteAddress: z.string().optional(),
+    startedDateTime: z.string(),
+    time: z.number(),
+    timings: z.object({
+      blocked: z.number(),
+      dns: z.number(),
+      connect: z.number(),
+      ssl: z.number(),
+      send: z.number(),
+      wait: z.number(),
+      receive: z.number(),
+    }),
+    responseBody: z.string().optional(),
+    responseBodyEncoding: z.literal('base64').optional(),
+    responseBodySize: z.number(),
+    failure: z.string().optional(),
+  })),
+  har: z.record(z.any()).optional(),
+  harPath: z.string().optional(),
+  harError: z.string().optional(),
+  sessionId: z.string(),
+});
+
+/**
+ * Type for stop network capture tool output
+ */
+type StopNetworkCaptureOutput = z.infer<typeof StopNetworkCaptureOutputSchema>;
+
+/**
+ * Register the stop network capture tool with the MCP server
+ * @param server The MCP server instance
+ * @param browserManager The browser manager instance
+ */
+export function registerStopNetworkCaptureTool(
+  server: Server,
+  browserManager: BrowserManager
+): void {
+  logger.info('Registering stop_network_capture tool');
+  
+  server.registerToolDefinition({
+    name: 'stop_network_capture',
+    description: 'Stop recording network traffic and return the requests as a filtered JSON list, ' +
+      'optionally as a HAR 1.2 log returned inline or written to a file',
+    parameters: StopNetworkCaptureInputSchema,
+  });
+  
+  server.registerToolImplementation({
+    name: 'stop_network_capture',
+    handler: async (params: StopNetworkCaptureInput): Promise<StopNetworkCaptureOutput> => {
+      logger.info(`Stopping network capture for session ${params.sessionId}`);
+      
+      try {
+        const { entries, droppedEntries } = await browserManager.stopNetworkCapture(params.sessionId);
+        const filtered = filterNetworkEntries(entries, params.filter);
+        
+        // The HAR log holds the filtered entries so it matches the JSON list
+        const har = params.includeHar || params.harPath
+          ? toHar(filtered, { name: Config.server.name, version: Config.server.version })
+          : undefined;
+        
+        // Write the HAR log before the recording is discarded, and report a failed write
+        // with the entries rather than losing the capture
+        let harError: string | undefined;
+        if (har && params.harPath) {
+          try {
+            await writeFile(params.harPath, JSON.stringify(har, null, 2), 'utf8');
+            logger.info(`Wrote HAR log to ${params.harPath}`);
+          } catch (error) {
+            harError = `Failed to write HAR log to ${params.harPath}: ${error instanceof Error ? error.message : String(error)}`;
+            logger.error(harError);
+          }
+        }
+        
+        browserManager.discardNetworkCapture(params.sessionId);
+        
+        return {
+          totalEntries: entries.length,
+          droppedEntries,
+          entries: filtered,
+          har: params.includeHar ? har : undefined,
+          harPath: harError ? undefined : params.harPath,
+          harError,
+          sessionId: params.sessionId,
+        };
+      } catch (error) {
+        logger.error(`Error stopping network capture: ${error instanceof Error ? error.message : String(error)}`);
+        throw error;
+      }
+    },
+  });
+}
+
+export default registerStopNetworkCaptureTool;
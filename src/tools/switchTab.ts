@@ -0,0 +1,83 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { BrowserManager } from '../browser/browserManager.js';
+import { z } from 'zod';
+import { setupLogger, createContextLogger } from '../utils/logger.js';
+
+// Logger
+const logger = createContextLogger(setupLogger(), 'SwitchTabTool');
+
+/**
+ * Input schema for switch tab tool
+ */
+const SwitchTabInputSchema = z.object({
+  tabId: z.string().min(1, 'A tab ID is required'),
+  sessionId: z.string().min(1, 'A session ID is required'),
+});
+
+/**
+ * Type for switch tab tool input
+ */
+type SwitchTabInput = z.infer<typeof SwitchTabInputSchema>;
+
+/**
+ * Output schema for switch tab tool
+ */
+const SwitchTabOutputSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  url: z.string().optional(),
+  title: z.string().optional(),
+  sessionId: z.string(),
+});
+
+/**
+ * Type for switch tab tool output
+ */
+type SwitchTabOutput = z.infer<typeof SwitchTabOutputSchema>;
+
+/**
+ * Register the switch tab tool with the MCP server
+ * @param server The MCP server instance
+ * @param browserManager The browser manager instance
+ */
+export function registerSwitchTabTool(
+  server: Server,
+  browserManager: BrowserManager
+): void {
+  logger.info('Registering switch_tab tool');
+  
+  server.registerToolDefinition({
+    name: 'switch_tab',
+    description: 'Make a tab the active page of its session so that other tools act on it',
+    parameters: SwitchTabInputSchema,
+  });
+  
+  server.registerToolImplementation({
+    name: 'switch_tab',
+    handler: async (params: SwitchTabInput): Promise<SwitchTabOutput> => {
+      logger.info(`Switching session ${params.sessionId} to tab ${params.tabId}`);
+      
+      try {
+        const tab = await browserManager.switchTab(params.sessionId, params.tabId);
+        
+        return {
+          success: true,
+          message: `Switched to tab ${params.tabId}`,
+          url: tab.url,
+          title: tab.title,
+          sessionId: params.sessionId,
+        };
+      } catch (error) {
+        logger.error(`Error switching tab: ${error instanceof Error ? error.message : String(error)}`);
+        
+        return {
+          success: false,
+          message: `Failed to switch tab: ${error instanceof Error ? error.message : String(error)}`,
+          sessionId: params.sessionId,
+        };
+      }
+    },
+  });
+}
+
+export default registerSwitchTabTool;
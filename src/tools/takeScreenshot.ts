@@ -1,5 +1,6 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { BrowserManager } from '../browser/browserManager.js';
+import { findElement, FrameInfo } from '../browser/elementLocator.js';
 import { z } from 'zod';
 import { setupLogger, createContextLogger } from '../utils/logger.js';
 
@@ -28,6 +29,11 @@ const TakeScreenshotOutputSchema = z.object({
   mimeType: z.string(),
   url: z.string(),
   title: z.string(),
+  frame: z.object({
+    url: z.string(),
+    name: z.string(),
+    isMainFrame: z.boolean(),
+  }).optional(),
   sessionId: z.string(),
 });
 
@@ -49,7 +55,8 @@ export function registerTakeScreenshotTool(
   
   server.registerToolDefinition({
     name: 'take_screenshot',
-    description: 'Take a screenshot of the current webpage or a specific element',
+    description: 'Take a screenshot of the current webpage or of the element matching a selector, ' +
+      'which can be inside an iframe or an open shadow root',
     parameters: TakeScreenshotInputSchema,
   });
   
@@ -68,17 +75,20 @@ export function registerTakeScreenshotTool(
         
         // Take screenshot
         let imageBuffer;
+        let frame: FrameInfo | undefined;
         
         if (params.selector) {
-          // Take screenshot of specific element
-          const element = await page.$(params.selector);
-          if (!element) {
+          // Take screenshot of specific element, in any frame or open shadow root
+          const located = await findElement(page, params.selector);
+          if (!located) {
             throw new Error(`Element not found: ${params.selector}`);
           }
           
-          imageBuffer = await element.screenshot({
+          imageBuffer = await located.element.screenshot({
             type: 'png',
           });
+          frame = located.frameInfo;
+          await located.element.dispose();
         } else {
           // Take screenshot of the entire page or viewport
           imageBuffer = await page.screenshot({
@@ -97,6 +107,7 @@ export function registerTakeScreenshotTool(
           mimeType: 'image/png',
           url,
           title,
+          frame,
           sessionId,
         };
       } catch (error) {
@@ -0,0 +1,173 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { BrowserManager } from '../browser/browserManager.js';
+import { resolveTarget, describeTarget, hasTarget, ElementTarget } from '../browser/elementTarget.js';
+import { settleAfterAction, describeChanges } from '../browser/actionSettler.js';
+import { z } from 'zod';
+import { setupLogger, createContextLogger } from '../utils/logger.js';
+
+// Logger
+const logger = createContextLogger(setupLogger(), 'TypeTextTool');
+
+/**
+ * Input schema for type text tool
+ */
+const TypeTextInputSchema = z.object({
+  text: z.string(),
+  selector: z.string().optional(),
+  targetText: z.string().optional(),
+  elementIndex: z.number().int().min(0).optional(),
+  index: z.number().min(0).default(0).optional(),
+  x: z.number().optional(),
+  y: z.number().optional(),
+  clear: z.boolean().default(false).optional(),
+  pressEnter: z.boolean().default(false).optional(),
+  delay: z.number().min(0).max(1000).default(0).optional(),
+  timeout: z.number().min(1000).default(30000).optional(),
+  sessionId: z.string().optional(),
+});
+
+/**
+ * Type for type text tool input
+ */
+export type TypeTextInput = z.infer<typeof TypeTextInputSchema>;
+
+/**
+ * Output schema for type text tool
+ */
+const TypeTextOutputSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  url: z.string().optional(),
+  changes: z.object({
+    navigated: z.boolean(),
+    urlChanged: z.boolean(),
+    previousUrl: z.string().optional(),
+    domMutations: z.number(),
+    requests: z.number(),
+    pendingRequests: z.number(),
+    dialogOpened: z.boolean(),
+    dialog: z.object({
+      type: z.string(),
+      message: z.string(),
+      action: z.enum(['accepted', 'dismissed', 'pending']),
+    }).optional(),
+    settled: z.boolean(),
+    elapsedMs: z.number(),
+  }).optional(),
+  sessionId: z.string(),
+});
+
+/**
+ * Type for type text tool output
+ */
+export type TypeTextOutput = z.infer<typeof TypeTextOutputSchema>;
+
+/**
+ * Type text with the keyboard into an element, or into the focused element if no target is given
+ * @param browserManager The browser manager instance
+ * @param params The tool input
+ * @returns The tool output
+ */
+export async function typeText(
+  browserManager: BrowserManager,
+  params: TypeTextInput
+): Promise<TypeTextOutput> {
+  // The text to type is the text parameter, so the element is found by targetText
+  const target: ElementTarget = {
+    elementIndex: params.elementIndex,
+    selector: params.selector,
+    text: params.targetText,
+    index: params.index,
+    x: params.x,
+    y: params.y,
+  };
+  const targetInfo = hasTarget(target) ? describeTarget(target) : 'the focused element';
+  
+  logger.info(`Typing ${params.text.length} characters into ${targetInfo}`);
+  
+  try {
+    // Get page from browser manager
+    const { page, sessionId } = await browserManager.getPage(params.sessionId);
+    
+    // Focus the target by clicking it, as a user would
+    if (hasTarget(target)) {
+      const { element, x, y } = await resolveTarget(page, target, params.timeout || 30000);
+      if (element) {
+        await element.click();
+        await element.dispose();
+      } else {
+        await page.mouse.click(x, y);
+      }
+    }
+    
+    // Select the existing content of the focused field and delete it
+    if (params.clear) {
+      await page.evaluate(() => {
+        const active = document.activeElement as HTMLInputElement | HTMLElement | null;
+        if (active && 'select' in active && typeof active.select === 'function') {
+          active.select();
+        } else if (active && active.isContentEditable) {
+          const range = document.createRange();
+          range.selectNodeContents(active);
+          document.getSelection()?.removeAllRanges();
+          document.getSelection()?.addRange(range);
+        }
+      });
+      await page.keyboard.press('Backspace');
+    }
+    
+    // Pressing Enter may submit a form, so wait for the page to settle after typing
+    const changes = await settleAfterAction(page, async () => {
+      await page.keyboard.type(params.text, { delay: params.delay || 0 });
+      
+      if (params.pressEnter) {
+        await page.keyboard.press('Enter');
+      }
+    }, { timeout: params.timeout || 30000, dialogPolicy: browserManager.getDialogPolicy(sessionId) });
+    
+    logger.info(`Successfully typed into ${targetInfo}`);
+    
+    return {
+      success: true,
+      message: `Typed ${params.text.length} characters into ${targetInfo}${params.pressEnter ? ' and pressed Enter' : ''}; ` +
+        describeChanges(changes),
+      url: page.url(),
+      changes,
+      sessionId,
+    };
+  } catch (error) {
+    logger.error(`Error typing text: ${error instanceof Error ? error.message : String(error)}`);
+    
+    return {
+      success: false,
+      message: `Failed to type text: ${error instanceof Error ? error.message : String(error)}`,
+      sessionId: params.sessionId || '',
+    };
+  }
+}
+
+/**
+ * Register the type text tool with the MCP server
+ * @param server The MCP server instance
+ * @param browserManager The browser manager instance
+ */
+export function registerTypeTextTool(
+  server: Server,
+  browserManager: BrowserManager
+): void {
+  logger.info('Registering type_text tool');
+  
+  server.registerToolDefinition({
+    name: 'type_text',
+    description: 'Type text with the keyboard, key by key, into the element found by selector, targetText, ' +
+      'element index or x/y coordinates, or into the focused element; optionally clear it first and press Enter after',
+    parameters: TypeTextInputSchema,
+  });
+  
+  server.registerToolImplementation({
+    name: 'type_text',
+    handler: async (params: TypeTextInput): Promise<TypeTextOutput> => typeText(browserManager, params),
+  });
+}
+
+export default registerTypeTextTool;
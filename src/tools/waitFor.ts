@@ -0,0 +1,134 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { BrowserManager } from '../browser/browserManager.js';
+import { waitForAnyCondition, describeWaitConditions, hasWaitCondition, WaitConditions } from '../browser/waitConditions.js';
+import { z } from 'zod';
+import { setupLogger, createContextLogger } from '../utils/logger.js';
+
+// Logger
+const logger = createContextLogger(setupLogger(), 'WaitForTool');
+
+/**
+ * Input schema for wait for tool
+ */
+const WaitForInputSchema = z.object({
+  selector: z.string().optional(),
+  state: z.enum(['visible', 'hidden']).default('visible').optional(),
+  text: z.string().optional(),
+  urlPattern: z.string().optional(),
+  networkIdle: z.boolean().optional(),
+  idleTime: z.number().min(0).max(10000).default(500).optional(),
+  responseUrlPattern: z.string().optional(),
+  predicate: z.string().optional(),
+  timeout: z.number().min(100).default(30000).optional(),
+  sessionId: z.string().optional(),
+}).refine(
+  data => data.selector !== undefined || data.text !== undefined || data.urlPattern !== undefined ||
+    data.networkIdle === true || data.responseUrlPattern !== undefined || data.predicate !== undefined,
+  {
+    message: 'At least one of selector, text, urlPattern, networkIdle, responseUrlPattern or predicate must be provided',
+    path: ['selector', 'text', 'urlPattern', 'networkIdle', 'responseUrlPattern', 'predicate'],
+  }
+);
+
+/**
+ * Type for wait for tool input
+ */
+export type WaitForInput = z.infer<typeof WaitForInputSchema>;
+
+/**
+ * Output schema for wait for tool
+ */
+const WaitForOutputSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  condition: z.enum(['selector', 'text', 'url', 'networkIdle', 'response', 'predicate']).optional(),
+  detail: z.string().optional(),
+  status: z.number().optional(),
+  elapsedMs: z.number().optional(),
+  url: z.string().optional(),
+  sessionId: z.string(),
+});
+
+/**
+ * Type for wait for tool output
+ */
+export type WaitForOutput = z.infer<typeof WaitForOutputSchema>;
+
+/**
+ * Wait until any of the given conditions is met and report which one it was
+ * @param browserManager The browser manager instance
+ * @param params The tool input
+ * @returns The tool output
+ */
+export async function waitFor(
+  browserManager: BrowserManager,
+  params: WaitForInput
+): Promise<WaitForOutput> {
+  const conditions: WaitConditions = {
+    selector: params.selector,
+    state: params.state,
+    text: params.text,
+    urlPattern: params.urlPattern,
+    networkIdleTime: params.networkIdle ? params.idleTime ?? 500 : undefined,
+    responseUrlPattern: params.responseUrlPattern,
+    predicate: params.predicate,
+  };
+  const conditionInfo = hasWaitCondition(conditions) ? describeWaitConditions(conditions) : 'nothing';
+  
+  logger.info(`Waiting for ${conditionInfo}`);
+  
+  try {
+    // Get page from browser manager
+    const { page, sessionId } = await browserManager.getPage(params.sessionId);
+    
+    const result = await waitForAnyCondition(page, conditions, params.timeout || 30000);
+    
+    logger.info(`Condition ${result.condition} met after ${result.elapsedMs}ms`);
+    
+    return {
+      success: true,
+      message: `Condition ${result.condition} met after ${result.elapsedMs}ms: ${result.detail}`,
+      condition: result.condition,
+      detail: result.detail,
+      status: result.status,
+      elapsedMs: result.elapsedMs,
+      url: page.url(),
+      sessionId,
+    };
+  } catch (error) {
+    logger.error(`Error waiting: ${error instanceof Error ? error.message : String(error)}`);
+    
+    return {
+      success: false,
+      message: `Failed to wait: ${error instanceof Error ? error.message : String(error)}`,
+      sessionId: params.sessionId || '',
+    };
+  }
+}
+
+/**
+ * Register the wait for tool with the MCP server
+ * @param server The MCP server instance
+ * @param browserManager The browser manager instance
+ */
+export function registerWaitForTool(
+  server: Server,
+  browserManager: BrowserManager
+): void {
+  logger.info('Registering wait_for tool');
+  
+  server.registerToolDefinition({
+    name: 'wait_for',
+    description: 'Wait until any of several conditions is met and report which one fired: a selector becoming ' +
+      'visible or hidden, text appearing, the URL matching a pattern, the network going idle, a response whose ' +
+      'URL matches a pattern, or a JavaScript expression becoming truthy. URL patterns use * as a wildcard.',
+    parameters: WaitForInputSchema,
+  });
+  
+  server.registerToolImplementation({
+    name: 'wait_for',
+    handler: async (params: WaitForInput): Promise<WaitForOutput> => waitFor(browserManager, params),
+  });
+}
+
+export default registerWaitForTool;
@@ -0,0 +1,197 @@
+/**
+ * Subset of JSON Schema supported by the validator
+ */
+export interface JsonSchema {
+  type?: string | string[];
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  [keyword: string]: unknown;
+}
+
+/**
+ * Get the JSON Schema type name of a value
+ * @param value The value
+ * @returns The type name
+ */
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+}
+
+/**
+ * Check whether a value matches a JSON Schema type name
+ * @param value The value
+ * @param type The type name
+ * @returns Whether the value matches
+ */
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+/**
+ * JSON Schema type names
+ */
+const TYPE_NAMES = ['string', 'number', 'integer', 'boolean', 'object', 'array', 'null'];
+
+/**
+ * Check that a schema can be used for validation, before anything is validated against it
+ * @param schema The schema to check
+ * @param path The path of the schema, used in error messages
+ * @returns The problems with the schema, empty if it can be used
+ */
+export function checkJsonSchema(schema: JsonSchema, path = '$'): string[] {
+  const errors: string[] = [];
+  
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    for (const type of types) {
+      if (!TYPE_NAMES.includes(type)) {
+        errors.push(`${path}: unknown type ${JSON.stringify(type)}`);
+      }
+    }
+  }
+  
+  if (schema.pattern !== undefined) {
+    try {
+      new RegExp(schema.pattern);
+    } catch (error) {
+      errors.push(`${path}: invalid pattern ${schema.pattern}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  
+  for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+    errors.push(...checkJsonSchema(propertySchema, `${path}.${key}`));
+  }
+  if (typeof schema.additionalProperties === 'object') {
+    errors.push(...checkJsonSchema(schema.additionalProperties, `${path}.*`));
+  }
+  if (schema.items) {
+    errors.push(...checkJsonSchema(schema.items, `${path}[]`));
+  }
+  for (const keyword of ['anyOf', 'oneOf', 'allOf'] as const) {
+    (schema[keyword] || []).forEach((subschema, i) => errors.push(...checkJsonSchema(subschema, `${path}.${keyword}[${i}]`)));
+  }
+  
+  return errors;
+}
+
+/**
+ * Validate a value against a JSON Schema.
+ * Supports the keywords models are usually asked to fill: type, enum, const,
+ * properties, required, additionalProperties, items, the length, size and range
+ * limits, pattern, and anyOf, oneOf and allOf. Other keywords are ignored.
+ * Check the schema with checkJsonSchema first; an invalid pattern throws here.
+ * @param value The value to validate
+ * @param schema The schema to validate against
+ * @param path The path of the value, used in error messages
+ * @returns The validation errors, empty if the value is valid
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path = '$'): string[] {
+  const errors: string[] = [];
+  
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      errors.push(`${path}: expected ${types.join(' or ')} but got ${typeOf(value)}`);
+      return errors;
+    }
+  }
+  
+  if (schema.enum && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+    errors.push(`${path}: must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+  }
+  
+  if (schema.const !== undefined && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+    errors.push(`${path}: must be ${JSON.stringify(schema.const)}`);
+  }
+  
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path}: must be at least ${schema.minLength} characters long`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path}: must be at most ${schema.maxLength} characters long`);
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      errors.push(`${path}: must match the pattern ${schema.pattern}`);
+    }
+  }
+  
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path}: must be at least ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path}: must be at most ${schema.maximum}`);
+    }
+  }
+  
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path}: must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path}: must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, i) => errors.push(...validateJsonSchema(item, schema.items as JsonSchema, `${path}[${i}]`)));
+    }
+  }
+  
+  if (typeOf(value) === 'object') {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (record[key] === undefined) {
+        errors.push(`${path}.${key}: is required`);
+      }
+    }
+    for (const [key, propertyValue] of Object.entries(record)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        errors.push(...validateJsonSchema(propertyValue, propertySchema, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key}: is not allowed`);
+      } else if (typeof schema.additionalProperties === 'object') {
+        errors.push(...validateJsonSchema(propertyValue, schema.additionalProperties, `${path}.${key}`));
+      }
+    }
+  }
+  
+  if (schema.allOf) {
+    for (const subschema of schema.allOf) {
+      errors.push(...validateJsonSchema(value, subschema, path));
+    }
+  }
+  
+  if (schema.anyOf && !schema.anyOf.some(subschema => validateJsonSchema(value, subschema, path).length === 0)) {
+    errors.push(`${path}: must match at least one of the anyOf schemas`);
+  }
+  
+  if (schema.oneOf) {
+    const matches = schema.oneOf.filter(subschema => validateJsonSchema(value, subschema, path).length === 0).length;
+    if (matches !== 1) {
+      errors.push(`${path}: must match exactly one of the oneOf schemas, matched ${matches}`);
+    }
+  }
+  
+  return errors;
+}
+
+export default validateJsonSchema;
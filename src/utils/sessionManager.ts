@@ -14,6 +14,11 @@ export interface SessionData {
   data: Record<string, any>;
 }
 
+/**
+ * Listener called when a session expires
+ */
+export type SessionExpiredListener = (session: SessionData) => void;
+
 /**
  * Class to manage user sessions
  */
@@ -21,6 +26,7 @@ export class SessionManager {
   private static instance: SessionManager;
   private sessions: Map<string, SessionData>;
   private expirationTimeMs: number;
+  private expiredListeners: SessionExpiredListener[];
   
   /**
    * Private constructor for singleton pattern
@@ -28,9 +34,10 @@ export class SessionManager {
   private constructor() {
     this.sessions = new Map<string, SessionData>();
     this.expirationTimeMs = 30 * 60 * 1000; // 30 minutes by default
+    this.expiredListeners = [];
     
-    // Start session cleanup interval
-    setInterval(() => this.cleanupExpiredSessions(), 5 * 60 * 1000); // Clean every 5 minutes
+    // Start session cleanup interval without keeping the process alive
+    setInterval(() => this.cleanupExpiredSessions(), 5 * 60 * 1000).unref(); // Clean every 5 minutes
     
     logger.info('Session manager initialized');
   }
@@ -48,20 +55,29 @@ export class SessionManager {
   
   /**
    * Set the session expiration time
-   * @param timeMs Expiration time in milliseconds
+   * @param timeMs Expiration time in milliseconds, or 0 for sessions that never expire
    */
   public setExpirationTime(timeMs: number): void {
     this.expirationTimeMs = timeMs;
     logger.info(`Session expiration time set to ${timeMs}ms`);
   }
   
+  /**
+   * Register a listener called for every session removed by cleanup
+   * @param listener The listener
+   */
+  public onSessionExpired(listener: SessionExpiredListener): void {
+    this.expiredListeners.push(listener);
+  }
+  
   /**
    * Create a new session
    * @param initialData Optional initial data
+   * @param id Optional session ID to use instead of a generated one
    * @returns Session ID
    */
-  public createSession(initialData: Record<string, any> = {}): string {
-    const sessionId = uuidv4();
+  public createSession(initialData: Record<string, any> = {}, id?: string): string {
+    const sessionId = id || uuidv4();
     const now = new Date();
     
     const sessionData: SessionData = {
@@ -153,7 +169,11 @@ export class SessionManager {
   /**
    * Clean up expired sessions
    */
-  private cleanupExpiredSessions(): void {
+  public cleanupExpiredSessions(): void {
+    if (this.expirationTimeMs <= 0) {
+      return;
+    }
+    
     const now = new Date();
     let expiredCount = 0;
     
@@ -164,6 +184,14 @@ export class SessionManager {
       if (now.getTime() > expirationTime) {
         this.sessions.delete(sessionId);
         expiredCount++;
+        
+        for (const listener of this.expiredListeners) {
+          try {
+            listener(session);
+          } catch (error) {
+            logger.error(`Error in session expiry listener: ${error instanceof Error ? error.message : String(error)}`);
+          }
+        }
       }
     }
     
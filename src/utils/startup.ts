@@ -36,7 +36,13 @@ export function logStartupInfo(logger: winston.Logger): void {
   const headlessMode = Config.browser.headless ? 'headless' : 'visible';
   const persistentMode = Config.browser.persistentSession ? 'persistent' : 'ephemeral';
   
-  logger.info(`Browser mode: ${headlessMode}, ${persistentMode}`);
+  if (Config.browser.connectExisting) {
+    const endpoint = Config.browser.wsEndpoint
+      || `${Config.browser.debuggingHost}:${Config.browser.debuggingPort}`;
+    logger.info(`Browser mode: connect to existing browser at ${endpoint}`);
+  } else {
+    logger.info(`Browser mode: ${headlessMode}, ${persistentMode}`);
+  }
   logger.info(`Browser resolution: ${Config.browser.windowWidth}x${Config.browser.windowHeight}`);
   
   // Log environment info if in debug mode
@@ -0,0 +1,51 @@
+import { join } from 'path';
+import { Config } from '../../src/config/index.js';
+import { MockAdapter } from '../../src/ai/adapters/mockAdapter.js';
+
+describe('MockAdapter', () => {
+  afterEach(() => {
+    MockAdapter.reset();
+    Config.ai.mock.responsesFile = '';
+  });
+  
+  it('returns scripted responses in order, matching prompts first', async () => {
+    const adapter = new MockAdapter();
+    MockAdapter.enqueue('first', { match: /price/i, response: 'pricing answer' }, 'second');
+    
+    expect(await adapter.generateText('What is the price?')).toBe('first');
+    expect(await adapter.generateText('What is the price?')).toBe('pricing answer');
+    expect(await adapter.generateText('Anything else')).toBe('second');
+    await expect(adapter.generateText('One more')).rejects.toThrow('No mock AI response matches the prompt');
+  });
+  
+  it('keeps repeated responses and shares the script between instances', async () => {
+    MockAdapter.enqueue({ match: 'ping', response: 'pong', repeat: true });
+    
+    expect(await new MockAdapter().generateText('ping 1')).toBe('pong');
+    expect(await new MockAdapter().generateChatResponse([{ role: 'user', content: 'ping 2' }])).toBe('pong');
+  });
+  
+  it('records every call', async () => {
+    const adapter = new MockAdapter();
+    MockAdapter.enqueue({ response: 'ok', repeat: true });
+    
+    await adapter.generateTextWithImage('Describe the image', 'aGk=', 'image/png');
+    await adapter.generateChatResponse([{ role: 'user', content: 'Hi' }, { role: 'assistant', content: 'Hello' }]);
+    
+    expect(MockAdapter.getCalls()).toEqual([
+      { method: 'generateTextWithImage', prompt: 'Describe the image', hasImage: true },
+      { method: 'generateChatResponse', prompt: 'user: Hi\nassistant: Hello', hasImage: false },
+    ]);
+  });
+  
+  it('falls back to recorded responses from the configured file', async () => {
+    Config.ai.mock.responsesFile = join(__dirname, 'fixtures', 'mock-responses.json');
+    const adapter = new MockAdapter();
+    MockAdapter.enqueue({ match: 'Summarize', response: 'A scripted summary.' });
+    
+    expect(await adapter.generateText('Summarize this')).toBe('A scripted summary.');
+    expect(await adapter.generateText('Summarize this')).toBe('A recorded summary.');
+    expect(await adapter.generateText('Summarize this')).toBe('A recorded summary.');
+    expect(await adapter.generateText('Something else')).toBe('A recorded fallback answer.');
+  });
+});
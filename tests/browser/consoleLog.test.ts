@@ -0,0 +1,52 @@
+import { ConsoleBuffer, consoleLevelOf } from '../../src/browser/consoleLog.js';
+
+describe('consoleLevelOf', () => {
+  it('maps console message types to levels', () => {
+    expect(consoleLevelOf('error')).toBe('error');
+    expect(consoleLevelOf('assert')).toBe('error');
+    expect(consoleLevelOf('warning')).toBe('warning');
+    expect(consoleLevelOf('debug')).toBe('debug');
+    expect(consoleLevelOf('log')).toBe('info');
+    expect(consoleLevelOf('table')).toBe('info');
+  });
+});
+
+describe('ConsoleBuffer', () => {
+  function filledBuffer(): ConsoleBuffer {
+    const buffer = new ConsoleBuffer();
+    buffer.add({ source: 'console', level: 'info', type: 'log', text: 'loaded' });
+    buffer.add({ source: 'console', level: 'warning', type: 'warning', text: 'deprecated API' });
+    buffer.add({ source: 'pageerror', level: 'error', type: 'TypeError', text: 'x is undefined' });
+    buffer.add({ source: 'network', level: 'error', type: 'script', text: 'GET https://example.com/app.js failed' });
+    return buffer;
+  }
+  
+  it('assigns increasing IDs and timestamps', () => {
+    const entries = filledBuffer().query();
+    expect(entries.map(e => e.id)).toEqual([1, 2, 3, 4]);
+    expect(entries[0].timestamp).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+  });
+  
+  it('filters by level, source and cursor', () => {
+    const buffer = filledBuffer();
+    expect(buffer.query({ minLevel: 'warning' }).map(e => e.id)).toEqual([2, 3, 4]);
+    expect(buffer.query({ levels: ['info', 'error'] }).map(e => e.id)).toEqual([1, 3, 4]);
+    expect(buffer.query({ sources: ['pageerror'] }).map(e => e.id)).toEqual([3]);
+    expect(buffer.query({ sinceId: 2 }).map(e => e.id)).toEqual([3, 4]);
+    expect(buffer.query({ limit: 1 }).map(e => e.id)).toEqual([4]);
+  });
+  
+  it('drops the oldest entries when full and keeps the cursor after clearing', () => {
+    const buffer = new ConsoleBuffer(2);
+    for (const text of ['a', 'b', 'c']) {
+      buffer.add({ source: 'console', level: 'info', type: 'log', text });
+    }
+    
+    expect(buffer.query().map(e => e.text)).toEqual(['b', 'c']);
+    expect(buffer.getDroppedEntryCount()).toBe(1);
+    
+    buffer.clear();
+    expect(buffer.query()).toEqual([]);
+    expect(buffer.getLastId()).toBe(3);
+  });
+});
@@ -0,0 +1,20 @@
+import { describeDialog, parseDialogPolicy } from '../../src/browser/dialogs.js';
+
+describe('parseDialogPolicy', () => {
+  it('accepts known policies in any case', () => {
+    expect(parseDialogPolicy('queue')).toBe('queue');
+    expect(parseDialogPolicy(' Dismiss ')).toBe('dismiss');
+  });
+  
+  it('falls back for empty or unknown values', () => {
+    expect(parseDialogPolicy(undefined)).toBe('accept');
+    expect(parseDialogPolicy('')).toBe('accept');
+    expect(parseDialogPolicy('ignore', 'queue')).toBe('queue');
+  });
+});
+
+describe('describeDialog', () => {
+  it('names the dialog type and message', () => {
+    expect(describeDialog('confirm', 'Delete this item?')).toBe('confirm dialog "Delete this item?"');
+  });
+});
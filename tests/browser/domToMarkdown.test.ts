@@ -0,0 +1,81 @@
+import { JSDOM } from 'jsdom';
+import { elementToMarkdown } from '../../src/browser/domToMarkdown.js';
+
+/**
+ * Convert the body of an HTML snippet, exposing the document as the page globals
+ * the function uses when it runs in the browser
+ * @returns The Markdown text
+ */
+function toMarkdown(body: string): string {
+  const { window } = new JSDOM(`<!DOCTYPE html><body>${body}</body>`, { url: 'https://example.com/docs/' });
+  const globals = globalThis as Record<string, unknown>;
+  Object.assign(globals, { window, Node: window.Node });
+  
+  try {
+    return elementToMarkdown(window.document.body);
+  } finally {
+    delete globals.window;
+    delete globals.Node;
+  }
+}
+
+describe('elementToMarkdown', () => {
+  it('converts headings, paragraphs and inline formatting', () => {
+    expect(toMarkdown(`
+      <h1>Guide</h1>
+      <p>Some <strong>bold</strong>, <em>italic</em> and <code>code</code> text.</p>
+      <h3>Details</h3>
+      <p>Line one<br>line two</p>
+    `)).toBe('# Guide\n\nSome **bold**, *italic* and `code` text.\n\n### Details\n\nLine one  \nline two');
+  });
+  
+  it('resolves links and images against the page URL', () => {
+    expect(toMarkdown(`
+      <p>Read the <a href="intro">introduction</a> or <a href="javascript:void(0)">nothing</a>.</p>
+      <p><img src="/logo.png" alt="Logo"></p>
+    `)).toBe('Read the [introduction](https://example.com/docs/intro) or nothing.\n\n![Logo](https://example.com/logo.png)');
+  });
+  
+  it('converts nested and ordered lists', () => {
+    expect(toMarkdown(`
+      <ul>
+        <li>Fruit
+          <ul><li>Apple</li><li>Pear</li></ul>
+        </li>
+        <li>Bread</li>
+      </ul>
+      <ol start="3"><li>Third</li><li>Fourth</li></ol>
+    `)).toBe('- Fruit\n   - Apple\n   - Pear\n- Bread\n\n3. Third\n4. Fourth');
+  });
+  
+  it('converts tables, padding short rows and escaping pipes', () => {
+    expect(toMarkdown(`
+      <table>
+        <tr><th>Name</th><th>Price</th></tr>
+        <tr><td>Tea | green</td><td>3</td></tr>
+        <tr><td>Coffee</td></tr>
+      </table>
+    `)).toBe('| Name | Price |\n| --- | --- |\n| Tea \\| green | 3 |\n| Coffee |  |');
+  });
+  
+  it('keeps code blocks with their language and quotes blockquotes', () => {
+    expect(toMarkdown(`
+      <pre><code class="language-ts">const a = 1;
+const b = 2;
+</code></pre>
+      <blockquote><p>Quoted</p></blockquote>
+    `)).toBe('```ts\nconst a = 1;\nconst b = 2;\n```\n\n> Quoted');
+  });
+  
+  it('skips scripts, form controls and hidden elements', () => {
+    expect(toMarkdown(`
+      <p>Visible</p>
+      <script>const secret = 1;</script>
+      <p hidden>Hidden attribute</p>
+      <p style="display: none">Not displayed</p>
+      <p aria-hidden="true">Not for readers</p>
+      <button>Click</button>
+      <input value="typed">
+    `)).toBe('Visible');
+  });
+});
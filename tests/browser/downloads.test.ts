@@ -0,0 +1,30 @@
+import { mimeTypeOf, safeFileName } from '../../src/browser/downloads.js';
+
+describe('mimeTypeOf', () => {
+  it('maps known extensions in any case', () => {
+    expect(mimeTypeOf('orders.csv')).toBe('text/csv');
+    expect(mimeTypeOf('Invoice-2024.PDF')).toBe('application/pdf');
+  });
+  
+  it('falls back to a generic binary type', () => {
+    expect(mimeTypeOf('archive.bin')).toBe('application/octet-stream');
+    expect(mimeTypeOf('README')).toBe('application/octet-stream');
+  });
+});
+
+describe('safeFileName', () => {
+  it('keeps plain file names', () => {
+    expect(safeFileName('orders (1).csv')).toBe('orders (1).csv');
+  });
+  
+  it('drops directories and replaces characters file systems reject', () => {
+    expect(safeFileName('../../etc/passwd')).toBe('passwd');
+    expect(safeFileName('C:\\reports\\q1.xlsx')).toBe('q1.xlsx');
+    expect(safeFileName('what?.txt')).toBe('what_.txt');
+  });
+  
+  it('names empty suggestions', () => {
+    expect(safeFileName('')).toBe('download');
+    expect(safeFileName('..')).toBe('download');
+  });
+});
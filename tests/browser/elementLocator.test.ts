@@ -0,0 +1,29 @@
+import { describeFrame, parseFrameSelector } from '../../src/browser/elementLocator.js';
+
+describe('parseFrameSelector', () => {
+  it('leaves unqualified selectors alone', () => {
+    expect(parseFrameSelector('form > button.pay')).toEqual({ framePath: [], selector: 'form > button.pay' });
+    expect(parseFrameSelector('my-app >>> .submit')).toEqual({ framePath: [], selector: 'my-app >>> .submit' });
+  });
+  
+  it('splits frame-qualified selectors into iframes and the element selector', () => {
+    expect(parseFrameSelector('iframe#checkout >> #card-number')).toEqual({
+      framePath: ['iframe#checkout'],
+      selector: '#card-number',
+    });
+    expect(parseFrameSelector('iframe[name="outer"]  >>  iframe.inner >> Card number')).toEqual({
+      framePath: ['iframe[name="outer"]', 'iframe.inner'],
+      selector: 'Card number',
+    });
+  });
+});
+
+describe('describeFrame', () => {
+  it('describes the main frame and iframes by name or URL', () => {
+    expect(describeFrame({ url: 'https://shop.example.com/', name: '', isMainFrame: true })).toBe('the main frame');
+    expect(describeFrame({ url: 'https://pay.example.com/', name: 'payment', isMainFrame: false }))
+      .toBe('frame "payment" (https://pay.example.com/)');
+    expect(describeFrame({ url: 'https://pay.example.com/', name: '', isMainFrame: false }))
+      .toBe('frame https://pay.example.com/');
+  });
+});
@@ -0,0 +1,60 @@
+import { JSDOM } from 'jsdom';
+import { describeTarget, findElementByText, hasTarget, TEXT_MATCH_ATTRIBUTE } from '../../src/browser/elementTarget.js';
+
+const html = `
+  <nav>
+    <ul class="menu">
+      <li><a href="/products">Products</a>
+        <ul class="submenu">
+          <li><a href="/products/laptops">Laptops</a></li>
+          <li><a href="/products/laptop-bags">Laptop bags</a></li>
+        </ul>
+      </li>
+      <li><button aria-label="Open settings"><span class="icon"></span></button></li>
+    </ul>
+  </nav>
+  <input type="submit" value="Save changes">
+  <script>const label = 'Laptops';</script>
+`;
+
+/**
+ * Find an element by text in the fixture page
+ * @returns The outer HTML of the stamped element, or null if nothing matched
+ */
+function find(text: string, index = 0): string | null {
+  const document = new JSDOM(html).window.document;
+  const found = findElementByText(document.documentElement, text, index, TEXT_MATCH_ATTRIBUTE);
+  const stamped = document.querySelectorAll(`[${TEXT_MATCH_ATTRIBUTE}]`);
+  
+  expect(stamped.length).toBe(found ? 1 : 0);
+  return found ? stamped[0].textContent || stamped[0].getAttribute('aria-label') || stamped[0].getAttribute('value') : null;
+}
+
+describe('findElementByText', () => {
+  it('finds the innermost element with exact matches first', () => {
+    expect(find('Laptops')).toBe('Laptops');
+    expect(find('laptop')).toBe('Laptops');
+    expect(find('laptop', 1)).toBe('Laptop bags');
+    expect(find('laptop', 2)).toBeNull();
+  });
+  
+  it('matches aria-labels and input values', () => {
+    expect(find('Open settings')).toBe('Open settings');
+    expect(find('Save changes')).toBe('Save changes');
+  });
+  
+  it('ignores script content and empty text', () => {
+    expect(find('const label')).toBeNull();
+    expect(find('  ')).toBeNull();
+  });
+});
+
+describe('hasTarget and describeTarget', () => {
+  it('require both coordinates for a point', () => {
+    expect(hasTarget({ x: 10 })).toBe(false);
+    expect(hasTarget({ x: 10, y: 20 })).toBe(true);
+    expect(hasTarget({ elementIndex: 0 })).toBe(true);
+    expect(describeTarget({ x: 10, y: 20 })).toBe('point (10, 20)');
+    expect(describeTarget({ selector: '#menu', text: 'Menu' })).toBe('selector "#menu"');
+  });
+});
@@ -0,0 +1,89 @@
+import { JSDOM } from 'jsdom';
+import { findFormControl, FIELD_MATCH_ATTRIBUTE } from '../../src/browser/fieldResolver.js';
+
+const html = `
+  <form>
+    <label for="first">First name</label>
+    <input id="first" name="fname">
+    <label>Last name: <input name="lname"></label>
+    <label for="mail">E-mail *</label>
+    <input id="mail" name="contact_email" type="email">
+    <span id="dob-label">Birth date</span>
+    <input name="dob" type="date" aria-labelledby="dob-label">
+    <input name="phone" aria-label="Phone number">
+    <input name="q" placeholder="Search products">
+    <label>Country
+      <select name="country"><option>Germany</option><option>France</option></select>
+    </label>
+    <textarea name="comments" title="Comments"></textarea>
+    <input type="hidden" name="token">
+    <input type="submit" value="Send">
+  </form>
+`;
+
+/**
+ * Resolve a field name in the fixture form
+ * @returns The match and the name attribute of the matched control
+ */
+function resolve(fieldName: string) {
+  const document = new JSDOM(html).window.document;
+  const match = findFormControl(document.documentElement, fieldName, FIELD_MATCH_ATTRIBUTE);
+  const control = document.querySelector(`[${FIELD_MATCH_ATTRIBUTE}]`);
+  return { match, name: control?.getAttribute('name') };
+}
+
+describe('findFormControl', () => {
+  it('matches name and id attributes exactly', () => {
+    expect(resolve('fname')).toEqual({ match: { strategy: 'name', matchedText: 'fname', score: 1 }, name: 'fname' });
+    expect(resolve('mail')).toEqual({ match: { strategy: 'id', matchedText: 'mail', score: 1 }, name: 'contact_email' });
+  });
+  
+  it('matches linked, wrapping and ARIA labels', () => {
+    expect(resolve('First name')).toMatchObject({ match: { strategy: 'label' }, name: 'fname' });
+    expect(resolve('last name')).toMatchObject({ match: { strategy: 'label', matchedText: 'Last name:' }, name: 'lname' });
+    expect(resolve('Country')).toMatchObject({ match: { strategy: 'label', matchedText: 'Country' }, name: 'country' });
+    expect(resolve('Birth date')).toMatchObject({ match: { strategy: 'aria-labelledby' }, name: 'dob' });
+    expect(resolve('Phone number')).toMatchObject({ match: { strategy: 'aria-label' }, name: 'phone' });
+  });
+  
+  it('matches placeholders, titles and selectors', () => {
+    expect(resolve('Search products')).toMatchObject({ match: { strategy: 'placeholder' }, name: 'q' });
+    expect(resolve('comments')).toMatchObject({ match: { strategy: 'name' }, name: 'comments' });
+    expect(resolve('Comments')).toMatchObject({ match: { strategy: 'title' }, name: 'comments' });
+    expect(resolve('textarea[name="comments"]')).toMatchObject({ match: { strategy: 'selector' }, name: 'comments' });
+  });
+  
+  it('falls back to fuzzy label matches', () => {
+    expect(resolve('Email address')).toEqual({
+      match: { strategy: 'fuzzy', matchedText: 'E-mail *', score: 0.67 },
+      name: 'contact_email',
+    });
+    expect(resolve('Date of birth')).toMatchObject({ match: { strategy: 'fuzzy', matchedText: 'Birth date' }, name: 'dob' });
+    expect(resolve('Your phone')).toMatchObject({ match: { strategy: 'fuzzy' }, name: 'phone' });
+  });
+  
+  it('does not fuzzy-match labels that only share some words', () => {
+    expect(resolve('Middle name')).toEqual({ match: null, name: undefined });
+    expect(resolve('Card number')).toEqual({ match: null, name: undefined });
+  });
+  
+  it('ignores hidden inputs and buttons and reports no match', () => {
+    expect(resolve('token')).toEqual({ match: null, name: undefined });
+    expect(resolve('Send')).toEqual({ match: null, name: undefined });
+    expect(resolve('Favourite colour')).toEqual({ match: null, name: undefined });
+  });
+  
+  it('finds controls and labels inside open shadow roots', () => {
+    const document = new JSDOM('<form><input name="q"><signup-form></signup-form></form>').window.document;
+    const shadow = document.querySelector('signup-form')!.attachShadow({ mode: 'open' });
+    shadow.innerHTML = '<label for="email">Work email</label><input id="email" name="work_email">';
+    
+    const match = findFormControl(document.documentElement, 'Work email', FIELD_MATCH_ATTRIBUTE);
+    expect(match).toMatchObject({ strategy: 'label', matchedText: 'Work email' });
+    expect(shadow.querySelector(`[${FIELD_MATCH_ATTRIBUTE}]`)?.getAttribute('name')).toBe('work_email');
+    
+    // Matching again clears the stamp inside the shadow root
+    findFormControl(document.documentElement, 'q', FIELD_MATCH_ATTRIBUTE);
+    expect(shadow.querySelector(`[${FIELD_MATCH_ATTRIBUTE}]`)).toBeNull();
+  });
+});
@@ -0,0 +1,60 @@
+import { JSDOM } from 'jsdom';
+import { findDropdownOption, setControlValue, OPTION_MATCH_ATTRIBUTE } from '../../src/browser/formFiller.js';
+
+describe('setControlValue', () => {
+  it('sets the value and fires input and change events', () => {
+    const document = new JSDOM('<input type="date">').window.document;
+    const input = document.querySelector('input')!;
+    const events: string[] = [];
+    input.addEventListener('input', () => events.push('input'));
+    input.addEventListener('change', () => events.push('change'));
+    
+    expect(setControlValue(input, '2024-02-29')).toBe('2024-02-29');
+    expect(events).toEqual(['input', 'change']);
+  });
+  
+  it('returns the value the browser kept for invalid input', () => {
+    const document = new JSDOM('<input type="date">').window.document;
+    
+    expect(setControlValue(document.querySelector('input')!, 'next Tuesday')).toBe('');
+  });
+});
+
+describe('findDropdownOption', () => {
+  const html = `
+    <div role="combobox" aria-haspopup="listbox">Choose a country</div>
+    <ul role="listbox">
+      <li role="option">Germany</li>
+      <li role="option" aria-disabled="true">France</li>
+      <li role="option" data-value="uk">United Kingdom</li>
+      <li role="option">New Zealand</li>
+    </ul>
+  `;
+  
+  /**
+   * Find an option in the fixture dropdown
+   * @returns The matched text and whether exactly one option was stamped
+   */
+  function find(text: string, exact = false) {
+    const document = new JSDOM(html).window.document;
+    const matched = findDropdownOption(document.documentElement, text, OPTION_MATCH_ATTRIBUTE, exact);
+    const stamped = document.querySelectorAll(`[${OPTION_MATCH_ATTRIBUTE}]`);
+    
+    return { matched, stamped: stamped.length === 1 ? stamped[0].textContent : null };
+  }
+  
+  it('matches option text case-insensitively and data-value exactly', () => {
+    expect(find('germany')).toEqual({ matched: 'Germany', stamped: 'Germany' });
+    expect(find('uk')).toEqual({ matched: 'United Kingdom', stamped: 'United Kingdom' });
+  });
+  
+  it('falls back to partial matches unless exact matches are required', () => {
+    expect(find('new').matched).toBe('New Zealand');
+    expect(find('Zealand').matched).toBe('New Zealand');
+    expect(find('new', true).matched).toBeNull();
+  });
+  
+  it('skips disabled options', () => {
+    expect(find('France')).toEqual({ matched: null, stamped: null });
+  });
+});
@@ -0,0 +1,91 @@
+import { JSDOM } from 'jsdom';
+import { describeForms } from '../../src/browser/formInspector.js';
+
+const html = `
+  <form id="signup" action="/register" method="post">
+    <label for="email">Email address</label>
+    <input id="email" name="email" type="email" required placeholder="you@example.com">
+    <label>Password <input name="password" type="password" minlength="8" value="secret"></label>
+    <input name="zip" pattern="[0-9]{5}" aria-label="ZIP code" maxlength="5">
+    <select name="country" required>
+      <option value="">Choose</option>
+      <option value="de" selected>Germany</option>
+      <option value="fr">France</option>
+    </select>
+    <fieldset>
+      <legend>Shipping</legend>
+      <label><input type="radio" name="shipping" value="eu" checked> EU</label>
+      <label><input type="radio" name="shipping" value="world"> Worldwide</label>
+    </fieldset>
+    <label><input type="checkbox" name="terms" value="yes"> I accept the terms</label>
+    <input type="hidden" name="csrf" value="x">
+    <button type="button">Show password</button>
+    <button>Create account</button>
+  </form>
+  <div class="search">
+    <input placeholder="Search">
+    <div contenteditable="true" aria-label="Notes">Draft</div>
+    <button type="button">Search</button>
+  </div>
+`;
+
+describe('describeForms', () => {
+  const document = new JSDOM(html, { url: 'https://example.com/signup' }).window.document;
+  const forms = describeForms(document.documentElement, true);
+  
+  it('describes each form and the controls outside forms', () => {
+    expect(forms).toHaveLength(2);
+    expect(forms[0]).toMatchObject({
+      index: 0,
+      formless: false,
+      id: 'signup',
+      action: 'https://example.com/register',
+      method: 'post',
+      selector: '[id="signup"]',
+      submitButton: { text: 'Create account' },
+    });
+    expect(forms[1]).toMatchObject({ index: 1, formless: true, submitButton: { text: 'Search' } });
+  });
+  
+  it('describes controls with labels, constraints and values', () => {
+    const [email, password, zip, country, shipping, terms] = forms[0].fields;
+    
+    expect(forms[0].fields).toHaveLength(6);
+    expect(email).toMatchObject({
+      fieldName: 'email',
+      type: 'email',
+      label: 'Email address',
+      placeholder: 'you@example.com',
+      required: true,
+      selector: '[id="email"]',
+    });
+    expect(password).toMatchObject({ fieldName: 'password', label: 'Password', minLength: 8 });
+    expect(password.value).toBeUndefined();
+    expect(zip).toMatchObject({ label: 'ZIP code', pattern: '[0-9]{5}', maxLength: 5, required: false });
+    expect(country).toMatchObject({ type: 'select', required: true, value: 'de', multiple: false });
+    expect(country.options).toEqual([
+      { value: '', label: 'Choose', selected: false },
+      { value: 'de', label: 'Germany', selected: true },
+      { value: 'fr', label: 'France', selected: false },
+    ]);
+    expect(shipping).toMatchObject({
+      fieldName: 'shipping',
+      type: 'radio',
+      label: 'Shipping',
+      value: 'eu',
+      selector: 'input[type="radio"][name="shipping"]',
+      options: [
+        { value: 'eu', label: 'EU', selected: true },
+        { value: 'world', label: 'Worldwide', selected: false },
+      ],
+    });
+    expect(terms).toMatchObject({ type: 'checkbox', label: 'I accept the terms', checked: false });
+  });
+  
+  it('identifies unnamed controls by label or selector', () => {
+    const [search, notes] = forms[1].fields;
+    
+    expect(search).toMatchObject({ fieldName: 'body > div > input', placeholder: 'Search', value: '' });
+    expect(notes).toMatchObject({ fieldName: 'Notes', type: 'contenteditable', value: 'Draft' });
+  });
+});
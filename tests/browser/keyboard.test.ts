@@ -0,0 +1,26 @@
+import { parseKeySequence } from '../../src/browser/keyboard.js';
+
+describe('parseKeySequence', () => {
+  it('parses single keys and combinations', () => {
+    expect(parseKeySequence('Enter')).toEqual([['Enter']]);
+    expect(parseKeySequence('Control+Shift+P')).toEqual([['Control', 'Shift', 'p']]);
+    expect(parseKeySequence('ctrl+a')).toEqual([['Control', 'a']]);
+  });
+  
+  it('parses chord sequences separated by spaces', () => {
+    expect(parseKeySequence('Control+K Control+C')).toEqual([['Control', 'k'], ['Control', 'c']]);
+    expect(parseKeySequence('  Tab   Tab ')).toEqual([['Tab'], ['Tab']]);
+  });
+  
+  it('treats a trailing plus as the plus key', () => {
+    expect(parseKeySequence('Control++')).toEqual([['Control', '+']]);
+    expect(parseKeySequence('+')).toEqual([['+']]);
+  });
+  
+  it('maps aliases and platform-dependent modifiers', () => {
+    expect(parseKeySequence('esc space pgdn f5')).toEqual([['Escape'], ['Space'], ['PageDown'], ['F5']]);
+    expect(parseKeySequence('cmd+option+i')).toEqual([['Meta', 'Alt', 'i']]);
+    expect(parseKeySequence('ControlOrMeta+S', 'darwin')).toEqual([['Meta', 's']]);
+    expect(parseKeySequence('ControlOrMeta+S', 'linux')).toEqual([['Control', 's']]);
+  });
+});
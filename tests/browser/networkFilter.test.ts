@@ -0,0 +1,69 @@
+import {
+  NetworkRules,
+  hasActiveRules,
+  isAdOrTrackerUrl,
+  matchesUrlPattern,
+  shouldBlockRequest,
+} from '../../src/browser/networkFilter.js';
+
+const noRules: NetworkRules = {
+  blockResourceTypes: [],
+  blockUrlPatterns: [],
+  blockAdsAndTrackers: false,
+};
+
+describe('isAdOrTrackerUrl', () => {
+  it('matches listed domains and their subdomains', () => {
+    expect(isAdOrTrackerUrl('https://www.google-analytics.com/g/collect?v=2')).toBe(true);
+    expect(isAdOrTrackerUrl('https://securepubads.g.doubleclick.net/tag/js/gpt.js')).toBe(true);
+    expect(isAdOrTrackerUrl('https://connect.facebook.net/en_US/fbevents.js')).toBe(true);
+  });
+  
+  it('does not match unrelated or look-alike hosts', () => {
+    expect(isAdOrTrackerUrl('https://www.facebook.net.example.com/')).toBe(false);
+    expect(isAdOrTrackerUrl('https://www.facebook.com/')).toBe(false);
+    expect(isAdOrTrackerUrl('https://notdoubleclick.net/')).toBe(false);
+    expect(isAdOrTrackerUrl('not a url')).toBe(false);
+  });
+});
+
+describe('matchesUrlPattern', () => {
+  it('treats patterns without wildcards as substrings', () => {
+    expect(matchesUrlPattern('https://example.com/assets/tracking.js', '/tracking.')).toBe(true);
+    expect(matchesUrlPattern('https://example.com/app.js', 'tracking')).toBe(false);
+  });
+  
+  it('anchors wildcard patterns to the whole URL', () => {
+    expect(matchesUrlPattern('https://cdn.example.com/video/intro.mp4', '*://cdn.example.com/*.mp4')).toBe(true);
+    expect(matchesUrlPattern('https://cdn.example.com/video/intro.mp4?x=1', '*://cdn.example.com/*.mp4')).toBe(false);
+    expect(matchesUrlPattern('https://cdnxexample.com/a.mp4', '*://cdn.example.com/*')).toBe(false);
+  });
+});
+
+describe('shouldBlockRequest', () => {
+  it('blocks nothing without rules', () => {
+    expect(hasActiveRules(noRules)).toBe(false);
+    expect(shouldBlockRequest(noRules, 'https://www.google-analytics.com/analytics.js', 'script')).toBe(false);
+  });
+  
+  it('blocks by resource type, URL pattern and the ad and tracker list', () => {
+    const rules: NetworkRules = {
+      blockResourceTypes: ['image', 'font'],
+      blockUrlPatterns: ['*/ads/*'],
+      blockAdsAndTrackers: true,
+    };
+    
+    expect(hasActiveRules(rules)).toBe(true);
+    expect(shouldBlockRequest(rules, 'https://example.com/logo.png', 'image')).toBe(true);
+    expect(shouldBlockRequest(rules, 'https://example.com/ads/banner.js', 'script')).toBe(true);
+    expect(shouldBlockRequest(rules, 'https://www.googletagmanager.com/gtm.js', 'script')).toBe(true);
+    expect(shouldBlockRequest(rules, 'https://example.com/app.js', 'script')).toBe(false);
+    expect(shouldBlockRequest(rules, 'https://example.com/', 'document')).toBe(false);
+  });
+  
+  it('never blocks inline data', () => {
+    const rules: NetworkRules = { ...noRules, blockResourceTypes: ['image'] };
+    
+    expect(shouldBlockRequest(rules, 'data:image/png;base64,iVBORw0KGgo=', 'image')).toBe(false);
+  });
+});
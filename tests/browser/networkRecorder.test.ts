@@ -0,0 +1,168 @@
+import { EventEmitter } from 'events';
+import { NetworkRecorder, NetworkEntry, filterNetworkEntries, toHar } from '../../src/browser/networkRecorder.js';
+
+/**
+ * Build a fake request with an optional response, shaped like puppeteer's HTTPRequest
+ */
+function fakeRequest(url: string, options: { method?: string; type?: string; status?: number; body?: string } = {}) {
+  const response = options.status === undefined ? null : {
+    status: () => options.status,
+    statusText: () => (options.status === 200 ? 'OK' : 'Not Found'),
+    headers: () => ({ 'content-type': 'application/json; charset=utf-8', 'content-length': String((options.body || '').length) }),
+    fromCache: () => false,
+    remoteAddress: () => ({ ip: '93.184.216.34', port: 443 }),
+    timing: () => null,
+    buffer: async () => Buffer.from(options.body || ''),
+  };
+  
+  return {
+    url: () => url,
+    method: () => options.method || 'GET',
+    resourceType: () => options.type || 'xhr',
+    headers: () => ({ accept: '*/*' }),
+    postData: () => (options.method === 'POST' ? '{"q":1}' : undefined),
+    response: () => response,
+    failure: () => ({ errorText: 'net::ERR_BLOCKED_BY_CLIENT' }),
+  };
+}
+
+function entry(overrides: Partial<NetworkEntry>): NetworkEntry {
+  return {
+    id: 1,
+    url: 'https://example.com/',
+    method: 'GET',
+    resourceType: 'document',
+    requestHeaders: {},
+    status: 200,
+    statusText: 'OK',
+    responseHeaders: {},
+    mimeType: 'text/html',
+    fromCache: false,
+    startedDateTime: '2024-01-01T00:00:00.000Z',
+    time: 12,
+    timings: { blocked: -1, dns: -1, connect: -1, ssl: -1, send: 0, wait: 12, receive: 0 },
+    responseBodySize: -1,
+    ...overrides,
+  };
+}
+
+describe('NetworkRecorder', () => {
+  it('records finished, failed and unfinished requests with bodies', async () => {
+    const page = new EventEmitter();
+    const recorder = new NetworkRecorder({ captureBodies: true });
+    recorder.attach(page as any, 'tab-1');
+    
+    const api = fakeRequest('https://example.com/api/items?page=2', { method: 'POST', status: 200, body: '{"items":[]}' });
+    const blocked = fakeRequest('https://ads.example.net/pixel.gif', { type: 'image' });
+    const slow = fakeRequest('https://example.com/slow', { type: 'fetch' });
+    
+    page.emit('request', api);
+    page.emit('request', blocked);
+    page.emit('request', slow);
+    page.emit('requestfinished', api);
+    page.emit('requestfailed', blocked);
+    
+    const entries = await recorder.stop();
+    
+    expect(entries.map(e => e.url)).toEqual([
+      'https://example.com/api/items?page=2',
+      'https://ads.example.net/pixel.gif',
+      'https://example.com/slow',
+    ]);
+    expect(entries[0]).toMatchObject({
+      tabId: 'tab-1',
+      method: 'POST',
+      status: 200,
+      mimeType: 'application/json',
+      requestBody: '{"q":1}',
+      responseBody: '{"items":[]}',
+      responseBodySize: 12,
+      remoteAddress: '93.184.216.34',
+    });
+    expect(entries[1].failure).toBe('net::ERR_BLOCKED_BY_CLIENT');
+    expect(entries[2].failure).toBe('unfinished');
+    
+    // Detached pages are no longer recorded
+    page.emit('request', fakeRequest('https://example.com/after'));
+    expect(await recorder.stop()).toHaveLength(3);
+  });
+  
+  it('drops the oldest entries over the entry limit', async () => {
+    const page = new EventEmitter();
+    const recorder = new NetworkRecorder({ maxEntries: 2 });
+    recorder.attach(page as any);
+    
+    for (const path of ['a', 'b', 'c']) {
+      const request = fakeRequest(`https://example.com/${path}`, { status: 200 });
+      page.emit('request', request);
+      page.emit('requestfinished', request);
+    }
+    
+    const entries = await recorder.stop();
+    expect(entries.map(e => e.url)).toEqual(['https://example.com/b', 'https://example.com/c']);
+    expect(recorder.getDroppedEntryCount()).toBe(1);
+  });
+});
+
+describe('filterNetworkEntries', () => {
+  const entries = [
+    entry({ id: 1, url: 'https://example.com/', resourceType: 'document' }),
+    entry({ id: 2, url: 'https://example.com/api/search?q=x', resourceType: 'xhr', method: 'POST' }),
+    entry({ id: 3, url: 'https://example.com/api/missing', resourceType: 'fetch', status: 404 }),
+    entry({ id: 4, url: 'https://cdn.example.com/font.woff2', resourceType: 'font', status: 0, failure: 'net::ERR_FAILED' }),
+  ];
+  
+  it('returns everything without a filter', () => {
+    expect(filterNetworkEntries(entries)).toHaveLength(4);
+  });
+  
+  it('filters by resource type, URL pattern and method', () => {
+    expect(filterNetworkEntries(entries, { resourceTypes: ['xhr', 'fetch'] }).map(e => e.id)).toEqual([2, 3]);
+    expect(filterNetworkEntries(entries, { urlPattern: '*/api/*' }).map(e => e.id)).toEqual([2, 3]);
+    expect(filterNetworkEntries(entries, { methods: ['post'] }).map(e => e.id)).toEqual([2]);
+  });
+  
+  it('filters by status and failures', () => {
+    expect(filterNetworkEntries(entries, { statusMin: 400 }).map(e => e.id)).toEqual([3]);
+    expect(filterNetworkEntries(entries, { failedOnly: true }).map(e => e.id)).toEqual([3, 4]);
+  });
+});
+
+describe('toHar', () => {
+  it('produces a HAR 1.2 log', () => {
+    const har = toHar([
+      entry({
+        url: 'https://example.com/api?id=7',
+        method: 'POST',
+        requestHeaders: { 'content-type': 'application/json' },
+        requestBody: '{"a":1}',
+        responseHeaders: { location: 'https://example.com/next' },
+        status: 302,
+        responseBody: 'aGk=',
+        responseBodyEncoding: 'base64',
+        responseBodySize: 2,
+        remoteAddress: '127.0.0.1',
+      }),
+    ], { name: 'browser-use-claude-mcp', version: '1.0.0' });
+    
+    expect(har.log.version).toBe('1.2');
+    expect(har.log.creator).toEqual({ name: 'browser-use-claude-mcp', version: '1.0.0' });
+    
+    const [harEntry] = har.log.entries;
+    expect(harEntry.request).toMatchObject({
+      method: 'POST',
+      url: 'https://example.com/api?id=7',
+      headers: [{ name: 'content-type', value: 'application/json' }],
+      queryString: [{ name: 'id', value: '7' }],
+      postData: { mimeType: 'application/json', text: '{"a":1}' },
+      bodySize: 7,
+    });
+    expect(harEntry.response).toMatchObject({
+      status: 302,
+      redirectURL: 'https://example.com/next',
+      content: { size: 2, mimeType: 'text/html', text: 'aGk=', encoding: 'base64' },
+    });
+    expect(harEntry.serverIPAddress).toBe('127.0.0.1');
+    expect(harEntry.timings).toEqual({ blocked: -1, dns: -1, connect: -1, ssl: -1, send: 0, wait: 12, receive: 0 });
+  });
+});
@@ -0,0 +1,143 @@
+import { JSDOM } from 'jsdom';
+import { extractMainContent, extractArticleMetadata } from '../../src/browser/readability.js';
+
+/**
+ * Run a page-side function against an HTML document, exposing it as the page
+ * globals the function uses when it runs in the browser
+ * @returns What the function returned
+ */
+function inPage<T>(html: string, run: () => T): T {
+  const { window } = new JSDOM(html, { url: 'https://news.example.com/2024/05/rivers' });
+  const globals = globalThis as Record<string, unknown>;
+  Object.assign(globals, { window, document: window.document });
+  
+  try {
+    return run();
+  } finally {
+    delete globals.window;
+    delete globals.document;
+  }
+}
+
+const paragraph = (topic: string) =>
+  `<p>The ${topic} changed over the last decade, according to surveys, field notes and interviews with ` +
+  'people who live along the banks, and the measurements taken every spring confirm it.</p>';
+
+const articlePage = `<!DOCTYPE html>
+<html>
+<head><title>Rivers</title></head>
+<body>
+  <header class="site-header"><a href="/">News</a></header>
+  <nav><a href="/world">World</a> <a href="/science">Science</a> <a href="/sport">Sport</a></nav>
+  <div id="main">
+    <article class="post">
+      <h1>How rivers change</h1>
+      ${paragraph('water level')}
+      ${paragraph('course of the river')}
+      <p style="display: none">Hidden teaser text that should not be extracted from the page at all.</p>
+      <div class="share-tools"><a href="/share/x">Share on X</a> <a href="/share/mail">Mail</a></div>
+      ${paragraph('fish population')}
+    </article>
+    <aside class="sidebar"><p>Most read: a story about something else entirely, with commas, many commas.</p></aside>
+  </div>
+  <div class="comments"><p>First comment, long enough to be scored as a paragraph, with commas, too.</p></div>
+  <footer>Copyright News</footer>
+</body>
+</html>`;
+
+describe('extractMainContent', () => {
+  const content = inPage(articlePage, () => {
+    const main = extractMainContent();
+    return { text: (main.textContent || '').replace(/\s+/g, ' '), html: main.innerHTML };
+  });
+  
+  it('keeps the article heading and paragraphs', () => {
+    expect(content.text).toContain('How rivers change');
+    expect(content.text).toContain('The water level changed');
+    expect(content.text).toContain('The course of the river changed');
+    expect(content.text).toContain('The fish population changed');
+  });
+  
+  it('removes navigation, sidebars, comments, footers and hidden elements', () => {
+    expect(content.text).not.toContain('Science');
+    expect(content.text).not.toContain('Most read');
+    expect(content.text).not.toContain('First comment');
+    expect(content.text).not.toContain('Copyright');
+    expect(content.text).not.toContain('Hidden teaser');
+    expect(content.text).not.toContain('Share on X');
+  });
+  
+  it('does not change the page', () => {
+    const untouched = inPage(articlePage, () => {
+      extractMainContent();
+      return document.body.textContent || '';
+    });
+    expect(untouched).toContain('Hidden teaser');
+    expect(untouched).toContain('Most read');
+  });
+  
+  it('falls back to the body when nothing scores', () => {
+    const text = inPage('<!DOCTYPE html><body><h1>Welcome</h1><p>Short note</p><nav>Home</nav></body>', () =>
+      (extractMainContent().textContent || '').replace(/\s+/g, ' ').trim()
+    );
+    expect(text).toBe('WelcomeShort note');
+  });
+});
+
+describe('extractArticleMetadata', () => {
+  it('reads JSON-LD articles, including @graph lists and author arrays', () => {
+    const metadata = inPage(`<!DOCTYPE html><html><head>
+      <script type="application/ld+json">{ not json }</script>
+      <script type="application/ld+json">${JSON.stringify({
+        '@graph': [
+          { '@type': 'WebSite', name: 'News' },
+          {
+            '@type': 'NewsArticle',
+            author: [{ '@type': 'Person', name: 'Ada Park' }, { '@type': 'Person', name: 'Lee Moss' }],
+            datePublished: '2024-05-02T08:00:00Z',
+            image: [{ url: '/images/river.jpg' }],
+          },
+        ],
+      })}</script>
+      <meta property="og:site_name" content="Example News">
+      <meta name="description" content="How rivers change over time">
+    </head><body></body></html>`, () => extractArticleMetadata());
+    
+    expect(metadata).toEqual({
+      byline: 'Ada Park, Lee Moss',
+      publishedDate: '2024-05-02T08:00:00Z',
+      leadImage: 'https://news.example.com/images/river.jpg',
+      excerpt: 'How rivers change over time',
+      siteName: 'Example News',
+    });
+  });
+  
+  it('falls back to meta tags and markup', () => {
+    const metadata = inPage(`<!DOCTYPE html><html><head>
+      <meta property="og:image" content="https://cdn.example.com/lead.png">
+      <meta property="og:description" content="A summary">
+    </head><body>
+      <article>
+        <p class="byline">By Sam Rivera</p>
+        <time datetime="2024-04-30">April 30</time>
+      </article>
+    </body></html>`, () => extractArticleMetadata());
+    
+    expect(metadata).toEqual({
+      byline: 'Sam Rivera',
+      publishedDate: '2024-04-30',
+      leadImage: 'https://cdn.example.com/lead.png',
+      excerpt: 'A summary',
+      siteName: undefined,
+    });
+  });
+  
+  it('ignores JSON-LD that is not an article', () => {
+    const metadata = inPage(`<!DOCTYPE html><html><head>
+      <script type="application/ld+json">${JSON.stringify({ '@type': 'Organization', name: 'News', image: 'logo.png' })}</script>
+    </head><body></body></html>`, () => extractArticleMetadata());
+    
+    expect(metadata.byline).toBeUndefined();
+    expect(metadata.leadImage).toBeUndefined();
+  });
+});
@@ -0,0 +1,177 @@
+import { MockAdapter } from '../../src/ai/adapters/mockAdapter.js';
+import { startFixtureServer, FixtureServer } from './fixtureServer.js';
+import { createToolHarness, ToolHarness } from './toolHarness.js';
+
+describe('AI tools with the mock provider', () => {
+  let fixtures: FixtureServer;
+  let tools: ToolHarness;
+  
+  beforeAll(async () => {
+    fixtures = await startFixtureServer();
+    tools = await createToolHarness();
+  });
+  
+  afterAll(async () => {
+    await tools?.close();
+    await fixtures?.close();
+  });
+  
+  afterEach(() => {
+    MockAdapter.reset();
+  });
+  
+  it('analyze_content sends the page text to the model', async () => {
+    MockAdapter.enqueue({ match: 'Summarize the article', response: 'Local fixtures keep tests reliable.' });
+    
+    const result = await tools.call('analyze_content', {
+      url: `${fixtures.url}/article.html`,
+      instructions: 'Summarize the article',
+      selector: 'article',
+    });
+    
+    expect(result.analysis).toBe('Local fixtures keep tests reliable.');
+    expect(result.extractedText).toContain('Headless browsers render pages');
+    
+    const [call] = MockAdapter.getCalls();
+    expect(call).toEqual(expect.objectContaining({ method: 'generateText', hasImage: false }));
+    expect(call.prompt).toContain('Scripted model responses do the same');
+    expect(call.prompt).not.toContain('Copyright Fixture Press');
+  });
+  
+  it('analyze_webpage answers from the screenshot or the HTML', async () => {
+    MockAdapter.enqueue('The Team plan costs $29.', 'Three plans are listed.');
+    
+    const withScreenshot = await tools.call('analyze_webpage', {
+      url: `${fixtures.url}/table.html`,
+      question: 'How much is the Team plan?',
+    });
+    expect(withScreenshot).toEqual(expect.objectContaining({ title: 'Pricing', answer: 'The Team plan costs $29.' }));
+    
+    const fromHtml = await tools.call('analyze_webpage', {
+      url: `${fixtures.url}/table.html`,
+      question: 'How many plans are there?',
+      extractScreenshot: false,
+    });
+    expect(fromHtml.answer).toBe('Three plans are listed.');
+    
+    const calls = MockAdapter.getCalls();
+    expect(calls.map(call => call.method)).toEqual(['generateTextWithImage', 'generateText']);
+    expect(calls[1].prompt).toContain('<td>Enterprise</td>');
+  });
+  
+  it('analyze_screenshot reports the mock model', async () => {
+    MockAdapter.enqueue({ match: /What does the form ask for\?/, response: 'A name, email, topic and message.' });
+    const { sessionId } = await tools.call('browse_webpage', { url: `${fixtures.url}/form.html` });
+    
+    const result = await tools.call('analyze_screenshot', { question: 'What does the form ask for?', selector: 'form', sessionId });
+    
+    expect(result).toEqual(expect.objectContaining({
+      analysis: 'A name, email, topic and message.',
+      title: 'Contact Form',
+      model: 'mock',
+    }));
+  });
+  
+  it('extract_structured_data retries until the data matches the schema', async () => {
+    MockAdapter.enqueue(
+      JSON.stringify({ data: { plans: [{ name: 'Starter', price: '$9' }] }, fields: {} }),
+      JSON.stringify({
+        data: { plans: [{ name: 'Starter', price: 9 }, { name: 'Team', price: 29 }, { name: 'Enterprise', price: 99 }] },
+        fields: { 'plans[1].name': { confidence: 0.9, source: 'Team' } },
+      })
+    );
+    
+    const result = await tools.call('extract_structured_data', {
+      url: `${fixtures.url}/table.html`,
+      schema: {
+        type: 'object',
+        properties: {
+          plans: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: { name: { type: 'string' }, price: { type: 'number' } },
+              required: ['name', 'price'],
+            },
+          },
+        },
+        required: ['plans'],
+      },
+    });
+    
+    expect(result.valid).toBe(true);
+    expect(result.attempts).toBe(2);
+    expect(result.data.plans).toHaveLength(3);
+    expect(result.fields['plans[1].name']).toEqual({ confidence: 0.9, source: 'Team', sourceFound: true });
+    expect(MockAdapter.getCalls()[1].prompt).toContain('did not match the schema');
+  });
+  
+  it('smart_fill_form proposes values for review and fills them in', async () => {
+    const strategy = JSON.stringify({ name: 'Jane Doe', email: 'jane@example.com', topic: 'Support', subscribe: 'yes' });
+    MockAdapter.enqueue({ match: 'Register as Jane Doe', response: strategy, repeat: true });
+    
+    const proposed = await tools.call('smart_fill_form', {
+      url: `${fixtures.url}/form.html`,
+      requirements: 'Register as Jane Doe, jane@example.com, ask support and subscribe',
+    });
+    expect(proposed.proposedValues).toEqual({
+      name: 'Jane Doe',
+      email: 'jane@example.com',
+      topic: 'support',
+      subscribe: 'true',
+    });
+    expect(proposed.filled).toBe(false);
+    expect(MockAdapter.getCalls()[0].prompt).toContain('- topic (type select, label "Topic", options: sales (Sales), support (Support))');
+    
+    const filled = await tools.call('smart_fill_form', {
+      requirements: 'Register as Jane Doe, jane@example.com, ask support and subscribe',
+      submit: true,
+      sessionId: proposed.sessionId,
+    });
+    expect(filled.filledFields).toEqual(['name', 'email', 'topic', 'subscribe']);
+    expect(filled.unsatisfiedFields).toEqual([]);
+    expect(filled.submitted).toBe(true);
+    expect(filled.newUrl).toContain('name=Jane+Doe');
+    expect(filled.newUrl).toContain('topic=support');
+  });
+  
+  it('smart_fill_form reports values that do not fit their field', async () => {
+    MockAdapter.enqueue(JSON.stringify({ name: 'Jane Doe', topic: 'billing', nickname: 'JD' }));
+    
+    const result = await tools.call('smart_fill_form', {
+      url: `${fixtures.url}/form.html`,
+      requirements: 'Jane Doe asking about billing',
+    });
+    
+    expect(result.proposedValues).toEqual({ name: 'Jane Doe' });
+    expect(result.unsatisfiedFields).toEqual([
+      { fieldName: 'topic', label: 'Topic', required: false, reason: '"billing" is not one of the options' },
+    ]);
+  });
+  
+  it('run_browser_task follows the scripted actions to completion', async () => {
+    MockAdapter.enqueue(
+      { match: 'Title: Pricing', response: JSON.stringify({ thought: 'Open the blog', action: 'navigate', url: `${fixtures.url}/article.html` }) },
+      { match: 'Title: Headless Browsers in Testing', response: JSON.stringify({ thought: 'Found it', action: 'done', result: 'Ada Example' }) }
+    );
+    
+    const result = await tools.call('run_browser_task', {
+      goal: 'Find the author of the blog post',
+      startUrl: `${fixtures.url}/table.html`,
+      maxSteps: 5,
+    });
+    
+    expect(result.status).toBe('completed');
+    expect(result.result).toBe('Ada Example');
+    expect(result.steps.map((step: { action: { action: string } }) => step.action.action)).toEqual(['navigate', 'done']);
+    expect(result.steps[0].success).toBe(true);
+  });
+  
+  it('fails a tool call when no scripted response matches', async () => {
+    await expect(tools.call('analyze_webpage', {
+      url: `${fixtures.url}/index.html`,
+      question: 'Anything?',
+      extractScreenshot: false,
+    })).rejects.toThrow('No mock AI response matches the prompt');
+  });
+});
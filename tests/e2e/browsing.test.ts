@@ -0,0 +1,120 @@
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { Config } from '../../src/config/index.js';
+import { startFixtureServer, FixtureServer } from './fixtureServer.js';
+import { createToolHarness, ToolHarness } from './toolHarness.js';
+
+describe('reading tools', () => {
+  let fixtures: FixtureServer;
+  let tools: ToolHarness;
+  
+  beforeAll(async () => {
+    fixtures = await startFixtureServer();
+    tools = await createToolHarness();
+    Config.search.searxngUrl = fixtures.url;
+  });
+  
+  afterAll(async () => {
+    await tools?.close();
+    await fixtures?.close();
+  });
+  
+  it('registers every tool in src/tools', () => {
+    const toolsDir = join(__dirname, '..', '..', 'src', 'tools');
+    const declared = readdirSync(toolsDir)
+      .filter(file => file !== 'index.ts')
+      .map(file => readFileSync(join(toolsDir, file), 'utf8').match(/registerToolDefinition\(\{\s*name: '([a-z_]+)'/)?.[1]);
+    
+    expect(declared).not.toContain(undefined);
+    expect([...tools.toolNames].sort()).toEqual([...declared].sort());
+  });
+  
+  it('browse_webpage returns the main content, metadata and page errors', async () => {
+    const result = await tools.call('browse_webpage', { url: `${fixtures.url}/article.html` });
+    
+    expect(result.title).toBe('Headless Browsers in Testing');
+    expect(result.content).toContain('Serving fixture pages from a local server');
+    expect(result.content).not.toContain('Copyright Fixture Press');
+    expect(result.byline).toBe('Ada Example');
+    expect(result.publishedDate).toBe('2024-03-05T09:30:00Z');
+    expect(result.leadImage).toBe(`${fixtures.url}/pixel.png`);
+    expect(result.wordCount).toBeGreaterThan(50);
+    expect(result.errors).toEqual([
+      expect.objectContaining({ source: 'console', text: 'Widget failed to initialise' }),
+    ]);
+  });
+  
+  it('browse_webpage converts the page to Markdown', async () => {
+    const result = await tools.call('browse_webpage', {
+      url: `${fixtures.url}/table.html`,
+      outputFormat: 'markdown',
+      mainContentOnly: false,
+    });
+    
+    expect(result.content).toContain('# Pricing');
+    expect(result.content).toContain('| Team | $29 | 10 |');
+  });
+  
+  it('extract_content returns selectors, links and tables', async () => {
+    const { sessionId } = await tools.call('browse_webpage', { url: `${fixtures.url}/table.html` });
+    const result = await tools.call('extract_content', {
+      selectors: { heading: 'h1', missing: '#nope' },
+      extractLinks: true,
+      extractTables: true,
+      sessionId,
+    });
+    
+    expect(result.elements).toEqual({ heading: 'Pricing', missing: '' });
+    expect(result.links).toEqual([
+      { text: 'Read the blog', url: '/article.html' },
+      { text: 'contact sales', url: '/form.html' },
+    ]);
+    expect(result.tables[0].headers).toEqual(['Plan', 'Price', 'Seats']);
+    expect(result.tables[0].rows).toContainEqual(['Enterprise', '$99', 'Unlimited']);
+  });
+  
+  it('take_screenshot captures the page and single elements', async () => {
+    const { sessionId } = await tools.call('browse_webpage', { url: `${fixtures.url}/table.html` });
+    
+    const page = await tools.call('take_screenshot', { sessionId });
+    expect(page.title).toBe('Pricing');
+    expect(Buffer.from(page.imageData, 'base64').length).toBeGreaterThan(100);
+    
+    const element = await tools.call('take_screenshot', { selector: '#plans', sessionId });
+    expect(element.imageData.length).toBeGreaterThan(0);
+    expect(element.imageData).not.toBe(page.imageData);
+  });
+  
+  it('get_interactive_elements lists the form controls by accessible name', async () => {
+    const { sessionId } = await tools.call('browse_webpage', { url: `${fixtures.url}/form.html` });
+    const { elements } = await tools.call('get_interactive_elements', { sessionId });
+    
+    expect(elements).toEqual(expect.arrayContaining([
+      expect.objectContaining({ kind: 'typeable', name: 'Name', tagName: 'input' }),
+      expect.objectContaining({ kind: 'selectable', name: 'Topic', tagName: 'select' }),
+      expect.objectContaining({ kind: 'clickable', name: 'Send', tagName: 'button' }),
+    ]));
+  });
+  
+  it('search_web parses results from the local SearXNG page', async () => {
+    const result = await tools.call('search_web', { query: 'typescript mcp server', provider: 'searxng', fallback: false });
+    
+    expect(result.provider).toBe('searxng');
+    expect(result.attempts).toEqual([{ provider: 'searxng', status: 'ok' }]);
+    expect(result.results.map((item: { url: string }) => item.url)).toEqual([
+      'https://modelcontextprotocol.io/quickstart/server',
+      'https://github.com/modelcontextprotocol/typescript-sdk',
+      'https://www.npmjs.com/package/@modelcontextprotocol/sdk',
+    ]);
+  });
+  
+  it('get_console_logs filters the captured messages by level', async () => {
+    const { sessionId } = await tools.call('browse_webpage', { url: `${fixtures.url}/article.html` });
+    
+    const errors = await tools.call('get_console_logs', { sessionId, minLevel: 'error' });
+    expect(errors.entries.map((entry: { text: string }) => entry.text)).toContain('Widget failed to initialise');
+    
+    const newer = await tools.call('get_console_logs', { sessionId, sinceId: errors.lastId, clear: true });
+    expect(newer.entries).toEqual([]);
+  });
+});
@@ -0,0 +1,106 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { readFile } from 'fs/promises';
+import { join, extname } from 'path';
+
+/**
+ * Directory with the HTML fixtures served at their file name
+ */
+const FIXTURES_DIR = join(__dirname, 'fixtures');
+
+/**
+ * Content types of the fixture files
+ */
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'application/javascript; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+};
+
+/**
+ * 1x1 transparent PNG used for the image in the fixtures
+ */
+const PIXEL_PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=',
+  'base64'
+);
+
+/**
+ * A running fixture server
+ */
+export interface FixtureServer {
+  /** Base URL without a trailing slash, such as http://127.0.0.1:41234 */
+  url: string;
+  close(): Promise<void>;
+}
+
+/**
+ * Escape text for inclusion in HTML
+ * @param text The text
+ * @returns The escaped text
+ */
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"]/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' }[char] as string));
+}
+
+/**
+ * Start a local HTTP server for the fixture pages on a free port.
+ * Besides the files in the fixtures directory it serves:
+ * - /search: the SearXNG results page from the search provider fixtures
+ * - /submitted: a page listing the submitted form fields
+ * - /api/items: JSON used by the SPA fixture
+ * - /pixel.png: a 1x1 image
+ * - /export.csv: a CSV file served as an attachment, so the browser downloads it
+ * @returns The running server
+ */
+export async function startFixtureServer(): Promise<FixtureServer> {
+  const server: Server = createServer(async (request, response) => {
+    const url = new URL(request.url || '/', 'http://127.0.0.1');
+    
+    const send = (status: number, contentType: string, body: string | Buffer) => {
+      response.writeHead(status, { 'Content-Type': contentType });
+      response.end(body);
+    };
+    
+    try {
+      if (url.pathname === '/search') {
+        const html = await readFile(join(__dirname, '..', 'search', 'fixtures', 'searxng.html'), 'utf8');
+        send(200, CONTENT_TYPES['.html'], html);
+      } else if (url.pathname === '/submitted') {
+        const fields = Array.from(url.searchParams.entries())
+          .map(([name, value]) => `<dt>${escapeHtml(name)}</dt><dd id="field-${escapeHtml(name)}">${escapeHtml(value)}</dd>`)
+          .join('');
+        send(200, CONTENT_TYPES['.html'], `<!DOCTYPE html><html><head><title>Submitted</title></head><body><h1>Thank you</h1><dl>${fields}</dl></body></html>`);
+      } else if (url.pathname === '/api/items') {
+        send(200, CONTENT_TYPES['.json'], JSON.stringify({ items: ['Alpha', 'Beta', 'Gamma'] }));
+      } else if (url.pathname === '/pixel.png') {
+        send(200, 'image/png', PIXEL_PNG);
+      } else if (url.pathname === '/export.csv') {
+        response.writeHead(200, { 'Content-Type': 'text/csv', 'Content-Disposition': 'attachment; filename="orders.csv"' });
+        response.end('id,total\n1,9.99\n2,24.50\n');
+      } else {
+        // Only serve plain file names from the fixtures directory
+        const name = url.pathname === '/' ? 'index.html' : url.pathname.substring(1);
+        if (!/^[\w.-]+$/.test(name)) {
+          send(404, 'text/plain', 'Not found');
+          return;
+        }
+        
+        const body = await readFile(join(FIXTURES_DIR, name));
+        send(200, CONTENT_TYPES[extname(name)] || 'application/octet-stream', body);
+      }
+    } catch {
+      send(404, 'text/plain', 'Not found');
+    }
+  });
+  
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve()))),
+  };
+}
+
+export default startFixtureServer;
@@ -0,0 +1,109 @@
+import { startFixtureServer, FixtureServer } from './fixtureServer.js';
+import { createToolHarness, ToolHarness } from './toolHarness.js';
+
+describe('input tools', () => {
+  let fixtures: FixtureServer;
+  let tools: ToolHarness;
+  let sessionId: string;
+  
+  beforeAll(async () => {
+    fixtures = await startFixtureServer();
+    tools = await createToolHarness();
+  });
+  
+  afterAll(async () => {
+    await tools?.close();
+    await fixtures?.close();
+  });
+  
+  beforeEach(async () => {
+    ({ sessionId } = await tools.call('browse_webpage', { url: `${fixtures.url}/input.html` }));
+  });
+  
+  /**
+   * Read the text of an element on the fixture page
+   */
+  async function textOf(selector: string): Promise<string> {
+    const { page } = await tools.browserManager.getPage(sessionId);
+    return page.$eval(selector, el => el.textContent || '');
+  }
+  
+  it('type_text types into an element and clears it first', async () => {
+    const typed = await tools.call('type_text', { text: 'laptops', selector: '#search', sessionId });
+    expect(typed.success).toBe(true);
+    
+    await tools.call('type_text', { text: 'phones', targetText: 'Search', clear: true, sessionId });
+    const { page } = await tools.browserManager.getPage(sessionId);
+    expect(await page.$eval('#search', el => (el as HTMLInputElement).value)).toBe('phones');
+  });
+  
+  it('press_key presses combinations on the focused element', async () => {
+    const pressed = await tools.call('press_key', { keys: 'Control+K', selector: '#search', sessionId });
+    expect(pressed.success).toBe(true);
+    expect(await textOf('#shortcut')).toBe('palette');
+    
+    await tools.call('press_key', { keys: 'Shift+Tab', sessionId });
+    expect(await textOf('#shortcut')).toBe('back');
+    
+    const unknown = await tools.call('press_key', { keys: 'Control+NoSuchKey', sessionId });
+    expect(unknown.success).toBe(false);
+  });
+  
+  it('hover_element opens a menu that appears on hover', async () => {
+    const hovered = await tools.call('hover_element', { text: 'Products', waitForSelector: '.submenu', sessionId });
+    expect(hovered.success).toBe(true);
+    
+    const clicked = await tools.call('click_element', { text: 'Phones', waitForNavigation: false, sessionId });
+    expect(clicked.success).toBe(true);
+    expect(clicked.newUrl).toContain('#phones');
+  });
+  
+  it('scroll scrolls the page and scrollable elements', async () => {
+    const bottom = await tools.call('scroll', { to: 'bottom', sessionId });
+    expect(bottom.position).toEqual(expect.objectContaining({ atBottom: true, atTop: false }));
+    
+    const top = await tools.call('scroll', { deltaY: -100000, sessionId });
+    expect(top.position).toEqual(expect.objectContaining({ scrollY: 0, atTop: true }));
+    
+    const inner = await tools.call('scroll', { selector: '#log', deltaY: 40, sessionId });
+    expect(inner.position.scrollY).toBe(40);
+    expect(inner.position.maxScrollY).toBeGreaterThan(40);
+    
+    const intoView = await tools.call('scroll', { text: 'The end', sessionId });
+    expect(intoView.success).toBe(true);
+    const { page } = await tools.browserManager.getPage(sessionId);
+    expect(await page.$eval('#footer', el => el.getBoundingClientRect().top < window.innerHeight)).toBe(true);
+  });
+  
+  it('drag_and_drop reorders a sortable list and moves a slider', async () => {
+    const sorted = await tools.call('drag_and_drop', {
+      source: { text: 'Write tests' },
+      target: { text: 'Ship it' },
+      sessionId,
+    });
+    expect(sorted).toEqual(expect.objectContaining({ success: true, mode: 'html5' }));
+    
+    const { page } = await tools.browserManager.getPage(sessionId);
+    expect(await page.$$eval('#tasks li', items => items.map(item => item.textContent))).toEqual([
+      'Fix bugs', 'Ship it', 'Write tests',
+    ]);
+    
+    const handle = await page.$eval('#track', el => {
+      const rect = el.getBoundingClientRect();
+      return { x: rect.right - 5, y: rect.top + rect.height / 2 };
+    });
+    const slid = await tools.call('drag_and_drop', { source: { selector: '#handle' }, target: handle, sessionId });
+    expect(slid).toEqual(expect.objectContaining({ success: true, mode: 'mouse' }));
+    expect(await textOf('#slider-value')).toBe('100');
+  });
+  
+  it('drag_and_drop brings a source and target most of a viewport apart into view together', async () => {
+    const dropped = await tools.call('drag_and_drop', {
+      source: { selector: '#card' },
+      target: { selector: '#dropzone' },
+      sessionId,
+    });
+    expect(dropped).toEqual(expect.objectContaining({ success: true, mode: 'mouse' }));
+    expect(await textOf('#drop-status')).toBe('Dropped');
+  });
+});
@@ -0,0 +1,371 @@
+import { access, readdir } from 'fs/promises';
+import { join } from 'path';
+import { startFixtureServer, FixtureServer } from './fixtureServer.js';
+import { createToolHarness, ToolHarness } from './toolHarness.js';
+
+describe('interaction tools', () => {
+  let fixtures: FixtureServer;
+  let tools: ToolHarness;
+  
+  beforeAll(async () => {
+    fixtures = await startFixtureServer();
+    tools = await createToolHarness();
+  });
+  
+  afterAll(async () => {
+    await tools?.close();
+    await fixtures?.close();
+  });
+  
+  it('fill_form fills and submits fields by name, label and placeholder', async () => {
+    const { sessionId } = await tools.call('browse_webpage', { url: `${fixtures.url}/form.html` });
+    
+    const result = await tools.call('fill_form', {
+      fields: {
+        name: 'Grace Hopper',
+        'Email address': 'grace@example.com',
+        Topic: 'support',
+        'you@example.com': 'grace@example.com',
+        Message: 'Hello from the tests',
+        'Subscribe to the newsletter': 'true',
+        nickname: 'nope',
+      },
+      submit: true,
+      sessionId,
+    });
+    
+    expect(result.filledFields).toEqual([
+      'name', 'Email address', 'Topic', 'you@example.com', 'Message', 'Subscribe to the newsletter',
+    ]);
+    expect(result.skippedFields).toEqual(['nickname']);
+    expect(result.fieldMatches.map((match: { strategy: string }) => match.strategy)).toEqual([
+      'name', 'fuzzy', 'label', 'placeholder', 'label', 'label',
+    ]);
+    expect(result.submitted).toBe(true);
+    expect(result.newUrl).toContain('/submitted?');
+    expect(result.changes).toEqual(expect.objectContaining({ navigated: true, urlChanged: true, settled: true }));
+    
+    const { elements } = await tools.call('extract_content', {
+      selectors: { name: '#field-name', email: '#field-email', topic: '#field-topic', subscribe: '#field-subscribe' },
+      extractText: false,
+      sessionId,
+    });
+    expect(elements).toEqual({ name: 'Grace Hopper', email: 'grace@example.com', topic: 'support', subscribe: 'yes' });
+  });
+  
+  it('click_element returns once the page settles and reports what changed', async () => {
+    const { sessionId } = await tools.call('browse_webpage', { url: `${fixtures.url}/index.html` });
+    
+    const navigated = await tools.call('click_element', { text: 'Single-page app', sessionId });
+    expect(navigated.newUrl).toBe(`${fixtures.url}/spa.html`);
+    expect(navigated.changes).toEqual(expect.objectContaining({ navigated: true, urlChanged: true, settled: true }));
+    
+    // The click fetches items and pushes a route without loading a document
+    const loaded = await tools.call('click_element', { selector: '#load', sessionId });
+    expect(loaded.success).toBe(true);
+    expect(loaded.changes).toEqual(expect.objectContaining({
+      navigated: false,
+      urlChanged: true,
+      previousUrl: `${fixtures.url}/spa.html`,
+      requests: 1,
+      pendingRequests: 0,
+      settled: true,
+    }));
+    expect(loaded.changes.domMutations).toBeGreaterThan(0);
+    expect(loaded.changes.elapsedMs).toBeLessThan(5000);
+    
+    const { page } = await tools.browserManager.getPage(sessionId);
+    expect(await page.$eval('#status', el => el.textContent)).toBe('Loaded 3 items');
+    
+    const idle = await tools.call('click_element', { selector: 'h1', sessionId });
+    expect(idle.changes).toEqual(expect.objectContaining({ navigated: false, urlChanged: false, requests: 0 }));
+    expect(idle.message).toContain('nothing changed');
+  });
+  
+  it('finds elements inside iframes, cross-origin frames and open shadow roots', async () => {
+    const { sessionId } = await tools.call('browse_webpage', { url: `${fixtures.url}/frames.html` });
+    
+    const filled = await tools.call('fill_form', {
+      fields: {
+        'Card number': '4242424242424242',
+        'iframe#login >> Username': 'grace',
+        'Newsletter email': 'grace@example.com',
+      },
+      sessionId,
+    });
+    expect(filled.filledFields).toHaveLength(3);
+    expect(filled.fieldMatches[0].frame).toEqual(expect.objectContaining({ name: 'payment', isMainFrame: false }));
+    expect(filled.fieldMatches[1].frame.url).toContain('//localhost:');
+    expect(filled.fieldMatches[2].frame).toBeUndefined();
+    
+    const paid = await tools.call('click_element', { selector: 'iframe#payment >> .pay', sessionId });
+    expect(paid.success).toBe(true);
+    expect(paid.frame).toEqual(expect.objectContaining({ name: 'payment' }));
+    
+    const signedIn = await tools.call('click_element', { selector: '#sign-in', sessionId });
+    expect(signedIn.frame).toEqual(expect.objectContaining({ name: 'login' }));
+    
+    const subscribed = await tools.call('click_element', { selector: '.subscribe', sessionId });
+    expect(subscribed.success).toBe(true);
+    
+    const extracted = await tools.call('extract_content', {
+      selectors: { result: '.result', greeting: '.greeting', status: '#status' },
+      extractText: false,
+      sessionId,
+    });
+    expect(extracted.elements).toEqual({
+      result: 'Paid with 4242424242424242',
+      greeting: 'Hello grace',
+      status: 'Subscribed grace@example.com',
+    });
+    expect(Object.keys(extracted.frames)).toEqual(['result', 'greeting']);
+    
+    const screenshot = await tools.call('take_screenshot', { selector: 'iframe#payment >> #card', sessionId });
+    expect(screenshot.frame).toEqual(expect.objectContaining({ name: 'payment' }));
+    
+    const missing = await tools.call('click_element', { selector: 'iframe#nope >> button', timeout: 1000, sessionId });
+    expect(missing.success).toBe(false);
+    expect(missing.message).toContain('Frame "iframe#nope" not found');
+  });
+  
+  it('inspect_forms lists the fields and submit button of a form', async () => {
+    const result = await tools.call('inspect_forms', { url: `${fixtures.url}/form.html` });
+    
+    expect(result.forms).toHaveLength(1);
+    const [form] = result.forms;
+    expect(form).toMatchObject({ formless: false, method: 'get', submitButton: { text: 'Send' } });
+    expect(form.action).toContain('/submitted');
+    expect(form.fields.map((field: { fieldName: string }) => field.fieldName)).toEqual([
+      'name', 'email', 'topic', 'message', 'subscribe',
+    ]);
+    expect(form.fields[1]).toMatchObject({ type: 'email', label: 'Email', placeholder: 'you@example.com' });
+    expect(form.fields[2].options.map((option: { value: string }) => option.value)).toEqual(['', 'sales', 'support']);
+    expect(form.fields[4]).toMatchObject({ type: 'checkbox', label: 'Subscribe to the newsletter', checked: false });
+  });
+  
+  it('fill_form and click_element address elements by index', async () => {
+    const { sessionId } = await tools.call('browse_webpage', { url: `${fixtures.url}/form.html` });
+    const { elements } = await tools.call('get_interactive_elements', { sessionId });
+    const indexOf = (name: string) => elements.find((el: { name: string }) => el.name === name).index;
+    
+    const filled = await tools.call('fill_form', {
+      indexedFields: [{ elementIndex: indexOf('Name'), value: 'Alan Turing' }],
+      sessionId,
+    });
+    expect(filled.filledFields).toEqual([`element[${indexOf('Name')}]`]);
+    
+    const clicked = await tools.call('click_element', { elementIndex: indexOf('Send'), sessionId });
+    expect(clicked.success).toBe(true);
+    expect(clicked.newUrl).toContain('name=Alan+Turing');
+  });
+  
+  it('fill_form handles dates, multi-selects, files, rich text and custom dropdowns', async () => {
+    const { sessionId } = await tools.call('browse_webpage', { url: `${fixtures.url}/controls.html` });
+    
+    const result = await tools.call('fill_form', {
+      fields: {
+        Birthday: '1990-05-17',
+        Alarm: '07:30',
+        'Favourite colour': '#336699',
+        Volume: '7',
+        Interests: ['music', 'Travel'],
+        Avatar: join(__dirname, 'fixtures', 'index.html'),
+        Attachments: [
+          { fileName: 'notes.txt', content: Buffer.from('Some notes').toString('base64') },
+          { fileName: 'todo.txt', content: Buffer.from('Some todos').toString('base64') },
+        ],
+        Biography: 'Writes compilers',
+        Plan: 'team',
+      },
+      sessionId,
+    });
+    
+    expect(result.skippedFields).toEqual([]);
+    
+    const { page } = await tools.browserManager.getPage(sessionId);
+    const state = await page.evaluate(() => {
+      const input = (id: string) => document.getElementById(id) as HTMLInputElement;
+      return {
+        birthday: input('birthday').value,
+        alarm: input('alarm').value,
+        colour: input('colour').value,
+        volume: input('volume').value,
+        interests: Array.from((document.getElementById('interests') as HTMLSelectElement).selectedOptions).map(o => o.value),
+        avatar: Array.from(input('avatar').files || []).map(file => file.name),
+        attachments: Array.from(input('attachments').files || []).map(file => file.name),
+        bio: document.getElementById('bio')?.textContent,
+        plan: document.getElementById('plan')?.textContent,
+        changes: document.getElementById('changes')?.textContent?.split(',').sort(),
+      };
+    });
+    
+    expect(state).toEqual({
+      birthday: '1990-05-17',
+      alarm: '07:30',
+      colour: '#336699',
+      volume: '7',
+      interests: ['music', 'travel'],
+      avatar: ['index.html'],
+      attachments: ['notes.txt', 'todo.txt'],
+      bio: 'Writes compilers',
+      plan: 'Team',
+      changes: ['alarm', 'attachments', 'avatar', 'birthday', 'colour', 'volume'],
+    });
+    
+    // Files uploaded from content are deleted with the session
+    const uploadDirectory = tools.browserManager.getUploadDirectory(sessionId);
+    expect(await readdir(uploadDirectory)).toHaveLength(2);
+    await tools.call('close_session', { sessionId });
+    await new Promise(resolve => setTimeout(resolve, 200));
+    await expect(access(uploadDirectory)).rejects.toThrow();
+  });
+  
+  it('fill_form skips values that do not fit the control', async () => {
+    const { sessionId } = await tools.call('browse_webpage', { url: `${fixtures.url}/controls.html` });
+    
+    const result = await tools.call('fill_form', {
+      fields: {
+        Birthday: 'next Tuesday',
+        Interests: ['cooking'],
+        Avatar: '/nonexistent/avatar.png',
+        Plan: 'Platinum',
+        Volume: '5',
+      },
+      sessionId,
+    });
+    
+    expect(result.filledFields).toEqual(['Volume']);
+    expect(result.skippedFields).toEqual(['Birthday', 'Interests', 'Avatar', 'Plan']);
+  });
+  
+  it('click_element updates a single-page app without navigation', async () => {
+    const { sessionId } = await tools.call('browse_webpage', { url: `${fixtures.url}/spa.html` });
+    
+    const clicked = await tools.call('click_element', {
+      selector: '#load',
+      waitForNavigation: false,
+      sessionId,
+    });
+    expect(clicked.success).toBe(true);
+    
+    const { browserManager } = tools;
+    const { page } = await browserManager.getPage(sessionId);
+    await page.waitForFunction(() => document.getElementById('status')?.textContent === 'Loaded 3 items');
+    
+    const { elements } = await tools.call('extract_content', { selectors: { items: '#items' }, extractText: false, sessionId });
+    expect(elements.items).toBe('AlphaBetaGamma');
+    expect(page.url()).toBe(`${fixtures.url}/spa.html?view=items`);
+  });
+  
+  it('click_element reports an error for a missing element', async () => {
+    const { sessionId } = await tools.call('browse_webpage', { url: `${fixtures.url}/form.html` });
+    const result = await tools.call('click_element', { selector: '#missing', timeout: 1000, sessionId });
+    
+    expect(result.success).toBe(false);
+    expect(result.message).toContain('Failed to click element');
+  });
+  
+  it('follows popups with the tab tools', async () => {
+    const { sessionId } = await tools.call('browse_webpage', { url: `${fixtures.url}/popup.html` });
+    
+    const clicked = await tools.call('click_element', {
+      text: 'Open pricing in a new tab',
+      waitForNavigation: false,
+      switchToNewTab: true,
+      sessionId,
+    });
+    expect(clicked.newTab).toBeDefined();
+    
+    // The session now works on the new tab
+    const { page } = await tools.browserManager.getPage(sessionId);
+    await page.waitForFunction(() => document.title === 'Pricing');
+    
+    const { tabs } = await tools.call('list_tabs', { sessionId });
+    expect(tabs).toHaveLength(2);
+    expect(tabs.find((tab: { active: boolean }) => tab.active).tabId).toBe(clicked.newTab.tabId);
+    
+    const switched = await tools.call('switch_tab', { tabId: tabs[0].tabId, sessionId });
+    expect(switched).toEqual(expect.objectContaining({ success: true, title: 'Popup Launcher' }));
+    
+    const opened = await tools.call('click_element', { selector: '#open-window', waitForNavigation: false, sessionId });
+    expect(opened.newTab).toBeDefined();
+    expect((await tools.call('list_tabs', { sessionId })).tabs).toHaveLength(3);
+    
+    const closed = await tools.call('close_tab', { tabId: clicked.newTab.tabId, sessionId });
+    expect(closed).toEqual(expect.objectContaining({ success: true, sessionClosed: false }));
+    expect((await tools.call('list_tabs', { sessionId })).tabs).toHaveLength(2);
+  });
+  
+  it('answers dialogs by the session policy or with handle_dialog', async () => {
+    const { sessionId } = await tools.call('browse_webpage', { url: `${fixtures.url}/dialogs.html` });
+    const { page } = await tools.browserManager.getPage(sessionId);
+    const result = () => page.$eval('#result', el => el.textContent);
+    
+    const accepted = await tools.call('handle_dialog', { policy: 'accept', sessionId });
+    expect(accepted).toEqual(expect.objectContaining({ success: true, policy: 'accept', pendingDialogs: 0 }));
+    const autoAccepted = await tools.call('click_element', { selector: '#delete', sessionId });
+    expect(autoAccepted.changes.dialog).toEqual({ type: 'confirm', message: 'Delete this item?', action: 'accepted' });
+    expect(await result()).toBe('Deleted');
+    
+    await tools.call('handle_dialog', { policy: 'dismiss', sessionId });
+    await tools.call('click_element', { selector: '#delete', sessionId });
+    expect(await result()).toBe('Kept');
+    
+    await tools.call('handle_dialog', { policy: 'queue', sessionId });
+    const queued = await tools.call('click_element', { selector: '#rename', sessionId });
+    expect(queued.success).toBe(true);
+    expect(queued.changes.dialog).toEqual({ type: 'prompt', message: 'New name?', action: 'pending' });
+    expect(queued.message).toContain('prompt dialog "New name?"');
+    expect((await tools.call('get_page_state', { sessionId })).dialogs).toHaveLength(1);
+    
+    const answered = await tools.call('handle_dialog', { action: 'accept', promptText: 'Report', sessionId });
+    expect(answered).toEqual(expect.objectContaining({ success: true, pendingDialogs: 0 }));
+    expect(answered.dialog).toEqual(expect.objectContaining({ type: 'prompt', message: 'New name?', defaultValue: 'Untitled' }));
+    expect(await result()).toBe('Name: Report');
+    
+    const unwaited = await tools.call('click_element', { selector: '#delete', waitForNavigation: false, sessionId });
+    expect(unwaited.changes.dialog).toEqual({ type: 'confirm', message: 'Delete this item?', action: 'pending' });
+    await tools.call('handle_dialog', { action: 'dismiss', sessionId });
+    expect(await result()).toBe('Kept');
+    
+    const none = await tools.call('handle_dialog', { action: 'dismiss', sessionId });
+    expect(none).toEqual(expect.objectContaining({ success: false, message: 'Failed to handle dialog: No dialog is open' }));
+    await expect(tools.call('handle_dialog', { sessionId })).rejects.toThrow();
+  });
+  
+  it('captures downloads started by a click', async () => {
+    const { sessionId } = await tools.call('browse_webpage', { url: `${fixtures.url}/downloads.html` });
+    
+    const clicked = await tools.call('click_element', { text: 'Export CSV', sessionId });
+    expect(clicked.success).toBe(true);
+    expect(clicked.downloads).toEqual([expect.objectContaining({ fileName: 'orders.csv', mimeType: 'text/csv' })]);
+    
+    const download = await tools.call('get_download', { sessionId });
+    expect(download).toEqual(expect.objectContaining({ id: clicked.downloads[0].id, fileName: 'orders.csv', size: 24, encoding: 'base64' }));
+    expect(Buffer.from(download.content, 'base64').toString()).toBe('id,total\n1,9.99\n2,24.50\n');
+    
+    await tools.call('click_element', { text: 'Export CSV', sessionId });
+    const second = await tools.call('get_download', { encoding: 'path', sessionId });
+    expect(second.fileName).toBe('orders (1).csv');
+    expect(second.content).toBeUndefined();
+    
+    const { downloads, directory } = await tools.call('list_downloads', { sessionId });
+    expect(downloads.map((entry: { fileName: string }) => entry.fileName)).toEqual(['orders.csv', 'orders (1).csv']);
+    expect(downloads.every((entry: { state: string; path: string }) => entry.state === 'completed' && entry.path.startsWith(directory))).toBe(true);
+    
+    await expect(tools.call('get_download', { downloadId: 'no-such-download', sessionId })).rejects.toThrow('not found');
+  });
+  
+  it('lists and closes sessions', async () => {
+    const { sessionId } = await tools.call('browse_webpage', { url: `${fixtures.url}/index.html` });
+    
+    const { sessions } = await tools.call('list_sessions');
+    expect(sessions).toContainEqual(expect.objectContaining({ sessionId, title: 'Fixture Index' }));
+    
+    const closed = await tools.call('close_session', { sessionId });
+    expect(closed.success).toBe(true);
+    
+    const after = await tools.call('list_sessions');
+    expect(after.sessions.map((session: { sessionId: string }) => session.sessionId)).not.toContain(sessionId);
+  });
+});
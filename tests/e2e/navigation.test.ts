@@ -0,0 +1,110 @@
+import { startFixtureServer, FixtureServer } from './fixtureServer.js';
+import { createToolHarness, ToolHarness } from './toolHarness.js';
+
+describe('navigation tools', () => {
+  let fixtures: FixtureServer;
+  let tools: ToolHarness;
+  
+  beforeAll(async () => {
+    fixtures = await startFixtureServer();
+    tools = await createToolHarness();
+  });
+  
+  afterAll(async () => {
+    await tools?.close();
+    await fixtures?.close();
+  });
+  
+  it('go_back and go_forward move through pages and single-page app routes', async () => {
+    const { sessionId } = await tools.call('browse_webpage', { url: `${fixtures.url}/index.html` });
+    await tools.call('browse_webpage', { url: `${fixtures.url}/spa.html`, sessionId });
+    
+    // Loading the items pushes a ?view=items history entry without loading a document
+    await tools.call('click_element', { selector: '#load', waitForNavigation: false, sessionId });
+    const { page } = await tools.browserManager.getPage(sessionId);
+    await page.waitForFunction(() => location.search === '?view=items');
+    
+    const back = await tools.call('go_back', { sessionId });
+    expect(back.success).toBe(true);
+    expect(back.navigated).toBe(true);
+    expect(back.url).toBe(`${fixtures.url}/spa.html`);
+    
+    const page1 = await tools.call('go_back', { sessionId });
+    expect(page1.url).toBe(`${fixtures.url}/index.html`);
+    
+    const start = await tools.call('go_back', { sessionId });
+    expect(start.success).toBe(true);
+    expect(start.navigated).toBe(false);
+    
+    const forward = await tools.call('go_forward', { sessionId });
+    expect(forward.navigated).toBe(true);
+    expect(forward.url).toBe(`${fixtures.url}/spa.html`);
+    expect(forward.status).toBe(200);
+  });
+  
+  it('reload reloads the page and resets its state', async () => {
+    const { sessionId } = await tools.call('browse_webpage', { url: `${fixtures.url}/spa.html` });
+    await tools.call('click_element', { selector: '#load', waitForNavigation: false, sessionId });
+    
+    const reloaded = await tools.call('reload', { sessionId });
+    expect(reloaded.success).toBe(true);
+    expect(reloaded.status).toBe(200);
+    
+    const { page } = await tools.browserManager.getPage(sessionId);
+    expect(await page.$eval('#status', el => el.textContent)).toBe('Idle');
+  });
+  
+  it('get_page_state reports the url, title, scroll position, viewport and history', async () => {
+    const { sessionId } = await tools.call('browse_webpage', { url: `${fixtures.url}/index.html` });
+    await tools.call('browse_webpage', { url: `${fixtures.url}/article.html`, sessionId });
+    
+    const state = await tools.call('get_page_state', { sessionId });
+    expect(state.url).toBe(`${fixtures.url}/article.html`);
+    expect(state.title).toBeTruthy();
+    expect(state.readyState).toBe('complete');
+    expect(state.scroll).toEqual(expect.objectContaining({ x: 0, y: 0 }));
+    expect(state.viewport.width).toBeGreaterThan(0);
+    expect(state.history).toEqual(expect.objectContaining({ canGoBack: true, canGoForward: false }));
+    expect(state.dialogs).toEqual([]);
+  });
+  
+  it('wait_for reports which condition fired', async () => {
+    const { sessionId } = await tools.call('browse_webpage', { url: `${fixtures.url}/spa.html` });
+    
+    const waiting = tools.call('wait_for', { responseUrlPattern: '*/api/items', selector: '#never', sessionId });
+    await tools.call('click_element', { selector: '#load', waitForNavigation: false, sessionId });
+    const response = await waiting;
+    expect(response.success).toBe(true);
+    expect(response.condition).toBe('response');
+    expect(response.status).toBe(200);
+    
+    const text = await tools.call('wait_for', { text: 'Loaded 3 items', sessionId });
+    expect(text.condition).toBe('text');
+    
+    const url = await tools.call('wait_for', { urlPattern: '*view=items', sessionId });
+    expect(url.condition).toBe('url');
+    
+    const predicate = await tools.call('wait_for', { predicate: 'document.querySelectorAll("#items li").length === 3', sessionId });
+    expect(predicate.condition).toBe('predicate');
+    
+    const hidden = await tools.call('wait_for', { selector: '#never', state: 'hidden', sessionId });
+    expect(hidden.condition).toBe('selector');
+  });
+  
+  it('wait_for fails when no condition is met in time', async () => {
+    const { sessionId } = await tools.call('browse_webpage', { url: `${fixtures.url}/spa.html` });
+    
+    const result = await tools.call('wait_for', { selector: '#never', text: 'Never shown', timeout: 500, sessionId });
+    expect(result.success).toBe(false);
+    expect(result.message).toContain('Timed out after 500ms');
+    
+    await expect(tools.call('wait_for', { sessionId })).rejects.toThrow();
+  });
+  
+  it('navigation tools fail for an unknown session', async () => {
+    const back = await tools.call('go_back', { sessionId: 'no-such-session' });
+    expect(back.success).toBe(false);
+    
+    await expect(tools.call('get_page_state', { sessionId: 'no-such-session' })).rejects.toThrow();
+  });
+});
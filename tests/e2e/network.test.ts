@@ -0,0 +1,81 @@
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { startFixtureServer, FixtureServer } from './fixtureServer.js';
+import { createToolHarness, ToolHarness } from './toolHarness.js';
+
+describe('network tools', () => {
+  let fixtures: FixtureServer;
+  let tools: ToolHarness;
+  let tempDir: string;
+  
+  beforeAll(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'mcp-e2e-'));
+    fixtures = await startFixtureServer();
+    tools = await createToolHarness();
+  });
+  
+  afterAll(async () => {
+    await tools?.close();
+    await fixtures?.close();
+    await rm(tempDir, { recursive: true, force: true });
+  });
+  
+  it('set_network_rules blocks resource types and URL patterns', async () => {
+    const rules = await tools.call('set_network_rules', { blockResourceTypes: ['image'], blockUrlPatterns: ['*/api/*'] });
+    const { sessionId } = rules;
+    expect(rules).toEqual(expect.objectContaining({ blockResourceTypes: ['image'], blockedRequests: 0 }));
+    
+    await tools.call('browse_webpage', { url: `${fixtures.url}/article.html`, sessionId });
+    await tools.call('browse_webpage', { url: `${fixtures.url}/spa.html`, sessionId });
+    await tools.call('click_element', { selector: '#load', waitForNavigation: false, sessionId });
+    
+    const { page } = await tools.browserManager.getPage(sessionId);
+    await page.waitForFunction(() => document.getElementById('status')?.textContent === 'Loading');
+    
+    const { blockedRequests } = tools.browserManager.getNetworkRules(sessionId);
+    expect(blockedRequests).toBeGreaterThanOrEqual(2);
+    
+    const cleared = await tools.call('set_network_rules', { blockResourceTypes: [], blockUrlPatterns: [], sessionId });
+    expect(cleared.blockUrlPatterns).toEqual([]);
+  });
+  
+  it('records traffic and exports it as HAR', async () => {
+    const { sessionId } = await tools.call('start_network_capture', { captureBodies: true });
+    
+    await tools.call('browse_webpage', { url: `${fixtures.url}/spa.html`, sessionId });
+    await tools.call('click_element', { selector: '#load', waitForNavigation: false, sessionId });
+    const { page } = await tools.browserManager.getPage(sessionId);
+    await page.waitForFunction(() => document.getElementById('status')?.textContent === 'Loaded 3 items');
+    
+    const harPath = join(tempDir, 'capture.har');
+    const result = await tools.call('stop_network_capture', { sessionId, filter: { resourceTypes: ['fetch'] }, harPath });
+    
+    expect(result.totalEntries).toBeGreaterThanOrEqual(2);
+    expect(result.entries).toHaveLength(1);
+    expect(result.entries[0]).toEqual(expect.objectContaining({
+      url: `${fixtures.url}/api/items`,
+      status: 200,
+      mimeType: 'application/json',
+      responseBody: '{"items":["Alpha","Beta","Gamma"]}',
+    }));
+    
+    const har = JSON.parse(await readFile(harPath, 'utf8'));
+    expect(har.log.version).toBe('1.2');
+    expect(har.log.entries[0].request.url).toBe(`${fixtures.url}/api/items`);
+    
+    await expect(tools.call('stop_network_capture', { sessionId })).rejects.toThrow('No network capture is running');
+  });
+  
+  it('returns the entries when the HAR log cannot be written', async () => {
+    const { sessionId } = await tools.call('start_network_capture', {});
+    await tools.call('browse_webpage', { url: `${fixtures.url}/spa.html`, sessionId });
+    
+    const harPath = join(tempDir, 'missing', 'capture.har');
+    const result = await tools.call('stop_network_capture', { sessionId, harPath });
+    
+    expect(result.entries.length).toBeGreaterThan(0);
+    expect(result.harPath).toBeUndefined();
+    expect(result.harError).toContain(`Failed to write HAR log to ${harPath}`);
+  });
+});
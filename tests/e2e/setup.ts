@@ -0,0 +1,12 @@
+// Configure the server for the end-to-end tests before any module reads the environment
+process.env.MCP_MODEL_PROVIDER = 'MOCK';
+process.env.MOCK_AI_RESPONSES_FILE = '';
+process.env.BROWSER_HEADLESS = 'true';
+process.env.CHROME_CONNECT_EXISTING = 'false';
+process.env.CHROME_PERSISTENT_SESSION = 'false';
+process.env.BROWSER_ISOLATE_SESSIONS = 'false';
+process.env.BROWSER_BLOCK_RESOURCE_TYPES = '';
+process.env.BROWSER_BLOCK_ADS = 'false';
+process.env.SEARCH_PROVIDER = 'searxng';
+process.env.SEARCH_FALLBACK_PROVIDERS = 'searxng';
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'error';
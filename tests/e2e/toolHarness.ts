@@ -0,0 +1,69 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { z } from 'zod';
+import { BrowserManager } from '../../src/browser/browserManager.js';
+import { Config } from '../../src/config/index.js';
+import { setupTools } from '../../src/tools/index.js';
+import { registerAnalyzeWebpageTool } from '../../src/tools/analyzeWebpage.js';
+import { registerAnalyzeScreenshotTool } from '../../src/tools/analyzeScreenshot.js';
+
+/**
+ * Tools registered on a stand-in MCP server, called the way the server calls them
+ */
+export interface ToolHarness {
+  browserManager: BrowserManager;
+  /** Names of the registered tools */
+  toolNames: string[];
+  /** Validate the parameters against the tool's input schema and run the tool */
+  call<T = any>(name: string, params?: Record<string, unknown>): Promise<T>;
+  close(): Promise<void>;
+}
+
+/**
+ * Launch headless Chrome and register every tool against it
+ * @returns The harness
+ */
+export async function createToolHarness(): Promise<ToolHarness> {
+  const definitions = new Map<string, z.ZodTypeAny>();
+  const handlers = new Map<string, (params: any) => Promise<unknown>>();
+  
+  // Collects the definitions and handlers the tools register
+  const server = {
+    registerToolDefinition: (definition: { name: string; parameters: z.ZodTypeAny }) => {
+      definitions.set(definition.name, definition.parameters);
+    },
+    registerToolImplementation: (implementation: { name: string; handler: (params: any) => Promise<unknown> }) => {
+      handlers.set(implementation.name, implementation.handler);
+    },
+  } as unknown as Server;
+  
+  const browserManager = new BrowserManager({
+    ...Config.browser,
+    headless: true,
+    connectExisting: false,
+    persistentSession: false,
+    debuggingPort: 0,
+  });
+  await browserManager.initialize();
+  
+  setupTools(server, browserManager);
+  
+  // Not part of the default tool set, but still shipped in src/tools
+  registerAnalyzeWebpageTool(server, browserManager);
+  registerAnalyzeScreenshotTool(server, browserManager);
+  
+  return {
+    browserManager,
+    toolNames: Array.from(handlers.keys()),
+    call: async <T = any>(name: string, params: Record<string, unknown> = {}): Promise<T> => {
+      const schema = definitions.get(name);
+      const handler = handlers.get(name);
+      if (!schema || !handler) {
+        throw new Error(`Tool ${name} is not registered`);
+      }
+      return handler(schema.parse(params)) as Promise<T>;
+    },
+    close: () => browserManager.close(),
+  };
+}
+
+export default createToolHarness;
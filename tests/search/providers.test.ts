@@ -0,0 +1,132 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { JSDOM } from 'jsdom';
+import { parseDuckDuckGoResults, isDuckDuckGoBlocked } from '../../src/search/providers/duckDuckGoProvider.js';
+import { parseBingResults, isBingBlocked } from '../../src/search/providers/bingProvider.js';
+import { parseSearxngResults, isSearxngBlocked } from '../../src/search/providers/searxngProvider.js';
+import { parseGoogleResults, isGoogleBlocked } from '../../src/search/providers/googleProvider.js';
+import { SearchProviderFactory, SearchProviderName } from '../../src/search/providers/index.js';
+import { Config } from '../../src/config/index.js';
+
+/**
+ * Load a results page fixture as it would be seen at the given URL
+ * @param name The fixture file name
+ * @param url The URL the page was loaded from
+ * @returns The document element of the fixture
+ */
+function loadFixture(name: string, url: string): Element {
+  const html = readFileSync(join(__dirname, 'fixtures', name), 'utf8');
+  return new JSDOM(html, { url }).window.document.documentElement;
+}
+
+const expectedResults = [
+  {
+    title: 'Quickstart: build a server - Model Context Protocol',
+    url: 'https://modelcontextprotocol.io/quickstart/server',
+    snippet: 'Get started building your own server to use in Claude for Desktop and other clients.',
+  },
+  {
+    title: 'GitHub - modelcontextprotocol/typescript-sdk',
+    url: 'https://github.com/modelcontextprotocol/typescript-sdk',
+    snippet: 'The official TypeScript SDK for Model Context Protocol servers and clients.',
+  },
+  {
+    title: '@modelcontextprotocol/sdk - npm',
+    url: 'https://www.npmjs.com/package/@modelcontextprotocol/sdk',
+    snippet: 'Model Context Protocol implementation for TypeScript.',
+  },
+];
+
+describe('DuckDuckGo provider', () => {
+  const url = 'https://html.duckduckgo.com/html/?q=typescript%20mcp%20server';
+  
+  it('parses organic results, skipping ads and unwrapping redirect links', () => {
+    expect(parseDuckDuckGoResults(loadFixture('duckduckgo.html', url), 10)).toEqual(expectedResults);
+  });
+  
+  it('stops at the result limit', () => {
+    expect(parseDuckDuckGoResults(loadFixture('duckduckgo.html', url), 2)).toEqual(expectedResults.slice(0, 2));
+  });
+  
+  it('detects the bot challenge page', () => {
+    expect(isDuckDuckGoBlocked(loadFixture('duckduckgo-blocked.html', url))).toBe(true);
+    expect(isDuckDuckGoBlocked(loadFixture('duckduckgo.html', url))).toBe(false);
+    expect(parseDuckDuckGoResults(loadFixture('duckduckgo-blocked.html', url), 10)).toEqual([]);
+  });
+});
+
+describe('Bing provider', () => {
+  const url = 'https://www.bing.com/search?q=typescript%20mcp%20server';
+  
+  it('parses organic results, skipping ads and decoding tracked links', () => {
+    expect(parseBingResults(loadFixture('bing.html', url), 10)).toEqual(expectedResults);
+  });
+  
+  it('stops at the result limit', () => {
+    expect(parseBingResults(loadFixture('bing.html', url), 1)).toEqual(expectedResults.slice(0, 1));
+  });
+  
+  it('detects the CAPTCHA page', () => {
+    expect(isBingBlocked(loadFixture('bing-captcha.html', url))).toBe(true);
+    expect(isBingBlocked(loadFixture('bing.html', url))).toBe(false);
+  });
+});
+
+describe('SearXNG provider', () => {
+  const url = 'https://searx.example.org/search?q=typescript%20mcp%20server&categories=general';
+  
+  it('parses results and tolerates a missing snippet', () => {
+    expect(parseSearxngResults(loadFixture('searxng.html', url), 10)).toEqual([
+      ...expectedResults.slice(0, 2),
+      { ...expectedResults[2], snippet: '' },
+    ]);
+  });
+  
+  it('detects the rate limiter page', () => {
+    expect(isSearxngBlocked(loadFixture('searxng-rate-limited.html', url))).toBe(true);
+    expect(isSearxngBlocked(loadFixture('searxng.html', url))).toBe(false);
+  });
+});
+
+describe('Google provider', () => {
+  const url = 'https://www.google.com/search?q=typescript%20mcp%20server&hl=en';
+  
+  it('parses results, skipping grouping containers and unwrapping /url links', () => {
+    expect(parseGoogleResults(loadFixture('google.html', url), 10)).toEqual([
+      ...expectedResults.slice(0, 2),
+      { ...expectedResults[2], snippet: '' },
+    ]);
+  });
+  
+  it('detects the consent and CAPTCHA pages', () => {
+    expect(isGoogleBlocked(loadFixture('google-consent.html', url))).toBe(true);
+    expect(isGoogleBlocked(loadFixture('google.html', 'https://www.google.com/sorry/index?continue=x'))).toBe(true);
+    expect(isGoogleBlocked(loadFixture('google.html', url))).toBe(false);
+  });
+});
+
+describe('SearchProviderFactory.getProviderChain', () => {
+  const search = { ...Config.search };
+  
+  beforeEach(() => {
+    Config.search.fallbackProviders = ['duckduckgo', 'bing'];
+    Config.search.searxngUrl = '';
+  });
+  
+  afterEach(() => {
+    Object.assign(Config.search, search);
+  });
+  
+  it('falls back when the preferred provider cannot be created', () => {
+    expect(SearchProviderFactory.getProviderChain('searxng').map(provider => provider.name)).toEqual(['duckduckgo', 'bing']);
+    expect(SearchProviderFactory.getProviderChain('yahoo' as SearchProviderName).map(provider => provider.name))
+      .toEqual(['duckduckgo', 'bing']);
+  });
+  
+  it('throws when the preferred provider cannot be created and there is no fallback', () => {
+    expect(() => SearchProviderFactory.getProviderChain('searxng', false)).toThrow('SEARXNG_URL');
+    
+    Config.search.fallbackProviders = [];
+    expect(() => SearchProviderFactory.getProviderChain('searxng')).toThrow('No search provider is available');
+  });
+});
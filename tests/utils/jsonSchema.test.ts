@@ -0,0 +1,73 @@
+import { checkJsonSchema, validateJsonSchema, JsonSchema } from '../../src/utils/jsonSchema.js';
+
+describe('validateJsonSchema', () => {
+  it('checks types, treating integers as numbers', () => {
+    expect(validateJsonSchema('Ada', { type: 'string' })).toEqual([]);
+    expect(validateJsonSchema(3, { type: 'number' })).toEqual([]);
+    expect(validateJsonSchema(3.5, { type: 'integer' })).toEqual(['$: expected integer but got number']);
+    expect(validateJsonSchema(null, { type: ['string', 'null'] })).toEqual([]);
+    expect(validateJsonSchema([], { type: 'object' })).toEqual(['$: expected object but got array']);
+  });
+  
+  it('reports missing required properties', () => {
+    const schema: JsonSchema = { type: 'object', properties: { name: { type: 'string' } }, required: ['name', 'price'] };
+    expect(validateJsonSchema({ name: 'Lamp' }, schema)).toEqual(['$.price: is required']);
+    expect(validateJsonSchema({ name: 'Lamp', price: 20 }, schema)).toEqual([]);
+  });
+  
+  it('rejects or validates additional properties', () => {
+    const closed: JsonSchema = { type: 'object', properties: { name: { type: 'string' } }, additionalProperties: false };
+    expect(validateJsonSchema({ name: 'Lamp', color: 'red' }, closed)).toEqual(['$.color: is not allowed']);
+    
+    const typed: JsonSchema = { type: 'object', additionalProperties: { type: 'number' } };
+    expect(validateJsonSchema({ width: 10, height: 'tall' }, typed)).toEqual(['$.height: expected number but got string']);
+  });
+  
+  it('validates array items with their index in the path', () => {
+    const schema: JsonSchema = { type: 'array', items: { type: 'object', required: ['email'] }, minItems: 1 };
+    expect(validateJsonSchema([{ email: 'a@example.com' }, {}], schema)).toEqual(['$[1].email: is required']);
+    expect(validateJsonSchema([], schema)).toEqual(['$: must have at least 1 items']);
+  });
+  
+  it('requires a match for anyOf and exactly one match for oneOf', () => {
+    const anyOf: JsonSchema = { anyOf: [{ type: 'string' }, { type: 'number' }] };
+    expect(validateJsonSchema(5, anyOf)).toEqual([]);
+    expect(validateJsonSchema(true, anyOf)).toEqual(['$: must match at least one of the anyOf schemas']);
+    
+    const oneOf: JsonSchema = { oneOf: [{ type: 'number' }, { type: 'integer' }] };
+    expect(validateJsonSchema(1.5, oneOf)).toEqual([]);
+    expect(validateJsonSchema(2, oneOf)).toEqual(['$: must match exactly one of the oneOf schemas, matched 2']);
+  });
+  
+  it('matches string patterns', () => {
+    const schema: JsonSchema = { type: 'string', pattern: '^\\d{4}-\\d{2}-\\d{2}$' };
+    expect(validateJsonSchema('2024-03-01', schema)).toEqual([]);
+    expect(validateJsonSchema('March 1', schema)).toEqual(['$: must match the pattern ^\\d{4}-\\d{2}-\\d{2}$']);
+  });
+});
+
+describe('checkJsonSchema', () => {
+  it('accepts valid schemas', () => {
+    expect(checkJsonSchema({
+      type: 'object',
+      properties: { sku: { type: 'string', pattern: '^[A-Z]+-\\d+$' } },
+      items: { anyOf: [{ type: 'string' }, { type: 'null' }] },
+    })).toEqual([]);
+  });
+  
+  it('reports invalid patterns and unknown types anywhere in the schema', () => {
+    const errors = checkJsonSchema({
+      type: 'object',
+      properties: {
+        code: { type: 'string', pattern: '([A-Z' },
+        tags: { type: 'array', items: { type: 'text' } },
+      },
+      oneOf: [{ pattern: '*' }],
+    });
+    
+    expect(errors).toHaveLength(3);
+    expect(errors[0]).toMatch(/^\$\.code: invalid pattern \(\[A-Z/);
+    expect(errors[1]).toBe('$.tags[]: unknown type "text"');
+    expect(errors[2]).toMatch(/^\$\.oneOf\[0\]: invalid pattern \*/);
+  });
+});